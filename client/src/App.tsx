@@ -5,12 +5,16 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { CallProvider } from "@/contexts/call-context";
 import ChatPage from "@/pages/chat";
+import ClinicianPage from "@/pages/clinician";
+import ClinicianCasePage from "@/pages/clinician-case";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={ChatPage} />
+      <Route path="/clinician" component={ClinicianPage} />
+      <Route path="/clinician/:sessionId" component={ClinicianCasePage} />
       <Route component={NotFound} />
     </Switch>
   );
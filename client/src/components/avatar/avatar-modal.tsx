@@ -8,6 +8,7 @@ import { useMicVAD } from "@/hooks/use-mic-vad";
 import { useAudioProcessor } from "@/hooks/use-audio-processor";
 import { useToast } from "@/hooks/use-toast";
 import { ChatMessage } from "@/types/voice";
+import { TherapistPersona } from "@/types/avatar";
 import { MessageBubble } from "../message-bubble";
 import { Mic, MicOff, X, Send, Settings, Phone, PhoneOff } from "lucide-react";
 
@@ -15,6 +16,7 @@ interface AvatarModalProps {
   isOpen: boolean;
   onClose: () => void;
   sessionId: string;
+  persona: TherapistPersona;
   onMessageReceived?: (userMessage: string, aiResponse: string) => void;
   videoRef?: React.RefObject<HTMLVideoElement>;
 }
@@ -23,6 +25,7 @@ export function AvatarModal({
   isOpen, 
   onClose, 
   sessionId, 
+  persona,
   onMessageReceived,
   videoRef: externalVideoRef 
 }: AvatarModalProps) {
@@ -183,7 +186,7 @@ export function AvatarModal({
       });
 
       // Initialize with video element
-      await avatarClientRef.current.initialize(videoRef.current);
+      await avatarClientRef.current.initialize(videoRef.current, persona);
       console.log('✅ Avatar client initialized successfully');
 
     } catch (error) {
@@ -263,7 +266,7 @@ export function AvatarModal({
       }
       
       // Send initial greeting
-      await avatarClientRef.current.speakAgentResponse("¡Hola! Soy el Dr. Carlos Mendoza. ¿En qué puedo ayudarte hoy?");
+      await avatarClientRef.current.speakAgentResponse(persona.greeting);
       
     } catch (error) {
       console.error('Failed to start call:', error);
@@ -3,8 +3,9 @@ import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { FixedSizeList as List } from 'react-window';
 import { ChatMessage } from '@/types/voice';
-import { X, MessageSquare, ScrollText } from 'lucide-react';
+import { X, MessageSquare, ScrollText, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { getUiStrings } from '@/lib/i18n';
 
 interface TranscriptMessage extends ChatMessage {
   speaker: 'user' | 'doctor';
@@ -17,15 +18,31 @@ interface ConversationTranscriptProps {
   messages: TranscriptMessage[];
   isVisible: boolean;
   onToggle: () => void;
+  // Sesión guardada en el servidor; sin ella no se ofrece exportar
+  sessionId?: string;
+  // Idioma de la consulta, para los textos traducidos
+  language?: string;
   className?: string;
 }
 
+// Las exportaciones se generan en el servidor a partir de los mensajes guardados
+const EXPORT_FORMATS = [
+  { format: 'txt', label: 'TXT' },
+  { format: 'md', label: 'MD' },
+  { format: 'srt', label: 'SRT' },
+  { format: 'vtt', label: 'VTT' },
+  { format: 'json', label: 'JSON' },
+];
+
 export function ConversationTranscript({
   messages,
   isVisible,
   onToggle,
+  sessionId,
+  language,
   className = ""
 }: ConversationTranscriptProps) {
+  const t = getUiStrings(language);
   const [autoScroll, setAutoScroll] = useState(true);
   const [currentTyping, setCurrentTyping] = useState<string>('');
   const listRef = useRef<List>(null);
@@ -184,6 +201,25 @@ export function ConversationTranscript({
                 {messages.length > 0 ? 'Conversación activa' : 'Esperando mensajes...'}
               </span>
             </div>
+            {sessionId && messages.length > 0 && (
+              <div className="flex items-center flex-wrap gap-1 mt-2">
+                <Download className="h-3 w-3 text-gray-400 mr-1" />
+                <span className="text-xs text-gray-400 mr-1">{t.exportTranscript}</span>
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <Button
+                    key={format}
+                    variant="ghost"
+                    size="sm"
+                    asChild
+                    className="h-6 px-2 text-xs text-gray-300 hover:text-white hover:bg-white/10"
+                  >
+                    <a href={`/api/sessions/${encodeURIComponent(sessionId)}/transcript/export?format=${format}`} download>
+                      {label}
+                    </a>
+                  </Button>
+                ))}
+              </div>
+            )}
           </div>
         </motion.div>
       )}
@@ -5,15 +5,23 @@ import { Input } from "@/components/ui/input";
 import { StreamingAvatarClient, StreamingAvatarState } from "@/lib/streaming-avatar-client";
 import { useMicVAD } from "@/hooks/use-mic-vad";
 import { useAudioProcessor } from "@/hooks/use-audio-processor";
+import { useLiveSession } from "@/hooks/use-live-session";
 import { useToast } from "@/hooks/use-toast";
 import { ChatMessage } from "@/types/voice";
+import { TherapistPersona } from "@/types/avatar";
+import { getUiStrings } from "@/lib/i18n";
 import { MessageBubble } from "../message-bubble";
-import { Mic, MicOff, X, Send, Settings, Phone, PhoneOff } from "lucide-react";
+import { ConversationTranscript } from "./conversation-transcript";
+import { Mic, MicOff, X, Send, Settings, Phone, PhoneOff, ScrollText } from "lucide-react";
 
 interface NewAvatarModalProps {
   isOpen: boolean;
   onClose: () => void;
   sessionId: string;
+  persona?: TherapistPersona;
+  // Consultation language (UI strings) and the language sent to STT ("auto" to detect it)
+  language?: string;
+  speechLanguage?: string;
   onMessageReceived?: (userMessage: string, aiResponse: string) => void;
 }
 
@@ -21,9 +29,13 @@ export function NewAvatarModal({
   isOpen, 
   onClose, 
   sessionId, 
+  persona,
+  language = 'es',
+  speechLanguage = language,
   onMessageReceived 
 }: NewAvatarModalProps) {
   const { toast } = useToast();
+  const t = getUiStrings(language);
   const [avatarState, setAvatarState] = useState<StreamingAvatarState>({
     phase: 'initializing',
     isConnected: false,
@@ -36,6 +48,7 @@ export function NewAvatarModal({
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [textInput, setTextInput] = useState('');
   const [showSettings, setShowSettings] = useState(false);
+  const [showTranscript, setShowTranscript] = useState(false);
   
   const avatarClientRef = useRef<StreamingAvatarClient | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -44,7 +57,7 @@ export function NewAvatarModal({
   // Audio processor hook
   const audioProcessor = useAudioProcessor({
     sessionId,
-    language: 'es',
+    language: speechLanguage,
     onUserMessage: (message) => {
       const userMessage: ChatMessage = {
         id: `msg_${Date.now()}`,
@@ -56,7 +69,7 @@ export function NewAvatarModal({
       setMessages(prev => [...prev, userMessage]);
       onMessageReceived?.(message, '');
     },
-    onAIResponse: async (response) => {
+    onAIResponse: (response) => {
       const assistantMessage: ChatMessage = {
         id: `msg_${Date.now() + 1}`,
         role: 'assistant',
@@ -64,17 +77,35 @@ export function NewAvatarModal({
         timestamp: new Date(),
       };
       setMessages(prev => [...prev, assistantMessage]);
-      
-      // Send response to avatar
+      onMessageReceived?.('', response);
+    },
+    // Replies are streamed so the avatar starts speaking the first sentence while the rest is generated
+    onAISentence: (sentence) => {
       if (avatarClientRef.current?.isReady()) {
-        try {
-          await avatarClientRef.current.speakAgentResponse(response);
-        } catch (error) {
+        avatarClientRef.current.queueAgentSentence(sentence).catch(error => {
           console.error('Failed to send response to avatar:', error);
-        }
+        });
+      }
+    },
+  });
+
+  // During a clinician takeover the avatar speaks the clinician's replies. They are not passed to
+  // onMessageReceived: the chat behind the modal receives them from its own live feed
+  const { takeoverBy } = useLiveSession(sessionId, {
+    enabled: isOpen,
+    onClinicianMessage: ({ clinician, messageId, text, at }) => {
+      setMessages(prev => [...prev, {
+        id: `clinician_${messageId}`,
+        role: 'assistant',
+        content: text,
+        timestamp: new Date(at),
+        metadata: { clinician },
+      }]);
+      if (avatarClientRef.current?.isReady()) {
+        avatarClientRef.current.queueAgentSentence(text).catch(error => {
+          console.error('Failed to send clinician message to avatar:', error);
+        });
       }
-      
-      onMessageReceived?.('', response);
     },
   });
 
@@ -87,15 +118,18 @@ export function NewAvatarModal({
       console.log('🎤 New Avatar: Speech ended, processing audio');
       await processAudioMessage(audioBlob);
     },
-    onInterrupt: () => {
+    onInterrupt: async () => {
       console.log('🎤 New Avatar: User interrupt detected');
-      if (avatarClientRef.current?.isReady() && avatarState.phase === 'speaking') {
-        try {
-          // Avatar interrupt functionality would go here
-          console.log('Avatar interrupt requested');
-        } catch (error) {
-          console.error('Failed to interrupt avatar:', error);
+      try {
+        const cancelled = await audioProcessor.interrupt();
+        if (cancelled.length > 0) {
+          console.log('⏹️ Cancelled turns:', cancelled);
         }
+      } catch (error) {
+        console.error('Failed to cancel pending turn:', error);
+      }
+      if (avatarClientRef.current?.isReady() && avatarState.phase === 'speaking') {
+        await avatarClientRef.current.interrupt();
       }
     },
     autoStart: false
@@ -103,11 +137,12 @@ export function NewAvatarModal({
 
   useEffect(() => {
     if (isOpen) {
-      initializeAvatarSession();
+      // The avatar and voice depend on the conversation's persona
+      if (persona) initializeAvatarSession();
     } else {
       cleanup();
     }
-  }, [isOpen]);
+  }, [isOpen, persona]);
 
   useEffect(() => {
     return () => {
@@ -131,6 +166,9 @@ export function NewAvatarModal({
       if (!videoRef.current) {
         throw new Error('Video element not available');
       }
+      if (!persona) {
+        throw new Error('Persona not loaded');
+      }
 
       if (avatarClientRef.current) {
         await avatarClientRef.current.close();
@@ -142,7 +180,7 @@ export function NewAvatarModal({
         setAvatarState(prev => ({ ...prev, ...newState }));
       });
 
-      await avatarClientRef.current.initialize(videoRef.current);
+      await avatarClientRef.current.initialize(videoRef.current, persona);
       console.log('✅ New Avatar client initialized successfully');
 
     } catch (error) {
@@ -174,8 +212,8 @@ export function NewAvatarModal({
     } catch (error) {
       console.error('Error processing audio message:', error);
       toast({
-        title: 'Processing Error',
-        description: error instanceof Error ? error.message : 'Failed to process audio',
+        title: t.processingError,
+        description: error instanceof Error ? error.message : t.failedToProcessAudio,
         variant: 'destructive',
       });
       setAvatarState(prev => ({ 
@@ -201,8 +239,8 @@ export function NewAvatarModal({
     } catch (error) {
       console.error('Error processing text message:', error);
       toast({
-        title: 'Processing Error',
-        description: error instanceof Error ? error.message : 'Failed to process message',
+        title: t.processingError,
+        description: error instanceof Error ? error.message : t.failedToProcessMessage,
         variant: 'destructive',
       });
     }
@@ -220,7 +258,9 @@ export function NewAvatarModal({
         await micVAD.startListening();
       }
       
-      await avatarClientRef.current.speakAgentResponse("¡Hola! Soy el Dr. Carlos Mendoza. ¿En qué puedo ayudarte hoy?");
+      if (persona) {
+        await avatarClientRef.current.speakAgentResponse(persona.greeting);
+      }
       
     } catch (error) {
       console.error('Failed to start call:', error);
@@ -293,18 +333,18 @@ export function NewAvatarModal({
               <div className="w-24 h-24 mx-auto mb-4 bg-blue-600 rounded-full flex items-center justify-center">
                 <span className="text-3xl">👨‍⚕️</span>
               </div>
-              <h3 className="text-xl font-medium mb-2">Dr. Carlos Mendoza</h3>
-              <p className="text-sm opacity-80 mb-4">Psicólogo Clínico Especializado</p>
+              <h3 className="text-xl font-medium mb-2">{persona?.name}</h3>
+              <p className="text-sm opacity-80 mb-4">{persona?.specialty}</p>
               {avatarState.phase === 'initializing' && (
                 <div className="flex items-center justify-center">
                   <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mr-2"></div>
-                  <span className="text-sm">Inicializando...</span>
+                  <span className="text-sm">{t.initializing}</span>
                 </div>
               )}
               {avatarState.phase === 'error' && (
                 <div className="text-center">
                   <div className="text-4xl mb-2">⚠️</div>
-                  <p className="text-sm mb-2">Error de conexión</p>
+                  <p className="text-sm mb-2">{t.connectionError}</p>
                   <p className="text-xs opacity-80">{avatarState.error}</p>
                 </div>
               )}
@@ -334,9 +374,9 @@ export function NewAvatarModal({
       <DialogContent className="max-w-6xl h-[90vh] p-0 flex flex-col">
         <DialogHeader className="p-6 pb-0 flex flex-row items-center justify-between">
           <div>
-            <DialogTitle>Dr. Carlos Mendoza - Consulta Virtual</DialogTitle>
+            <DialogTitle>{persona?.name} - {t.consultationTitle}</DialogTitle>
             <DialogDescription>
-              Conversa por voz o texto con tu asistente de IA especializado en psicología
+              {t.consultationDescription}
             </DialogDescription>
           </div>
           <Button variant="ghost" size="icon" onClick={onClose}>
@@ -351,13 +391,13 @@ export function NewAvatarModal({
                 <div className="text-center">
                   <div className="text-4xl mb-4">⚠️</div>
                   <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-                    Error de Conexión
+                    {t.connectionError}
                   </h3>
                   <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                    {avatarState.error || 'No se pudo conectar con el servicio de avatar'}
+                    {avatarState.error || t.avatarUnavailable}
                   </p>
                   <Button onClick={initializeAvatarSession} variant="outline">
-                    Reintentar Conexión
+                    {t.retryConnection}
                   </Button>
                 </div>
               </div>
@@ -368,10 +408,13 @@ export function NewAvatarModal({
 
           <div className="w-96 border-l bg-gray-50 dark:bg-gray-900 flex flex-col">
             <div className="p-4 border-b">
-              <h3 className="font-medium">Conversación</h3>
+              <h3 className="font-medium">{t.conversation}</h3>
               <p className="text-sm text-gray-600 dark:text-gray-400">
-                {isCallActive ? 'Consulta activa' : 'Lista para iniciar'}
+                {isCallActive ? t.callActive : t.readyToStart}
               </p>
+              {takeoverBy && (
+                <p className="text-sm text-blue-700 mt-1">{t.takeoverStarted(takeoverBy)}</p>
+              )}
             </div>
 
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
@@ -380,7 +423,7 @@ export function NewAvatarModal({
                   <div className="w-12 h-12 mx-auto mb-2 bg-blue-100 rounded-full flex items-center justify-center">
                     <span className="text-lg">👋</span>
                   </div>
-                  Inicia la consulta para comenzar a conversar
+                  {t.startToChat}
                 </div>
               )}
 
@@ -412,7 +455,7 @@ export function NewAvatarModal({
                 <Input
                   value={textInput}
                   onChange={(e) => setTextInput(e.target.value)}
-                  placeholder="Escribe tu mensaje..."
+                  placeholder={t.messagePlaceholder}
                   onKeyPress={(e) => {
                     if (e.key === 'Enter' && !e.shiftKey) {
                       e.preventDefault();
@@ -442,7 +485,7 @@ export function NewAvatarModal({
                 className="bg-green-600 hover:bg-green-700"
               >
                 <Phone className="h-4 w-4 mr-2" />
-                Iniciar Consulta
+                {t.startCall}
               </Button>
             ) : (
               <Button
@@ -451,7 +494,7 @@ export function NewAvatarModal({
                 disabled={!isCallActive}
               >
                 <PhoneOff className="h-4 w-4 mr-2" />
-                Finalizar Consulta
+                {t.endCall}
               </Button>
             )}
 
@@ -471,20 +514,38 @@ export function NewAvatarModal({
             >
               <Settings className="h-4 w-4" />
             </Button>
+
+            <Button
+              variant={showTranscript ? "secondary" : "outline"}
+              onClick={() => setShowTranscript(visible => !visible)}
+              size="icon"
+              title={t.showTranscript}
+              aria-label={t.showTranscript}
+            >
+              <ScrollText className="h-4 w-4" />
+            </Button>
           </div>
           
           <div className="text-center mt-4 text-sm text-gray-600 dark:text-gray-400">
-            {avatarState.phase === 'initializing' && "Conectando con Dr. Carlos..."}
-            {avatarState.phase === 'ready' && !isCallActive && "Presiona 'Iniciar Consulta' para comenzar"}
-            {avatarState.phase === 'ready' && isCallActive && "Habla naturalmente, MicVAD detectará tu voz"}
-            {avatarState.phase === 'listening' && "Escuchando... puedes hablar ahora"}
-            {avatarState.phase === 'speaking' && "Dr. Carlos está respondiendo..."}
-            {avatarState.phase === 'error' && "Error de conexión"}
-            {isProcessing && "Procesando mensaje..."}
+            {avatarState.phase === 'initializing' && t.connectingTo(persona?.shortName ?? '')}
+            {avatarState.phase === 'ready' && !isCallActive && t.pressStart}
+            {avatarState.phase === 'ready' && isCallActive && t.speakNaturally}
+            {avatarState.phase === 'listening' && t.listening}
+            {avatarState.phase === 'speaking' && t.isResponding(persona?.shortName ?? '')}
+            {avatarState.phase === 'error' && t.connectionError}
+            {isProcessing && t.processingMessage}
             {micVAD.isListening && isCallActive && " • MicVAD activo"}
             {micVAD.error && ` • Error VAD: ${micVAD.error}`}
           </div>
         </div>
+
+        <ConversationTranscript
+          messages={messages.map(message => ({ ...message, speaker: message.role === 'user' ? 'user' : 'doctor' }))}
+          isVisible={showTranscript}
+          onToggle={() => setShowTranscript(false)}
+          sessionId={sessionId}
+          language={language}
+        />
       </DialogContent>
     </Dialog>
   );
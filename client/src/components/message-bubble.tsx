@@ -60,6 +60,11 @@ export function MessageBubble({ message, onPlayAudio }: MessageBubbleProps) {
           </div>
         )}
 
+        {/* Replies written by a clinician during a takeover */}
+        {message.metadata?.clinician && (
+          <p className="text-xs font-medium text-blue-700 mb-1">{message.metadata.clinician}</p>
+        )}
+
         {/* Message content */}
         <p className={`text-gray-800 ${message.isVoice ? 'text-sm italic' : ''}`}>
           {message.isVoice && isUser ? `"${message.content}"` : message.content}
@@ -0,0 +1,66 @@
+import { useQuery } from '@tanstack/react-query';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { ClinicianStrings } from '@/lib/i18n';
+import type { MoodPoint, MoodTimeline } from '@/types/clinician';
+
+function signed(value: number): string {
+  return value > 0 ? `+${value.toFixed(2)}` : value.toFixed(2);
+}
+
+// Sentiment (-1 to 1) and intensity (0 to 1) of each patient message over the session
+export function MoodTimelineCard({ sessionId, strings }: { sessionId: string; strings: ClinicianStrings }) {
+  const { data } = useQuery<MoodTimeline>({
+    queryKey: [`/api/sessions/${sessionId}/timeline`],
+    staleTime: 0,
+  });
+
+  const config: ChartConfig = {
+    sentiment: { label: strings.sentiment, color: 'hsl(221 83% 53%)' },
+    intensity: { label: strings.intensity, color: 'hsl(25 95% 53%)' },
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3"><CardTitle className="text-lg">{strings.moodTimeline}</CardTitle></CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {!data || data.points.length === 0 ? (
+          <p className="text-sm text-gray-400">{strings.noMoodData}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-600">
+              {data.averageSentiment !== null && (
+                <span>{strings.averageSentiment}: <span className="font-medium">{signed(data.averageSentiment)}</span></span>
+              )}
+              {data.trend !== null && (
+                <span>{strings.moodTrend}: <span className="font-medium">{signed(data.trend)}</span></span>
+              )}
+              <span>{strings.dominantEmotion}: <span className="font-medium">{strings.emotions[data.dominantEmotion]}</span></span>
+            </div>
+            <ChartContainer config={config} className="aspect-auto h-56 w-full">
+              <LineChart data={data.points} margin={{ left: -20, right: 8, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="turn" tickLine={false} axisLine={false} />
+                <YAxis domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} tickLine={false} axisLine={false} />
+                <ReferenceLine y={0} stroke="#ccc" />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => {
+                        const point = payload?.[0]?.payload as MoodPoint | undefined;
+                        return point ? `${strings.turn} ${point.turn} · ${strings.emotions[point.emotion]}` : '';
+                      }}
+                    />
+                  }
+                />
+                <Line dataKey="sentiment" type="monotone" stroke="var(--color-sentiment)" strokeWidth={2} dot />
+                <Line dataKey="intensity" type="monotone" stroke="var(--color-intensity)" strokeDasharray="4 4" dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
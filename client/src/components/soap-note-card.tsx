@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Download, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { ClinicianStrings } from '@/lib/i18n';
+import type { SoapNote } from '@/types/clinician';
+
+const SECTIONS = ['subjective', 'objective', 'assessment', 'plan'] as const;
+type Sections = Record<typeof SECTIONS[number], string>;
+
+const EMPTY: Sections = { subjective: '', objective: '', assessment: '', plan: '' };
+
+const EXPORTS = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'pdf', label: 'PDF' },
+  { format: 'json', label: 'JSON' },
+];
+
+// SOAP note of the session: the clinician picks a version, edits it and saves the result as a
+// new version, or asks the agent for a fresh draft
+export function SoapNoteCard({ sessionId, strings }: { sessionId: string; strings: ClinicianStrings }) {
+  const { toast } = useToast();
+  const notesKey = [`/api/sessions/${sessionId}/soap-notes`];
+  const { data: notes = [] } = useQuery<SoapNote[]>({ queryKey: notesKey, staleTime: 0 });
+
+  const [version, setVersion] = useState<number | null>(null);
+  const [fields, setFields] = useState<Sections>(EMPTY);
+  const [author, setAuthor] = useState('');
+
+  const selected = notes.find(note => note.version === version) ?? notes[0];
+
+  // Editing starts from the selected version
+  useEffect(() => {
+    setFields(selected ? {
+      subjective: selected.subjective,
+      objective: selected.objective,
+      assessment: selected.assessment,
+      plan: selected.plan,
+    } : EMPTY);
+  }, [selected?.id]);
+
+  const onSaved = async (response: Response) => {
+    const note: SoapNote = await response.json();
+    await queryClient.invalidateQueries({ queryKey: notesKey });
+    setVersion(note.version);
+  };
+  const onError = (error: Error) => toast({ title: strings.loadError, description: error.message, variant: 'destructive' });
+
+  const draft = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/sessions/${sessionId}/soap-notes/draft`),
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const save = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/sessions/${sessionId}/soap-notes`, {
+      ...fields,
+      author: author.trim() || undefined,
+    }),
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const changed = SECTIONS.some(section => fields[section] !== (selected?.[section] ?? ''));
+  const origin = (note: SoapNote) => note.source === 'generated' ? strings.soapGenerated : strings.soapEditedBy(note.author);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">{strings.soapNote}</CardTitle>
+        <Button size="sm" variant="outline" onClick={() => draft.mutate()} disabled={draft.isPending}>
+          <Sparkles className="w-4 h-4 mr-1" />{strings.generateSoap}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {selected ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={String(selected.version)} onValueChange={(value) => setVersion(Number(value))}>
+              <SelectTrigger className="w-auto min-w-[14rem]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {notes.map(note => (
+                  <SelectItem key={note.id} value={String(note.version)}>
+                    {strings.soapVersion(note.version, origin(note))} · {new Date(note.createdAt).toLocaleString()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {EXPORTS.map(({ format, label }) => (
+              <Button key={format} size="sm" variant="ghost" asChild>
+                <a href={`/api/sessions/${sessionId}/soap-notes/export?format=${format}&version=${selected.version}`} download>
+                  <Download className="w-4 h-4 mr-1" />{label}
+                </a>
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">{strings.noSoapNote}</p>
+        )}
+
+        {SECTIONS.map(section => (
+          <div key={section} className="space-y-1">
+            <Label>{strings.soapSections[section]}</Label>
+            <Textarea
+              value={fields[section]}
+              onChange={(event) => setFields(current => ({ ...current, [section]: event.target.value }))}
+              rows={4}
+            />
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Input value={author} onChange={(event) => setAuthor(event.target.value)} placeholder={strings.authorPlaceholder} />
+          <Button onClick={() => save.mutate()} disabled={!changed || save.isPending}>
+            {strings.saveVersion}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
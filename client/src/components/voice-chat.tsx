@@ -14,15 +14,19 @@ import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
 import { useAudioProcessor } from '@/hooks/use-audio-processor';
+import { useLiveSession } from '@/hooks/use-live-session';
 import { useMicVAD } from '@/hooks/use-mic-vad';
 import { apiRequest } from '@/lib/queryClient';
+import { getOrCreatePatientKey } from '@/lib/patient-identity';
+import { usePersona } from '@/hooks/use-persona';
+import { getPreferredLanguage, getUiStrings, isUiLanguage, savePreferredLanguage, UI_LANGUAGES } from '@/lib/i18n';
 import { ChatMessage, VoiceSettings } from '@/types/voice';
 import { Phone, MoreVertical, AlertTriangle, Bot } from 'lucide-react';
 import { StreamingAvatarClient } from "@/lib/streaming-avatar-client";
 
 export function VoiceChat() {
   const { toast } = useToast();
-  const [sessionId] = useState(() => `session_${Date.now()}`);
+  const [sessionId, setSessionId] = useState(() => `session_${Date.now()}`);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showRecorder, setShowRecorder] = useState(false);
@@ -32,20 +36,31 @@ export function VoiceChat() {
   const [isAvatarModalOpen, setIsAvatarModalOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  const [settings, setSettings] = useState<VoiceSettings>({
+  const [settings, setSettings] = useState<VoiceSettings>(() => ({
     vadSensitivity: 70,
-    language: 'es',
+    language: getPreferredLanguage(),
+    autoDetectSpeech: false,
     autoSend: true,
-  });
+  }));
+  const t = getUiStrings(settings.language);
+  const speechLanguage = settings.autoDetectSpeech ? 'auto' : settings.language;
 
-  // Initialize conversation
+  // Initialize conversation, linked to the returning patient if this browser has seen them before.
+  // The server picks the persona (avatar and voice) for the consultation language.
   const { data: conversation } = useQuery({
-    queryKey: ['/api/conversations'],
+    queryKey: ['/api/conversations', sessionId],
     queryFn: async () => {
-      const response = await apiRequest('POST', '/api/conversations', { sessionId });
+      const patientKey = await getOrCreatePatientKey();
+      const response = await apiRequest('POST', '/api/conversations', {
+        sessionId,
+        patientKey,
+        language: settings.language,
+        languagePinned: !settings.autoDetectSpeech,
+      });
       return response.json();
     },
   });
+  const { data: persona } = usePersona(conversation?.personaId);
 
   // MicVAD system for voice chat
   const micVAD = useMicVAD({
@@ -55,8 +70,8 @@ export function VoiceChat() {
       } catch (error) {
         console.error('Error processing audio from MicVAD:', error);
         toast({
-          title: 'Processing Error',
-          description: error instanceof Error ? error.message : 'Failed to process audio',
+          title: t.processingError,
+          description: error instanceof Error ? error.message : t.failedToProcessAudio,
           variant: 'destructive',
         });
       }
@@ -67,7 +82,7 @@ export function VoiceChat() {
   // Audio processor hook
   const audioProcessor = useAudioProcessor({
     sessionId,
-    language: settings.language,
+    language: speechLanguage,
     onUserMessage: (message) => {
       const userMessage: ChatMessage = {
         id: `msg_${Date.now()}`,
@@ -89,6 +104,22 @@ export function VoiceChat() {
     },
   });
 
+  // A clinician may take over the consultation from the dashboard; their replies arrive here
+  const { takeoverBy } = useLiveSession(conversation?.sessionId, {
+    onClinicianMessage: ({ clinician, messageId, text, at }) => {
+      setMessages(prev => [...prev, {
+        id: `clinician_${messageId}`,
+        role: 'assistant',
+        content: text,
+        timestamp: new Date(at),
+        metadata: { clinician },
+      }]);
+    },
+    onTakeoverChange: (clinician) => {
+      toast({ title: clinician ? t.takeoverStarted(clinician) : t.takeoverEnded });
+    },
+  });
+
   const processAudioRecording = async (audioBlob: Blob) => {
     try {
       setIsProcessing(true);
@@ -101,14 +132,14 @@ export function VoiceChat() {
       
       if (error instanceof Error && error.message === 'No speech detected') {
         toast({
-          title: 'No Speech Detected',
-          description: 'Please try speaking more clearly.',
+          title: t.noSpeechDetected,
+          description: t.noSpeechHint,
           variant: 'destructive',
         });
       } else {
         toast({
-          title: 'Processing Error',
-          description: error instanceof Error ? error.message : 'Failed to process audio',
+          title: t.processingError,
+          description: error instanceof Error ? error.message : t.failedToProcessAudio,
           variant: 'destructive',
         });
       }
@@ -128,8 +159,8 @@ export function VoiceChat() {
     } catch (error) {
       console.error('Error processing text:', error);
       toast({
-        title: 'Processing Error',
-        description: error instanceof Error ? error.message : 'Failed to process message',
+        title: t.processingError,
+        description: error instanceof Error ? error.message : t.failedToProcessMessage,
         variant: 'destructive',
       });
     } finally {
@@ -146,10 +177,10 @@ export function VoiceChat() {
   ));
 
   useEffect(() => {
-    if (videoRef.current) {
-      avatarClient.initialize(videoRef.current);
+    if (videoRef.current && persona) {
+      avatarClient.initialize(videoRef.current, persona);
     }
-  }, [avatarClient]);
+  }, [avatarClient, persona]);
 
   const handleAvatarMessage = async (userMessage: string, aiResponse: string) => {
     // Add user message from avatar conversation
@@ -176,6 +207,26 @@ export function VoiceChat() {
     setMessages(prev => [...prev, userChatMessage, assistantChatMessage]);
   };
 
+  // The conversation language is fixed at creation, so switching it starts a new consultation
+  const handleLanguageChange = (value: string) => {
+    if (!isUiLanguage(value) || value === settings.language) return;
+
+    savePreferredLanguage(value);
+    setSettings(prev => ({ ...prev, language: value }));
+    setMessages([]);
+    setSessionId(`session_${Date.now()}`);
+  };
+
+  // With auto-detection on, the agent answers in whichever language the patient speaks
+  const handleAutoDetectChange = async (checked: boolean) => {
+    setSettings(prev => ({ ...prev, autoDetectSpeech: checked }));
+    try {
+      await apiRequest('POST', `/api/sessions/${sessionId}/language`, { pinned: !checked });
+    } catch (error) {
+      console.error('Failed to update session language:', error);
+    }
+  };
+
   const handleStartRecording = () => {
     // Manual recording is now handled by unified VAD
     console.log('Manual recording trigger - handled by unified VAD');
@@ -220,10 +271,10 @@ export function VoiceChat() {
           </div>
 
           <div className="flex-1">
-            <h1 className="font-semibold text-lg">AI Voice Assistant</h1>
+            <h1 className="font-semibold text-lg">{t.appTitle}</h1>
             <p className="text-xs text-green-100 flex items-center space-x-1">
               <span className="inline-block w-2 h-2 bg-green-300 rounded-full"></span>
-              <span>Online • Voice-enabled</span>
+              <span>{t.onlineStatus}</span>
             </p>
           </div>
 
@@ -252,11 +303,17 @@ export function VoiceChat() {
         <div className="bg-yellow-50 border-b border-yellow-200 px-4 py-2 text-sm text-yellow-800">
           <div className="flex items-center justify-center space-x-2">
             <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse" />
-            <span>Voice Activity Detection Active</span>
+            <span>{t.vadActive}</span>
           </div>
         </div>
       )}
 
+      {takeoverBy && (
+        <div className="bg-blue-50 border-b border-blue-200 px-4 py-2 text-sm text-blue-800 text-center">
+          {t.takeoverStarted(takeoverBy)}
+        </div>
+      )}
+
       {/* Chat Messages */}
       <main className="flex-1 overflow-y-auto px-4 py-4 relative">
         {/* Welcome Message */}
@@ -264,7 +321,7 @@ export function VoiceChat() {
           <div className="flex justify-center mb-6">
             <div className="bg-yellow-100 text-yellow-800 px-4 py-2 rounded-lg text-sm max-w-xs text-center border border-yellow-200">
               <Bot className="w-4 h-4 inline mr-2" />
-              AI Voice Assistant is ready. Press and hold the microphone to start talking.
+              {t.welcome}
             </div>
           </div>
         )}
@@ -322,7 +379,7 @@ export function VoiceChat() {
             <DialogHeader>
               <DialogTitle className="flex items-center space-x-2">
                 <AlertTriangle className="w-5 h-5 text-red-500" />
-                <span>Audio Error</span>
+                <span>{t.audioError}</span>
               </DialogTitle>
             </DialogHeader>
             <p className="text-sm text-gray-600 mb-4">{error}</p>
@@ -332,7 +389,7 @@ export function VoiceChat() {
                 onClick={() => setError(null)}
                 className="flex-1"
               >
-                Cancel
+                {t.cancel}
               </Button>
               <Button
                 onClick={() => {
@@ -341,7 +398,7 @@ export function VoiceChat() {
                 }}
                 className="flex-1 bg-red-500 hover:bg-red-600"
               >
-                Retry
+                {t.retry}
               </Button>
             </div>
           </DialogContent>
@@ -352,14 +409,14 @@ export function VoiceChat() {
       <Dialog open={showSettings} onOpenChange={setShowSettings}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Voice Settings</DialogTitle>
+            <DialogTitle>{t.settingsTitle}</DialogTitle>
           </DialogHeader>
 
           <div className="space-y-6">
             {/* VAD Sensitivity */}
             <div>
               <Label className="text-sm font-medium">
-                Voice Detection Sensitivity
+                {t.vadSensitivity}
               </Label>
               <div className="mt-2">
                 <Slider
@@ -373,38 +430,48 @@ export function VoiceChat() {
                   className="w-full"
                 />
                 <div className="flex justify-between text-xs text-gray-500 mt-1">
-                  <span>Low</span>
-                  <span>High</span>
+                  <span>{t.low}</span>
+                  <span>{t.high}</span>
                 </div>
               </div>
             </div>
 
             {/* Language Selection */}
             <div>
-              <Label className="text-sm font-medium">Speech Language</Label>
+              <Label className="text-sm font-medium">{t.consultationLanguage}</Label>
               <Select
                 value={settings.language}
-                onValueChange={(value) => 
-                  setSettings(prev => ({ ...prev, language: value }))
-                }
+                onValueChange={handleLanguageChange}
               >
                 <SelectTrigger className="mt-2">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="en">English</SelectItem>
-                  <SelectItem value="es">Spanish</SelectItem>
-                  <SelectItem value="fr">French</SelectItem>
-                  <SelectItem value="de">German</SelectItem>
+                  {UI_LANGUAGES.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <p className="text-xs text-gray-500 mt-1">{t.consultationLanguageHint}</p>
+            </div>
+
+            {/* Spoken language auto-detection */}
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-sm font-medium">{t.autoDetectSpeech}</Label>
+                <p className="text-xs text-gray-500">{t.autoDetectSpeechHint}</p>
+              </div>
+              <Switch
+                checked={settings.autoDetectSpeech}
+                onCheckedChange={handleAutoDetectChange}
+              />
             </div>
 
             {/* Auto-send Toggle */}
             <div className="flex items-center justify-between">
               <div>
-                <Label className="text-sm font-medium">Auto-send on silence</Label>
-                <p className="text-xs text-gray-500">Automatically send when you stop talking</p>
+                <Label className="text-sm font-medium">{t.autoSend}</Label>
+                <p className="text-xs text-gray-500">{t.autoSendHint}</p>
               </div>
               <Switch
                 checked={settings.autoSend}
@@ -418,20 +485,24 @@ export function VoiceChat() {
           <div className="flex space-x-3 mt-6">
             <Button
               variant="outline"
-              onClick={() => setSettings({
-                vadSensitivity: 70,
-                language: 'en',
-                autoSend: true,
-              })}
+              onClick={() => {
+                setSettings(prev => ({
+                  vadSensitivity: 70,
+                  language: prev.language,
+                  autoDetectSpeech: false,
+                  autoSend: true,
+                }));
+                if (settings.autoDetectSpeech) handleAutoDetectChange(false);
+              }}
               className="flex-1"
             >
-              Reset
+              {t.reset}
             </Button>
             <Button
               onClick={() => setShowSettings(false)}
               className="flex-1 bg-[hsl(135,60%,50%)] hover:bg-[hsl(135,60%,40%)]"
             >
-              Save
+              {t.save}
             </Button>
           </div>
         </DialogContent>
@@ -442,6 +513,9 @@ export function VoiceChat() {
         isOpen={isAvatarModalOpen}
         onClose={() => setIsAvatarModalOpen(false)}
         sessionId={conversation?.sessionId || ''}
+        persona={persona}
+        language={settings.language}
+        speechLanguage={speechLanguage}
         onMessageReceived={handleAvatarMessage}
       />
     </div>
@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Mic, Send, Settings, MicOff } from 'lucide-react';
 import { VoiceSettings } from '@/types/voice';
+import { getUiStrings } from '@/lib/i18n';
 
 interface VoiceControlsProps {
   isRecording: boolean;
@@ -25,8 +26,10 @@ export function VoiceControls({
   onStopRecording,
   onSendText,
   onOpenSettings,
+  settings,
 }: VoiceControlsProps) {
   const [textInput, setTextInput] = useState('');
+  const t = getUiStrings(settings.language);
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && textInput.trim()) {
@@ -58,14 +61,14 @@ export function VoiceControls({
               <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
               <span>
                 {isRecording 
-                  ? `Recording: ${formatDuration(recordingDuration)}`
-                  : 'Processing...'
+                  ? `${t.recording}: ${formatDuration(recordingDuration)}`
+                  : t.processing
                 }
               </span>
             </div>
             {isProcessing && (
               <div className="flex items-center space-x-2 text-blue-600">
-                <span>Processing...</span>
+                <span>{t.processing}</span>
                 <div className="animate-spin w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full" />
               </div>
             )}
@@ -79,7 +82,7 @@ export function VoiceControls({
         <div className="flex-1 relative">
           <Input
             type="text"
-            placeholder="Type a message or hold mic to speak..."
+            placeholder={t.inputPlaceholder}
             value={textInput}
             onChange={(e) => setTextInput(e.target.value)}
             onKeyPress={handleKeyPress}
@@ -110,7 +113,7 @@ export function VoiceControls({
               ? 'bg-red-500 hover:bg-red-600'
               : 'bg-[hsl(135,60%,50%)] hover:bg-[hsl(135,60%,40%)]'
           }`}
-          title="Hold to record voice message"
+          title={t.holdToRecord}
         >
           {isRecording ? (
             <MicOff className="w-5 h-5 text-white" />
@@ -126,7 +129,7 @@ export function VoiceControls({
           onClick={onOpenSettings}
           disabled={isRecording || isProcessing}
           className="w-12 h-12 rounded-full bg-gray-100 hover:bg-gray-200"
-          title="Voice Settings"
+          title={t.settingsTitle}
         >
           <Settings className="w-5 h-5 text-gray-600" />
         </Button>
@@ -136,7 +139,7 @@ export function VoiceControls({
       {vadDetected && !isRecording && (
         <div className="flex items-center justify-center mt-2 space-x-2 text-xs text-gray-500">
           <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-          <span>Voice activity detected</span>
+          <span>{t.voiceActivity}</span>
         </div>
       )}
     </footer>
@@ -1,6 +1,8 @@
 
+import { useRef } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import { AudioUtils } from '@/lib/audio-utils';
+import { streamAgentReply, throwIfTurnCancelled, TurnCancelledError } from '@/lib/agent-stream';
 import { TranscriptionResult, LLMResponse } from '@/types/voice';
 
 interface UseAudioProcessorOptions {
@@ -8,14 +10,21 @@ interface UseAudioProcessorOptions {
   language?: string;
   onUserMessage?: (message: string) => void;
   onAIResponse?: (response: string) => void;
+  // When provided, replies are streamed from /api/agent/stream and each sentence is
+  // delivered as soon as it is generated (onAIResponse still receives the full reply)
+  onAISentence?: (sentence: string, index: number) => void;
 }
 
 export function useAudioProcessor(options: UseAudioProcessorOptions) {
-  const { sessionId, language = 'es', onUserMessage, onAIResponse } = options;
+  const { sessionId, language = 'es', onUserMessage, onAIResponse, onAISentence } = options;
+
+  // Id shared by the transcription and LLM calls of the utterance being processed,
+  // so POST /api/interrupt can cancel it on the server
+  const currentTurnRef = useRef<string | null>(null);
 
   // Transcription mutation
   const transcribeMutation = useMutation({
-    mutationFn: async (audioBlob: Blob): Promise<TranscriptionResult> => {
+    mutationFn: async ({ audioBlob, turnId }: { audioBlob: Blob; turnId?: string }): Promise<TranscriptionResult> => {
       // Validate audio blob before processing
       if (!audioBlob || audioBlob.size === 0) {
         throw new Error('No audio data to transcribe');
@@ -41,6 +50,10 @@ export function useAudioProcessor(options: UseAudioProcessorOptions) {
         const formData = new FormData();
         formData.append('audio', wavBlob, 'recording.wav');
         formData.append('language', language);
+        formData.append('sessionId', sessionId);
+        if (turnId) {
+          formData.append('turnId', turnId);
+        }
 
         console.log('📤 Sending audio to transcription API:', {
           wavSize: wavBlob.size,
@@ -52,6 +65,8 @@ export function useAudioProcessor(options: UseAudioProcessorOptions) {
           body: formData,
         });
 
+        await throwIfTurnCancelled(response);
+
         if (!response.ok) {
           const error = await response.json();
           throw new Error(error.message || 'Transcription failed');
@@ -84,27 +99,42 @@ export function useAudioProcessor(options: UseAudioProcessorOptions) {
       isVoice, 
       audioData,
       isAvatarCall = false,
-      avatarSessionId = null 
+      avatarSessionId = null,
+      turnId,
+      detectedLanguage
     }: { 
       inputText: string; 
       isVoice: boolean; 
       audioData?: string;
       isAvatarCall?: boolean;
       avatarSessionId?: string | null;
+      turnId?: string;
+      // Language reported by STT; typed messages are detected on the server
+      detectedLanguage?: string | null;
     }): Promise<LLMResponse> => {
+      const body = {
+        inputText,
+        sessionId,
+        turnId,
+        detectedLanguage,
+        isVoice,
+        audioData,
+        isAvatarCall,
+        avatarSessionId,
+      };
+
+      if (onAISentence) {
+        return streamAgentReply(body, { onSentence: onAISentence });
+      }
+
       const response = await fetch('/api/agent', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          inputText,
-          sessionId,
-          isVoice,
-          audioData,
-          isAvatarCall,
-          avatarSessionId,
-        }),
+        body: JSON.stringify(body),
       });
 
+      await throwIfTurnCancelled(response);
+
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.message || 'LLM processing failed');
@@ -114,70 +144,133 @@ export function useAudioProcessor(options: UseAudioProcessorOptions) {
     },
   });
 
+  const beginTurn = () => {
+    const turnId = `turn_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    currentTurnRef.current = turnId;
+    return turnId;
+  };
+
+  const endTurn = (turnId: string) => {
+    if (currentTurnRef.current === turnId) {
+      currentTurnRef.current = null;
+    }
+  };
+
+  // Resolves to null when the turn was cancelled through interrupt()
   const processAudioMessage = async (
     audioBlob: Blob, 
     isAvatarCall = false, 
     avatarSessionId: string | null = null
   ) => {
-    // Transcribe audio
-    const transcriptionResult = await transcribeMutation.mutateAsync(audioBlob);
+    const turnId = beginTurn();
 
-    if (!transcriptionResult.transcription?.trim()) {
-      throw new Error('No speech detected');
-    }
+    try {
+      // Transcribe audio
+      const transcriptionResult = await transcribeMutation.mutateAsync({ audioBlob, turnId });
 
-    const userMessage = transcriptionResult.transcription;
-    onUserMessage?.(userMessage);
+      if (!transcriptionResult.transcription?.trim()) {
+        throw new Error('No speech detected');
+      }
 
-    // Convert audio to base64 for storage
-    const audioData = await new Promise<string>((resolve) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve(reader.result as string);
-      reader.readAsDataURL(audioBlob);
-    });
+      const userMessage = transcriptionResult.transcription;
+      onUserMessage?.(userMessage);
 
-    // Process with LLM
-    const llmResponse = await processLLMMutation.mutateAsync({
-      inputText: userMessage,
-      isVoice: true,
-      audioData,
-      isAvatarCall,
-      avatarSessionId,
-    });
+      // Convert audio to base64 for storage
+      const audioData = await new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.readAsDataURL(audioBlob);
+      });
+
+      // Process with LLM
+      const llmResponse = await processLLMMutation.mutateAsync({
+        inputText: userMessage,
+        isVoice: true,
+        audioData,
+        isAvatarCall,
+        avatarSessionId,
+        turnId,
+        detectedLanguage: transcriptionResult.language,
+      });
 
-    const aiResponse = llmResponse.replyText;
-    onAIResponse?.(aiResponse);
+      const aiResponse = llmResponse.replyText;
+      // During a takeover the clinician answers over the live feed instead, unless the crisis
+      // protocol replied
+      if (!llmResponse.takeover || aiResponse) onAIResponse?.(aiResponse);
 
-    return { userMessage, aiResponse, transcriptionResult, llmResponse };
+      return { userMessage, aiResponse, transcriptionResult, llmResponse };
+    } catch (error) {
+      if (error instanceof TurnCancelledError) {
+        console.log('⏹️ Turn cancelled:', error.turnId ?? turnId);
+        return null;
+      }
+      throw error;
+    } finally {
+      endTurn(turnId);
+    }
   };
 
+  // Resolves to null when the turn was cancelled through interrupt()
   const processTextMessage = async (
     text: string, 
     isAvatarCall = false, 
     avatarSessionId: string | null = null
   ) => {
     console.log('📝 Processing text message:', text);
+    const turnId = beginTurn();
     const userMessage = text;
     onUserMessage?.(userMessage);
 
-    // Process with LLM
-    const llmResponse = await processLLMMutation.mutateAsync({
-      inputText: userMessage,
-      isVoice: false,
-      isAvatarCall,
-      avatarSessionId,
+    try {
+      // Process with LLM
+      const llmResponse = await processLLMMutation.mutateAsync({
+        inputText: userMessage,
+        isVoice: false,
+        isAvatarCall,
+        avatarSessionId,
+        turnId,
+      });
+
+      const aiResponse = llmResponse.replyText;
+      if (!llmResponse.takeover || aiResponse) onAIResponse?.(aiResponse);
+
+      console.log('✅ Text message processed successfully');
+      return { userMessage, aiResponse, llmResponse };
+    } catch (error) {
+      if (error instanceof TurnCancelledError) {
+        console.log('⏹️ Turn cancelled:', error.turnId ?? turnId);
+        return null;
+      }
+      throw error;
+    } finally {
+      endTurn(turnId);
+    }
+  };
+
+  // Ask the server to abort the in-flight turn; the pending call then resolves to null
+  const interrupt = async (): Promise<{ turnId: string; stage: string }[]> => {
+    const turnId = currentTurnRef.current;
+    if (!turnId) return [];
+
+    const response = await fetch('/api/interrupt', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, turnId }),
     });
 
-    const aiResponse = llmResponse.replyText;
-    onAIResponse?.(aiResponse);
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to interrupt');
+    }
 
-    console.log('✅ Text message processed successfully');
-    return { userMessage, aiResponse, llmResponse };
+    const result = await response.json();
+    return result.cancelled || [];
   };
 
   return {
     processAudioMessage,
     processTextMessage,
+    interrupt,
     transcribeMutation,
     processLLMMutation,
     isTranscribing: transcribeMutation.isPending,
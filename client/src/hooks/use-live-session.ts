@@ -0,0 +1,53 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Live feed of a session (GET /api/sessions/:sessionId/live): whether a clinician has taken it
+// over and the messages exchanged meanwhile. Mirrors LiveSessionEvent in server/takeover.ts.
+export interface ClinicianMessageEvent {
+  clinician: string;
+  messageId: number;
+  text: string;
+  at: string;
+}
+
+export interface PatientMessageEvent {
+  messageId: number;
+  text: string;
+  at: string;
+}
+
+interface UseLiveSessionOptions {
+  enabled?: boolean;
+  onClinicianMessage?: (event: ClinicianMessageEvent) => void;
+  onPatientMessage?: (event: PatientMessageEvent) => void;
+  onTakeoverChange?: (clinician: string | null) => void;
+}
+
+export function useLiveSession(sessionId: string | undefined, options: UseLiveSessionOptions = {}) {
+  const { enabled = true } = options;
+  const [takeoverBy, setTakeoverBy] = useState<string | null>(null);
+
+  // Handlers change on every render; the EventSource is only reopened when the session does
+  const handlersRef = useRef(options);
+  handlersRef.current = options;
+
+  useEffect(() => {
+    if (!sessionId || !enabled) return;
+
+    const source = new EventSource(`/api/sessions/${encodeURIComponent(sessionId)}/live`);
+    const parse = (event: Event) => JSON.parse((event as MessageEvent).data);
+    const changeTakeover = (clinician: string | null) => {
+      setTakeoverBy(clinician);
+      handlersRef.current.onTakeoverChange?.(clinician);
+    };
+
+    source.addEventListener('state', (event) => setTakeoverBy(parse(event).takeoverBy ?? null));
+    source.addEventListener('takeover_started', (event) => changeTakeover(parse(event).clinician));
+    source.addEventListener('takeover_ended', () => changeTakeover(null));
+    source.addEventListener('clinician_message', (event) => handlersRef.current.onClinicianMessage?.(parse(event)));
+    source.addEventListener('patient_message', (event) => handlersRef.current.onPatientMessage?.(parse(event)));
+
+    return () => source.close();
+  }, [sessionId, enabled]);
+
+  return { takeoverBy };
+}
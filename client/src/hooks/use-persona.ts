@@ -0,0 +1,10 @@
+import { useQuery } from '@tanstack/react-query';
+import { TherapistPersona } from '@/types/avatar';
+
+// Persona stored on the conversation; the avatar, greeting and names all come from it
+export function usePersona(personaId?: string | null) {
+  return useQuery<TherapistPersona>({
+    queryKey: [`/api/personas/${personaId}`],
+    enabled: Boolean(personaId),
+  });
+}
@@ -0,0 +1,107 @@
+import { LLMResponse } from '@/types/voice';
+
+// Raised when the server reports that POST /api/interrupt cancelled the turn
+export class TurnCancelledError extends Error {
+  constructor(public turnId?: string) {
+    super('Turn cancelled');
+    this.name = 'TurnCancelledError';
+  }
+}
+
+// Agent and transcription endpoints answer 409 { cancelled: true, turnId } for interrupted turns
+export async function throwIfTurnCancelled(response: Response): Promise<void> {
+  if (response.status !== 409) return;
+
+  const body = await response.clone().json().catch(() => ({}));
+  if (body.cancelled) {
+    throw new TurnCancelledError(body.turnId);
+  }
+}
+
+export interface AgentStreamHandlers {
+  onDelta?: (text: string) => void;
+  onSentence?: (sentence: string, index: number) => void;
+}
+
+// POSTs to /api/agent/stream and parses the Server-Sent Events response.
+// EventSource only supports GET, so the stream is read manually from fetch.
+export async function streamAgentReply(
+  body: Record<string, unknown>,
+  handlers: AgentStreamHandlers,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  const response = await fetch('/api/agent/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  await throwIfTurnCancelled(response);
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'LLM processing failed');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result = null as LLMResponse | null;
+
+  const handleEvent = (rawEvent: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of rawEvent.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trim());
+      }
+    }
+
+    if (dataLines.length === 0) return;
+    const data = JSON.parse(dataLines.join('\n'));
+
+    switch (event) {
+      case 'delta':
+        handlers.onDelta?.(data.text);
+        break;
+      case 'sentence':
+        handlers.onSentence?.(data.text, data.index);
+        break;
+      case 'done':
+        result = data;
+        break;
+      case 'cancelled':
+        throw new TurnCancelledError(data.turnId);
+      case 'error':
+        throw new Error(data.message || 'LLM processing failed');
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let separator = buffer.indexOf('\n\n');
+    while (separator !== -1) {
+      handleEvent(buffer.slice(0, separator));
+      buffer = buffer.slice(separator + 2);
+      separator = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) {
+    handleEvent(buffer);
+  }
+
+  if (!result) {
+    throw new Error('Agent stream ended without a reply');
+  }
+
+  return result;
+}
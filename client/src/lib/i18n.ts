@@ -0,0 +1,294 @@
+// UI strings for the consultation languages served by the backend (see server/languages.ts)
+
+export type UiLanguage = 'es' | 'en';
+
+export const UI_LANGUAGES: { value: UiLanguage; label: string }[] = [
+  { value: 'es', label: 'Español' },
+  { value: 'en', label: 'English' },
+];
+
+const LANGUAGE_STORAGE_KEY = 'consultationLanguage';
+
+const ES_STRINGS = {
+  appTitle: 'Asistente de voz IA',
+  onlineStatus: 'En línea • Voz activada',
+  vadActive: 'Detección de voz activa',
+  welcome: 'El asistente de voz está listo. Mantén presionado el micrófono para empezar a hablar.',
+  processingError: 'Error de procesamiento',
+  failedToProcessAudio: 'No se pudo procesar el audio',
+  failedToProcessMessage: 'No se pudo procesar el mensaje',
+  noSpeechDetected: 'No se detectó voz',
+  noSpeechHint: 'Intenta hablar con más claridad.',
+  audioError: 'Error de audio',
+  cancel: 'Cancelar',
+  retry: 'Reintentar',
+  settingsTitle: 'Ajustes de voz',
+  vadSensitivity: 'Sensibilidad de detección de voz',
+  low: 'Baja',
+  high: 'Alta',
+  consultationLanguage: 'Idioma de la consulta',
+  consultationLanguageHint: 'Cambiarlo inicia una nueva consulta.',
+  autoDetectSpeech: 'Detectar el idioma hablado',
+  autoDetectSpeechHint: 'Responde en el idioma en que hables en cada mensaje',
+  autoSend: 'Enviar al hacer silencio',
+  autoSendHint: 'Envía automáticamente cuando dejas de hablar',
+  reset: 'Restablecer',
+  save: 'Guardar',
+  recording: 'Grabando',
+  processing: 'Procesando...',
+  inputPlaceholder: 'Escribe un mensaje o mantén el micrófono para hablar...',
+  holdToRecord: 'Mantén presionado para grabar un mensaje de voz',
+  voiceActivity: 'Actividad de voz detectada',
+  consultationTitle: 'Consulta Virtual',
+  consultationDescription: 'Conversa por voz o texto con tu asistente de IA especializado en psicología',
+  connectionError: 'Error de conexión',
+  avatarUnavailable: 'No se pudo conectar con el servicio de avatar',
+  retryConnection: 'Reintentar Conexión',
+  conversation: 'Conversación',
+  callActive: 'Consulta activa',
+  readyToStart: 'Lista para iniciar',
+  startToChat: 'Inicia la consulta para comenzar a conversar',
+  messagePlaceholder: 'Escribe tu mensaje...',
+  startCall: 'Iniciar Consulta',
+  endCall: 'Finalizar Consulta',
+  initializing: 'Inicializando...',
+  connectingTo: (name: string) => `Conectando con ${name}...`,
+  pressStart: "Presiona 'Iniciar Consulta' para comenzar",
+  speakNaturally: 'Habla naturalmente, MicVAD detectará tu voz',
+  listening: 'Escuchando... puedes hablar ahora',
+  isResponding: (name: string) => `${name} está respondiendo...`,
+  processingMessage: 'Procesando mensaje...',
+  takeoverStarted: (name: string) => `${name} se ha unido a la consulta y te responderá personalmente`,
+  takeoverEnded: 'La consulta vuelve a estar atendida por el asistente',
+  showTranscript: 'Ver transcripción',
+  exportTranscript: 'Exportar',
+};
+
+export type UiStrings = typeof ES_STRINGS;
+
+const UI_STRINGS: Record<UiLanguage, UiStrings> = {
+  es: ES_STRINGS,
+  en: {
+    appTitle: 'AI Voice Assistant',
+    onlineStatus: 'Online • Voice-enabled',
+    vadActive: 'Voice Activity Detection Active',
+    welcome: 'AI Voice Assistant is ready. Press and hold the microphone to start talking.',
+    processingError: 'Processing Error',
+    failedToProcessAudio: 'Failed to process audio',
+    failedToProcessMessage: 'Failed to process message',
+    noSpeechDetected: 'No Speech Detected',
+    noSpeechHint: 'Please try speaking more clearly.',
+    audioError: 'Audio Error',
+    cancel: 'Cancel',
+    retry: 'Retry',
+    settingsTitle: 'Voice Settings',
+    vadSensitivity: 'Voice Detection Sensitivity',
+    low: 'Low',
+    high: 'High',
+    consultationLanguage: 'Consultation language',
+    consultationLanguageHint: 'Changing it starts a new consultation.',
+    autoDetectSpeech: 'Detect spoken language',
+    autoDetectSpeechHint: 'Replies in whichever language you speak in each message',
+    autoSend: 'Auto-send on silence',
+    autoSendHint: 'Automatically send when you stop talking',
+    reset: 'Reset',
+    save: 'Save',
+    recording: 'Recording',
+    processing: 'Processing...',
+    inputPlaceholder: 'Type a message or hold mic to speak...',
+    holdToRecord: 'Hold to record voice message',
+    voiceActivity: 'Voice activity detected',
+    consultationTitle: 'Virtual Consultation',
+    consultationDescription: 'Talk by voice or text with your AI assistant specialized in psychology',
+    connectionError: 'Connection Error',
+    avatarUnavailable: 'Could not connect to the avatar service',
+    retryConnection: 'Retry Connection',
+    conversation: 'Conversation',
+    callActive: 'Consultation in progress',
+    readyToStart: 'Ready to start',
+    startToChat: 'Start the consultation to begin talking',
+    messagePlaceholder: 'Type your message...',
+    startCall: 'Start Consultation',
+    endCall: 'End Consultation',
+    initializing: 'Initializing...',
+    connectingTo: (name: string) => `Connecting to ${name}...`,
+    pressStart: "Press 'Start Consultation' to begin",
+    speakNaturally: 'Speak naturally, MicVAD will detect your voice',
+    listening: 'Listening... you can speak now',
+    isResponding: (name: string) => `${name} is responding...`,
+    processingMessage: 'Processing message...',
+    takeoverStarted: (name: string) => `${name} has joined the consultation and will answer you personally`,
+    takeoverEnded: 'The consultation is back with the assistant',
+    showTranscript: 'Show transcript',
+    exportTranscript: 'Export',
+  },
+};
+
+export function isUiLanguage(value: unknown): value is UiLanguage {
+  return value === 'es' || value === 'en';
+}
+
+// Falls back to Spanish for unknown languages, like the backend default
+export function getUiStrings(language?: string | null): UiStrings {
+  return UI_STRINGS[isUiLanguage(language) ? language : 'es'];
+}
+
+// Last language chosen in this browser, else the browser's own language when supported
+export function getPreferredLanguage(): UiLanguage {
+  const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  if (isUiLanguage(stored)) return stored;
+  const browser = navigator.language?.split('-')[0];
+  return isUiLanguage(browser) ? browser : 'es';
+}
+
+export function savePreferredLanguage(language: UiLanguage): void {
+  localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+}
+
+// Clinician review dashboard (/clinician)
+const CLINICIAN_ES = {
+  dashboardTitle: 'Revisión clínica',
+  dashboardDescription: 'Consultas pendientes de revisión, con las marcadas por riesgo primero',
+  backToChat: 'Volver a la consulta',
+  riskFlagged: 'Riesgo detectado',
+  otherConversations: 'Otras consultas',
+  pendingOnly: 'Solo pendientes de revisión',
+  noConversations: 'No hay consultas',
+  loadMore: 'Cargar más',
+  loading: 'Cargando...',
+  loadError: 'No se pudieron cargar los datos',
+  messages: (count: number) => `${count} mensajes`,
+  reviewed: 'Revisada',
+  pendingReview: 'Pendiente',
+  backToList: 'Volver al listado',
+  transcript: 'Transcripción',
+  sources: 'Fuentes',
+  guardrails: 'Guardarraíles',
+  toolCalls: 'Herramientas',
+  toolFailed: 'falló',
+  patient: 'Paciente',
+  therapist: 'Terapeuta',
+  clinicalState: 'Estado clínico',
+  phase: 'Fase',
+  chiefComplaint: 'Motivo de consulta',
+  symptoms: 'Síntomas',
+  concerns: 'Preocupaciones',
+  riskFactors: 'Factores de riesgo',
+  questionnaires: 'Cuestionarios',
+  none: 'Ninguno',
+  safetyEvents: 'Eventos de crisis',
+  treatmentPlans: 'Planes de tratamiento',
+  appointments: 'Citas de seguimiento',
+  notes: 'Notas clínicas',
+  notePlaceholder: 'Escribe una nota sobre el caso...',
+  authorPlaceholder: 'Tu nombre (opcional)',
+  addNote: 'Añadir nota',
+  markReviewed: 'Marcar como revisada',
+  markPending: 'Marcar como pendiente',
+  exportFhir: 'Exportar FHIR',
+  reviewedBy: (who: string | null, when: string) => who ? `Revisada por ${who} el ${when}` : `Revisada el ${when}`,
+  takeover: 'Intervención en directo',
+  takeOver: 'Tomar el control',
+  returnToAi: 'Devolver al asistente',
+  takeoverActive: (who: string) => `${who} está atendiendo la sesión`,
+  clinicianName: 'Tu nombre',
+  clinicianMessagePlaceholder: 'Escribe tu respuesta al paciente...',
+  sendAsClinician: 'Enviar',
+  takeoverHistory: 'Registro de intervenciones',
+  takeoverActions: { started: 'tomó el control', message: 'escribió', ended: 'devolvió la sesión' } as Record<string, string>,
+  moodTimeline: 'Evolución del estado de ánimo',
+  sentiment: 'Valencia',
+  intensity: 'Intensidad',
+  turn: 'Turno',
+  averageSentiment: 'Valencia media',
+  moodTrend: 'Tendencia',
+  dominantEmotion: 'Emoción predominante',
+  noMoodData: 'Aún no hay mensajes del paciente',
+  emotions: { joy: 'alegría', sadness: 'tristeza', anxiety: 'ansiedad', anger: 'enfado', neutral: 'neutra' } as Record<string, string>,
+  soapNote: 'Nota SOAP',
+  soapSections: { subjective: 'Subjetivo', objective: 'Objetivo', assessment: 'Evaluación', plan: 'Plan' },
+  noSoapNote: 'Todavía no hay nota. Genera un borrador o escríbela.',
+  generateSoap: 'Generar borrador',
+  saveVersion: 'Guardar nueva versión',
+  soapVersion: (version: number, origin: string) => `Versión ${version} · ${origin}`,
+  soapGenerated: 'borrador generado',
+  soapEditedBy: (author: string | null) => author ? `editada por ${author}` : 'editada',
+};
+
+export type ClinicianStrings = typeof CLINICIAN_ES;
+
+const CLINICIAN_STRINGS: Record<UiLanguage, ClinicianStrings> = {
+  es: CLINICIAN_ES,
+  en: {
+    dashboardTitle: 'Clinical review',
+    dashboardDescription: 'Consultations pending review, risk-flagged ones first',
+    backToChat: 'Back to consultation',
+    riskFlagged: 'Risk flagged',
+    otherConversations: 'Other consultations',
+    pendingOnly: 'Pending review only',
+    noConversations: 'No consultations',
+    loadMore: 'Load more',
+    loading: 'Loading...',
+    loadError: 'Could not load the data',
+    messages: (count: number) => `${count} messages`,
+    reviewed: 'Reviewed',
+    pendingReview: 'Pending',
+    backToList: 'Back to list',
+    transcript: 'Transcript',
+    sources: 'Sources',
+    guardrails: 'Guardrails',
+    toolCalls: 'Tools',
+    toolFailed: 'failed',
+    patient: 'Patient',
+    therapist: 'Therapist',
+    clinicalState: 'Clinical state',
+    phase: 'Phase',
+    chiefComplaint: 'Reason for consultation',
+    symptoms: 'Symptoms',
+    concerns: 'Concerns',
+    riskFactors: 'Risk factors',
+    questionnaires: 'Questionnaires',
+    none: 'None',
+    safetyEvents: 'Crisis events',
+    treatmentPlans: 'Treatment plans',
+    appointments: 'Follow-up appointments',
+    notes: 'Clinical notes',
+    notePlaceholder: 'Write a note about the case...',
+    authorPlaceholder: 'Your name (optional)',
+    addNote: 'Add note',
+    markReviewed: 'Mark as reviewed',
+    markPending: 'Mark as pending',
+    exportFhir: 'Export FHIR',
+    reviewedBy: (who: string | null, when: string) => who ? `Reviewed by ${who} on ${when}` : `Reviewed on ${when}`,
+    takeover: 'Live intervention',
+    takeOver: 'Take over',
+    returnToAi: 'Return to assistant',
+    takeoverActive: (who: string) => `${who} is handling the session`,
+    clinicianName: 'Your name',
+    clinicianMessagePlaceholder: 'Write your reply to the patient...',
+    sendAsClinician: 'Send',
+    takeoverHistory: 'Intervention log',
+    takeoverActions: { started: 'took over', message: 'wrote', ended: 'returned the session' },
+    moodTimeline: 'Mood over the session',
+    sentiment: 'Sentiment',
+    intensity: 'Intensity',
+    turn: 'Turn',
+    averageSentiment: 'Average sentiment',
+    moodTrend: 'Trend',
+    dominantEmotion: 'Dominant emotion',
+    noMoodData: 'No patient messages yet',
+    emotions: { joy: 'joy', sadness: 'sadness', anxiety: 'anxiety', anger: 'anger', neutral: 'neutral' },
+    soapNote: 'SOAP note',
+    soapSections: { subjective: 'Subjective', objective: 'Objective', assessment: 'Assessment', plan: 'Plan' },
+    noSoapNote: 'No note yet. Generate a draft or write it.',
+    generateSoap: 'Generate draft',
+    saveVersion: 'Save new version',
+    soapVersion: (version: number, origin: string) => `Version ${version} · ${origin}`,
+    soapGenerated: 'generated draft',
+    soapEditedBy: (author: string | null) => author ? `edited by ${author}` : 'edited',
+  },
+};
+
+export function getClinicianStrings(language?: string | null): ClinicianStrings {
+  return CLINICIAN_STRINGS[isUiLanguage(language) ? language : 'es'];
+}
@@ -0,0 +1,23 @@
+import { apiRequest } from './queryClient';
+
+// The patient key is kept in localStorage so a returning patient is recognised on their next
+// visit and the doctor can pick up where the previous consultation left off
+const PATIENT_KEY_STORAGE = 'patientKey';
+
+async function isKnownPatient(patientKey: string): Promise<boolean> {
+  const response = await fetch(`/api/patients/${encodeURIComponent(patientKey)}`, { credentials: 'include' });
+  return response.ok;
+}
+
+export async function getOrCreatePatientKey(): Promise<string> {
+  const stored = localStorage.getItem(PATIENT_KEY_STORAGE);
+  // The server may have lost the patient (e.g. in-memory storage restarted)
+  if (stored && await isKnownPatient(stored)) {
+    return stored;
+  }
+
+  const response = await apiRequest('POST', '/api/patients', {});
+  const patient = await response.json();
+  localStorage.setItem(PATIENT_KEY_STORAGE, patient.patientKey);
+  return patient.patientKey;
+}
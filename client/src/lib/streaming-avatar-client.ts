@@ -4,6 +4,7 @@ import StreamingAvatar, {
   TaskType, 
   TaskMode 
 } from '@heygen/streaming-avatar';
+import type { TherapistPersona } from '@/types/avatar';
 
 export interface StreamingAvatarState {
   phase: 'initializing' | 'connecting' | 'ready' | 'speaking' | 'listening' | 'error';
@@ -12,22 +13,28 @@ export interface StreamingAvatarState {
   sessionToken: string | null;
 }
 
+export type AvatarPersonaConfig = Pick<TherapistPersona, 'avatarId' | 'voiceId' | 'language'>;
+
 export class StreamingAvatarClient {
   private streamingAvatar: StreamingAvatar | null = null;
   private sessionToken: string | null = null;
   private videoElement: HTMLVideoElement | null = null;
+  private persona: AvatarPersonaConfig | null = null;
   private onStateChange?: (state: Partial<StreamingAvatarState>) => void;
   private callDispatch?: React.Dispatch<any>;
+  private speechQueue: Promise<void> = Promise.resolve();
 
   constructor(onStateChange?: (state: Partial<StreamingAvatarState>) => void, callDispatch?: React.Dispatch<any>) {
     this.onStateChange = onStateChange;
     this.callDispatch = callDispatch;
   }
 
-  async initialize(videoElement: HTMLVideoElement): Promise<void> {
+  // The persona decides which HeyGen avatar and voice are started
+  async initialize(videoElement: HTMLVideoElement, persona: AvatarPersonaConfig): Promise<void> {
     try {
       console.log('🚀 Inicializando StreamingAvatar...');
       this.videoElement = videoElement;
+      this.persona = persona;
       this.onStateChange?.({ phase: 'initializing' });
 
       // 1. Get token from backend
@@ -53,12 +60,12 @@ export class StreamingAvatarClient {
       console.log('🎬 Iniciando avatar...');
       await this.streamingAvatar.createStartAvatar({
         quality: AvatarQuality.Low,
-        avatarName: 'Dexter_Doctor_Standing2_public',
+        avatarName: persona.avatarId,
         voice: {
-          voiceId: '08284d3fc63a424fbe80cc1864ed2540', // Spanish male voice
+          voiceId: persona.voiceId,
           rate: 1.0
         },
-        language: 'es'
+        language: persona.language
       });
 
       console.log('🎉 StreamingAvatar initialized successfully');
@@ -211,6 +218,26 @@ export class StreamingAvatarClient {
     }
   }
 
+  // Speak streamed sentences in order: each one is sent once the previous speak call resolves
+  queueAgentSentence(text: string): Promise<void> {
+    const next = this.speechQueue.then(() => this.speakAgentResponse(text));
+    this.speechQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  // Stop the avatar mid-sentence and drop any queued sentences
+  async interrupt(): Promise<void> {
+    if (!this.streamingAvatar) return;
+
+    this.speechQueue = Promise.resolve();
+    try {
+      await this.streamingAvatar.interrupt();
+      console.log('⏹️ Avatar speech interrupted');
+    } catch (error) {
+      console.error('❌ Failed to interrupt avatar:', error);
+    }
+  }
+
   async startVoiceChat(): Promise<void> {
     if (!this.streamingAvatar) {
       throw new Error('StreamingAvatar not initialized');
@@ -265,6 +292,7 @@ export class StreamingAvatarClient {
     }
 
     // Reset state
+    this.speechQueue = Promise.resolve();
     this.sessionToken = null;
     this.videoElement = null;
 
@@ -302,9 +330,9 @@ export class StreamingAvatarClient {
     
     setTimeout(async () => {
       try {
-        if (this.videoElement) {
+        if (this.videoElement && this.persona) {
           console.log(`🔄 Attempting reconnection ${attempt}...`);
-          await this.initialize(this.videoElement);
+          await this.initialize(this.videoElement, this.persona);
           console.log('✅ Reconnection successful!');
         }
       } catch (error) {
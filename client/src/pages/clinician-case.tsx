@@ -0,0 +1,403 @@
+import { useState } from 'react';
+import { Link, useParams } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { AlertTriangle, ArrowLeft, CheckCircle2, Download, Headphones } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { MoodTimelineCard } from '@/components/mood-timeline';
+import { SoapNoteCard } from '@/components/soap-note-card';
+import { useLiveSession } from '@/hooks/use-live-session';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { getClinicianStrings, getPreferredLanguage, type ClinicianStrings } from '@/lib/i18n';
+import type { ClinicianCase } from '@/types/clinician';
+
+const SEVERITY_CLASSES: Record<string, string> = {
+  mild: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+  moderate: 'bg-orange-50 text-orange-800 border-orange-200',
+  severe: 'bg-red-50 text-red-800 border-red-200',
+};
+
+function Findings({ title, findings, strings }: {
+  title: string;
+  findings: { label: string; severity: string }[];
+  strings: ClinicianStrings;
+}) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-500 mb-1">{title}</p>
+      {findings.length === 0 ? (
+        <p className="text-sm text-gray-400">{strings.none}</p>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {findings.map(finding => (
+            <Badge key={finding.label} variant="outline" className={SEVERITY_CLASSES[finding.severity]}>
+              {finding.label} · {finding.severity}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ClinicalStateCard({ data, strings }: { data: ClinicianCase; strings: ClinicianStrings }) {
+  const state = data.clinicalState;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3"><CardTitle className="text-lg">{strings.clinicalState}</CardTitle></CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <p><span className="text-gray-500">{strings.phase}:</span> {state?.phase ?? '-'}</p>
+        <p><span className="text-gray-500">{strings.chiefComplaint}:</span> {state?.chiefComplaint ?? '-'}</p>
+        <Findings title={strings.symptoms} findings={state?.symptoms ?? []} strings={strings} />
+        <Findings title={strings.concerns} findings={state?.concerns ?? []} strings={strings} />
+        <Findings title={strings.riskFactors} findings={state?.riskFactors ?? []} strings={strings} />
+        <div>
+          <p className="text-xs font-medium text-gray-500 mb-1">{strings.questionnaires}</p>
+          {(state?.questionnaires ?? []).length === 0 ? (
+            <p className="text-sm text-gray-400">{strings.none}</p>
+          ) : (
+            <ul className="space-y-1">
+              {state!.questionnaires.map(q => (
+                <li key={`${q.name}-${q.completedAt}`}>
+                  <span className="font-medium">{q.name}</span> {q.total}/{q.maxScore} ({q.severity})
+                  <span className="text-xs text-gray-400"> · {new Date(q.completedAt).toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TranscriptCard({ data, strings }: { data: ClinicianCase; strings: ClinicianStrings }) {
+  return (
+    <Card>
+      <CardHeader className="pb-3"><CardTitle className="text-lg">{strings.transcript}</CardTitle></CardHeader>
+      <CardContent className="space-y-3 max-h-[32rem] overflow-y-auto">
+        {data.messages.map(message => (
+          <div key={message.id} className="text-sm">
+            <p className="text-xs text-gray-500">
+              {message.role === 'user' ? strings.patient : message.metadata?.clinician ?? strings.therapist} · {new Date(message.timestamp).toLocaleTimeString()}
+            </p>
+            <p className={message.role === 'user' ? 'text-gray-900' : 'text-gray-700'}>{message.content}</p>
+            {message.metadata?.sources && (
+              <p className="text-xs text-gray-400">
+                {strings.sources}: {message.metadata.sources.map(source => source.title).join(', ')}
+              </p>
+            )}
+            {message.metadata?.guardrails && (
+              <p className="text-xs text-amber-600">
+                {strings.guardrails}: {message.metadata.guardrails.map(v => `${v.rule} (${v.action})`).join(', ')}
+              </p>
+            )}
+            {message.metadata?.toolCalls && (
+              <p className="text-xs text-gray-400">
+                {strings.toolCalls}: {message.metadata.toolCalls.map(call => call.error ? `${call.name} (${strings.toolFailed})` : call.name).join(', ')}
+              </p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Live intervention: the clinician pauses the agent, answers the patient directly (the patient's
+// avatar speaks the replies) and hands the session back. The case reloads on every live event
+function TakeoverCard({ sessionId, data, strings }: { sessionId: string; data: ClinicianCase; strings: ClinicianStrings }) {
+  const { toast } = useToast();
+  const [clinician, setClinician] = useState('');
+  const [text, setText] = useState('');
+  const caseKey = [`/api/clinician/cases/${sessionId}`];
+  const refresh = () => queryClient.invalidateQueries({ queryKey: caseKey });
+
+  useLiveSession(sessionId, {
+    onTakeoverChange: refresh,
+    onClinicianMessage: refresh,
+    onPatientMessage: () => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: [`/api/sessions/${sessionId}/timeline`] });
+    },
+  });
+
+  const onError = (error: Error) => toast({ title: strings.loadError, description: error.message, variant: 'destructive' });
+
+  const start = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/clinician/cases/${sessionId}/takeover`, { clinician }),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const send = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/clinician/cases/${sessionId}/takeover/messages`, { text }),
+    onSuccess: () => {
+      setText('');
+      refresh();
+    },
+    onError,
+  });
+
+  const release = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/clinician/cases/${sessionId}/takeover/release`),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const { conversation } = data;
+  const activeClinician = conversation.takeoverBy;
+
+  return (
+    <Card className={activeClinician ? 'border-blue-300' : undefined}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2"><Headphones className="w-5 h-5" />{strings.takeover}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {activeClinician ? (
+          <>
+            <p className="text-sm font-medium text-blue-700">{strings.takeoverActive(activeClinician)}</p>
+            <Textarea
+              value={text}
+              onChange={(event) => setText(event.target.value)}
+              placeholder={strings.clinicianMessagePlaceholder}
+            />
+            <div className="flex gap-2">
+              <Button onClick={() => send.mutate()} disabled={!text.trim() || send.isPending}>
+                {strings.sendAsClinician}
+              </Button>
+              <Button variant="outline" onClick={() => release.mutate()} disabled={release.isPending}>
+                {strings.returnToAi}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className="flex gap-2">
+            <Input value={clinician} onChange={(event) => setClinician(event.target.value)} placeholder={strings.clinicianName} />
+            <Button
+              variant={conversation.riskFlagged ? 'destructive' : 'default'}
+              onClick={() => start.mutate()}
+              disabled={!clinician.trim() || start.isPending}
+            >
+              {strings.takeOver}
+            </Button>
+          </div>
+        )}
+
+        {data.takeoverEvents.length > 0 && (
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-1">{strings.takeoverHistory}</p>
+            <ul className="space-y-1 text-sm">
+              {data.takeoverEvents.map(event => (
+                <li key={event.id}>
+                  <span className="text-xs text-gray-400">{new Date(event.createdAt).toLocaleTimeString()} · </span>
+                  <span className="font-medium">{event.clinician}</span> {strings.takeoverActions[event.action]}
+                  {event.content && <span className="text-gray-600">: "{event.content}"</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function NotesCard({ sessionId, data, strings }: { sessionId: string; data: ClinicianCase; strings: ClinicianStrings }) {
+  const { toast } = useToast();
+  const [content, setContent] = useState('');
+  const [author, setAuthor] = useState('');
+
+  const addNote = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/clinician/cases/${sessionId}/notes`, {
+      content,
+      author: author.trim() || undefined,
+    }),
+    onSuccess: () => {
+      setContent('');
+      queryClient.invalidateQueries({ queryKey: [`/api/clinician/cases/${sessionId}`] });
+    },
+    onError: (error) => toast({ title: strings.loadError, description: error.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3"><CardTitle className="text-lg">{strings.notes}</CardTitle></CardHeader>
+      <CardContent className="space-y-3">
+        {data.notes.map(note => (
+          <div key={note.id} className="text-sm border-l-2 border-gray-200 pl-3">
+            <p className="text-xs text-gray-500">
+              {note.author ? `${note.author} · ` : ''}{new Date(note.createdAt).toLocaleString()}
+            </p>
+            <p className="whitespace-pre-wrap">{note.content}</p>
+          </div>
+        ))}
+        <Textarea
+          value={content}
+          onChange={(event) => setContent(event.target.value)}
+          placeholder={strings.notePlaceholder}
+        />
+        <div className="flex gap-2">
+          <Input value={author} onChange={(event) => setAuthor(event.target.value)} placeholder={strings.authorPlaceholder} />
+          <Button onClick={() => addNote.mutate()} disabled={!content.trim() || addNote.isPending}>
+            {strings.addNote}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ClinicianCasePage() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const strings = getClinicianStrings(getPreferredLanguage());
+  const { toast } = useToast();
+  const [reviewer, setReviewer] = useState('');
+
+  const { data, error, isLoading } = useQuery<ClinicianCase>({
+    queryKey: [`/api/clinician/cases/${sessionId}`],
+    staleTime: 0,
+  });
+
+  const review = useMutation({
+    mutationFn: (reviewed: boolean) => apiRequest('POST', `/api/clinician/cases/${sessionId}/review`, {
+      reviewed,
+      reviewer: reviewer.trim() || undefined,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/clinician/cases/${sessionId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+    },
+    onError: (error) => toast({ title: strings.loadError, description: error.message, variant: 'destructive' }),
+  });
+
+  const conversation = data?.conversation;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        <Link href="/clinician">
+          <Button variant="ghost" size="sm"><ArrowLeft className="w-4 h-4 mr-1" />{strings.backToList}</Button>
+        </Link>
+
+        {isLoading && <p className="text-sm text-gray-500">{strings.loading}</p>}
+        {error && <p className="text-sm text-red-600">{strings.loadError}</p>}
+
+        {data && conversation && (
+          <>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-semibold text-gray-900">
+                  {new Date(conversation.createdAt).toLocaleString()}
+                </h1>
+                <p className="text-xs text-gray-500">{conversation.sessionId}</p>
+                <div className="flex gap-2 mt-2">
+                  {conversation.riskFlagged && (
+                    <Badge variant="destructive"><AlertTriangle className="w-3 h-3 mr-1" />{strings.riskFlagged}</Badge>
+                  )}
+                  {conversation.reviewedAt && (
+                    <Badge variant="secondary">
+                      <CheckCircle2 className="w-3 h-3 mr-1" />
+                      {strings.reviewedBy(conversation.reviewedBy, new Date(conversation.reviewedAt).toLocaleString())}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" asChild>
+                  <a href={`/api/sessions/${sessionId}/fhir`} download>
+                    <Download className="w-4 h-4 mr-1" />{strings.exportFhir}
+                  </a>
+                </Button>
+                {!conversation.reviewedAt && (
+                  <Input
+                    className="w-48"
+                    value={reviewer}
+                    onChange={(event) => setReviewer(event.target.value)}
+                    placeholder={strings.authorPlaceholder}
+                  />
+                )}
+                <Button
+                  variant={conversation.reviewedAt ? 'outline' : 'default'}
+                  onClick={() => review.mutate(!conversation.reviewedAt)}
+                  disabled={review.isPending}
+                >
+                  {conversation.reviewedAt ? strings.markPending : strings.markReviewed}
+                </Button>
+              </div>
+            </div>
+
+            {conversation.summary && <p className="text-sm text-gray-700">{conversation.summary}</p>}
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <TranscriptCard data={data} strings={strings} />
+              <div className="space-y-6">
+                <TakeoverCard sessionId={sessionId} data={data} strings={strings} />
+                <ClinicalStateCard data={data} strings={strings} />
+                <MoodTimelineCard sessionId={sessionId} strings={strings} />
+
+                {data.safetyEvents.length > 0 && (
+                  <Card className="border-red-200">
+                    <CardHeader className="pb-3"><CardTitle className="text-lg text-red-700">{strings.safetyEvents}</CardTitle></CardHeader>
+                    <CardContent className="space-y-2 text-sm">
+                      {data.safetyEvents.map(event => (
+                        <div key={event.id}>
+                          <p className="font-medium">{event.category} · {new Date(event.createdAt).toLocaleString()}</p>
+                          <p className="text-gray-600">"{event.userMessage}"</p>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {data.treatmentPlans.length > 0 && (
+                  <Card>
+                    <CardHeader className="pb-3"><CardTitle className="text-lg">{strings.treatmentPlans}</CardTitle></CardHeader>
+                    <CardContent className="space-y-3 text-sm">
+                      {data.treatmentPlans.map(plan => (
+                        <div key={plan.id}>
+                          <p className="font-medium">
+                            {plan.diagnosis ?? '-'} <Badge variant="outline">{plan.status}</Badge>
+                          </p>
+                          <ul className="list-disc pl-5">
+                            {plan.goals.map(goal => <li key={goal}>{goal}</li>)}
+                          </ul>
+                          {plan.homework.map(item => (
+                            <p key={item.id} className="text-gray-600">☐ {item.description} ({item.status})</p>
+                          ))}
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {data.appointments.length > 0 && (
+                  <Card>
+                    <CardHeader className="pb-3"><CardTitle className="text-lg">{strings.appointments}</CardTitle></CardHeader>
+                    <CardContent className="space-y-1 text-sm">
+                      {data.appointments.map(appointment => (
+                        <p key={appointment.id}>
+                          <span className="font-medium">{new Date(appointment.startsAt).toLocaleString()}</span>
+                          {' '}({appointment.durationMinutes} min){appointment.reason && ` · ${appointment.reason}`}
+                          {appointment.status === 'cancelled' && <Badge variant="outline" className="ml-2">{appointment.status}</Badge>}
+                        </p>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
+                <SoapNoteCard sessionId={sessionId} strings={strings} />
+                <NotesCard sessionId={sessionId} data={data} strings={strings} />
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
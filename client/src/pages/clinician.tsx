@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { AlertTriangle, ArrowLeft, CheckCircle2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { apiRequest } from '@/lib/queryClient';
+import { getClinicianStrings, getPreferredLanguage, type ClinicianStrings } from '@/lib/i18n';
+import type { ConversationSummary, Page } from '@/types/clinician';
+
+const PAGE_SIZE = 20;
+
+// One section of the case list, paginated with the cursor returned by GET /api/conversations
+function useCases(riskFlagged: boolean, pendingOnly: boolean) {
+  return useInfiniteQuery<Page<ConversationSummary>>({
+    queryKey: ['/api/conversations', { riskFlagged, pendingOnly }],
+    initialPageParam: null,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), riskFlagged: String(riskFlagged) });
+      if (pendingOnly) params.set('reviewed', 'false');
+      if (typeof pageParam === 'string') params.set('cursor', pageParam);
+      const response = await apiRequest('GET', `/api/conversations?${params}`);
+      return response.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    staleTime: 0,
+  });
+}
+
+function CaseRow({ conversation, strings }: { conversation: ConversationSummary; strings: ClinicianStrings }) {
+  const complaint = conversation.clinicalState?.chiefComplaint;
+  const riskFactors = conversation.clinicalState?.riskFactors ?? [];
+
+  return (
+    <Link href={`/clinician/${conversation.sessionId}`}>
+      <div className="flex items-center justify-between p-3 rounded-lg border border-gray-100 hover:bg-gray-50 cursor-pointer">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-sm text-gray-900">
+              {new Date(conversation.createdAt).toLocaleString()}
+            </span>
+            {conversation.language && <Badge variant="outline">{conversation.language}</Badge>}
+            <span className="text-xs text-gray-500">{strings.messages(conversation.messageCount)}</span>
+          </div>
+          <p className="text-sm text-gray-600 truncate">
+            {complaint || conversation.summary || conversation.sessionId}
+          </p>
+          {riskFactors.length > 0 && (
+            <p className="text-xs text-red-600 truncate">{riskFactors.map(r => r.label).join(', ')}</p>
+          )}
+        </div>
+        {conversation.reviewedAt ? (
+          <Badge variant="secondary" className="shrink-0"><CheckCircle2 className="w-3 h-3 mr-1" />{strings.reviewed}</Badge>
+        ) : (
+          <Badge variant="outline" className="shrink-0">{strings.pendingReview}</Badge>
+        )}
+      </div>
+    </Link>
+  );
+}
+
+function CaseSection({ title, riskFlagged, pendingOnly, strings }: {
+  title: string;
+  riskFlagged: boolean;
+  pendingOnly: boolean;
+  strings: ClinicianStrings;
+}) {
+  const { data, error, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useCases(riskFlagged, pendingOnly);
+  const conversations = data?.pages.flatMap(page => page.items) ?? [];
+
+  return (
+    <Card className={riskFlagged ? 'border-red-200' : undefined}>
+      <CardHeader className="pb-3">
+        <CardTitle className={`text-lg flex items-center gap-2 ${riskFlagged ? 'text-red-700' : ''}`}>
+          {riskFlagged && <AlertTriangle className="w-5 h-5" />}
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && <p className="text-sm text-gray-500">{strings.loading}</p>}
+        {error && <p className="text-sm text-red-600">{strings.loadError}</p>}
+        {!isLoading && !error && conversations.length === 0 && (
+          <p className="text-sm text-gray-500">{strings.noConversations}</p>
+        )}
+        {conversations.map(conversation => (
+          <CaseRow key={conversation.id} conversation={conversation} strings={strings} />
+        ))}
+        {hasNextPage && (
+          <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? strings.loading : strings.loadMore}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ClinicianPage() {
+  const strings = getClinicianStrings(getPreferredLanguage());
+  const [pendingOnly, setPendingOnly] = useState(true);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">{strings.dashboardTitle}</h1>
+            <p className="text-sm text-gray-600">{strings.dashboardDescription}</p>
+          </div>
+          <Link href="/">
+            <Button variant="ghost" size="sm"><ArrowLeft className="w-4 h-4 mr-1" />{strings.backToChat}</Button>
+          </Link>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch id="pending-only" checked={pendingOnly} onCheckedChange={setPendingOnly} />
+          <Label htmlFor="pending-only">{strings.pendingOnly}</Label>
+        </div>
+
+        <CaseSection title={strings.riskFlagged} riskFlagged pendingOnly={pendingOnly} strings={strings} />
+        <CaseSection title={strings.otherConversations} riskFlagged={false} pendingOnly={pendingOnly} strings={strings} />
+      </div>
+    </div>
+  );
+}
@@ -29,4 +29,16 @@ export interface AvatarModalProps {
   onClose: () => void;
   sessionId: string;
   onAudioMessage: (audioBlob: Blob) => void;
-}
\ No newline at end of file
+}
+
+// Served by GET /api/personas/:personaId; mirrors server/personas.ts
+export interface TherapistPersona {
+  id: string;
+  name: string;
+  shortName: string;
+  specialty: string;
+  language: string;
+  avatarId: string;
+  voiceId?: string;
+  greeting: string;
+}
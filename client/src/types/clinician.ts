@@ -0,0 +1,135 @@
+import type { ClinicalSnapshot, Emotion, GuardrailViolation, KnowledgeCitation, ToolCallRecord } from '@shared/schema';
+
+// JSON shapes served by the clinician dashboard routes (server/clinician-routes.ts); dates
+// arrive as ISO strings
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface ConversationSummary {
+  id: number;
+  sessionId: string;
+  patientId: number | null;
+  personaId: string | null;
+  language: string | null;
+  createdAt: string;
+  riskFlagged: boolean;
+  riskFlaggedAt: string | null;
+  summary: string | null;
+  clinicalState: ClinicalSnapshot | null;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+  takeoverBy: string | null;
+  takeoverStartedAt: string | null;
+  messageCount: number;
+  lastMessageAt: string | null;
+}
+
+export interface CaseMessage {
+  id: number;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  isVoice: boolean;
+  metadata: {
+    clinician?: string;
+    sources?: KnowledgeCitation[];
+    guardrails?: GuardrailViolation[];
+    toolCalls?: ToolCallRecord[];
+  } | null;
+}
+
+export interface CaseSafetyEvent {
+  id: number;
+  category: 'suicidal_ideation' | 'self_harm' | 'harm_to_others';
+  matchedPhrases: string[];
+  userMessage: string;
+  notificationStatus: string;
+  createdAt: string;
+}
+
+export interface CaseHomework {
+  id: number;
+  description: string;
+  dueDate: string | null;
+  status: 'pending' | 'completed' | 'skipped';
+  notes: string | null;
+}
+
+export interface CaseTreatmentPlan {
+  id: number;
+  diagnosis: string | null;
+  goals: string[];
+  techniques: string[];
+  status: 'active' | 'completed' | 'discontinued';
+  source: 'generated' | 'manual';
+  createdAt: string;
+  homework: CaseHomework[];
+}
+
+export interface ClinicianNote {
+  id: number;
+  author: string | null;
+  content: string;
+  createdAt: string;
+}
+
+export interface TakeoverEvent {
+  id: number;
+  action: 'started' | 'message' | 'ended';
+  clinician: string;
+  content: string | null;
+  createdAt: string;
+}
+
+export interface CaseAppointment {
+  id: number;
+  startsAt: string;
+  durationMinutes: number;
+  reason: string | null;
+  status: 'scheduled' | 'cancelled';
+}
+
+export interface ClinicianCase {
+  conversation: Omit<ConversationSummary, 'messageCount' | 'lastMessageAt'>;
+  messages: CaseMessage[];
+  clinicalState: ClinicalSnapshot | null;
+  safetyEvents: CaseSafetyEvent[];
+  treatmentPlans: CaseTreatmentPlan[];
+  notes: ClinicianNote[];
+  takeoverEvents: TakeoverEvent[];
+  appointments: CaseAppointment[];
+}
+
+// GET /api/sessions/:sessionId/timeline (server/emotion-analyzer.ts)
+export interface MoodPoint {
+  messageId: number;
+  turn: number;
+  timestamp: string;
+  sentiment: number;
+  emotion: Emotion;
+  intensity: number;
+  arousal?: number;
+}
+
+export interface MoodTimeline {
+  points: MoodPoint[];
+  averageSentiment: number | null;
+  trend: number | null;
+  dominantEmotion: Emotion;
+}
+
+// /api/sessions/:sessionId/soap-notes (server/soap-note-routes.ts)
+export interface SoapNote {
+  id: number;
+  version: number;
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+  source: 'generated' | 'clinician';
+  author: string | null;
+  createdAt: string;
+}
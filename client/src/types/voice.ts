@@ -1,3 +1,5 @@
+import type { UiLanguage } from '@/lib/i18n';
+
 export interface VoiceActivityResult {
   isActive: boolean;
   confidence: number;
@@ -10,17 +12,37 @@ export interface AudioRecordingResult {
   transcription?: string;
 }
 
+export interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+  confidence: number | null;
+}
+
 export interface TranscriptionResult {
   transcription: string;
   duration: number;
   processingTime: number;
+  language?: string | null;
+  confidence?: number | null;
+  segments?: TranscriptionSegment[];
+  provider?: string;
+  turnId?: string;
 }
 
 export interface LLMResponse {
   replyText: string;
   processingTime: number;
+  // Language of the reply; follows the patient's language unless the session is pinned
+  language?: string;
+  // Present when the crisis protocol replaced the agent reply
+  safetyEventId?: number;
+  // Present while a clinician has taken over the session: their reply arrives over the live feed
+  // (see use-live-session.ts) and replyText is empty unless the crisis protocol answered
+  takeover?: { clinician: string };
   contextState: {
     messageCount: number;
+    riskFlagged?: boolean;
   };
 }
 
@@ -35,6 +57,8 @@ export interface ChatMessage {
     transcriptionDuration?: number;
     processingTime?: number;
     vadDetected?: boolean;
+    // Set on replies written by a clinician during a takeover
+    clinician?: string;
   };
 }
 
@@ -67,6 +91,9 @@ export interface TranscriptState {
 
 export interface VoiceSettings {
   vadSensitivity: number;
-  language: string;
+  // Consultation language: sets the conversation language, STT hint and UI strings
+  language: UiLanguage;
+  // Let STT detect the spoken language and answer in it; off pins the consultation language
+  autoDetectSpeech: boolean;
   autoSend: boolean;
 }
@@ -0,0 +1,17 @@
+CREATE TABLE "conversations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "conversations_session_id_unique" UNIQUE("session_id")
+);
+--> statement-breakpoint
+CREATE TABLE "messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"conversation_id" text NOT NULL,
+	"role" text NOT NULL,
+	"content" text NOT NULL,
+	"is_voice" boolean DEFAULT false,
+	"audio_data" text,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"metadata" json
+);
@@ -0,0 +1,16 @@
+CREATE TABLE "safety_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"conversation_id" text NOT NULL,
+	"category" text NOT NULL,
+	"language" text NOT NULL,
+	"country" text NOT NULL,
+	"matched_phrases" json NOT NULL,
+	"user_message" text NOT NULL,
+	"response_text" text NOT NULL,
+	"notification_status" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "risk_flagged" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "risk_flagged_at" timestamp;--> statement-breakpoint
+CREATE INDEX "safety_events_conversation_id_idx" ON "safety_events" USING btree ("conversation_id");
\ No newline at end of file
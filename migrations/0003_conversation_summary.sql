@@ -0,0 +1,3 @@
+ALTER TABLE "conversations" ADD COLUMN "summary" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "summary_through_message_id" integer;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "summary_updated_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "patients" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"patient_key" text NOT NULL,
+	"display_name" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "patients_patient_key_unique" UNIQUE("patient_key")
+);
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "patient_id" integer;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "clinical_state" json;--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "conversations_patient_id_idx" ON "conversations" USING btree ("patient_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "conversations" ADD COLUMN "persona_id" text;
\ No newline at end of file
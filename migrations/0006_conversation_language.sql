@@ -0,0 +1 @@
+ALTER TABLE "conversations" ADD COLUMN "language" text;
\ No newline at end of file
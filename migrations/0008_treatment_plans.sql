@@ -0,0 +1,29 @@
+CREATE TABLE "homework_assignments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"plan_id" integer NOT NULL,
+	"description" text NOT NULL,
+	"due_date" timestamp,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"notes" text,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "treatment_plans" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"conversation_id" text NOT NULL,
+	"patient_id" integer,
+	"diagnosis" text,
+	"goals" json NOT NULL,
+	"techniques" json NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"source" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "homework_assignments" ADD CONSTRAINT "homework_assignments_plan_id_treatment_plans_id_fk" FOREIGN KEY ("plan_id") REFERENCES "public"."treatment_plans"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "treatment_plans" ADD CONSTRAINT "treatment_plans_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "homework_assignments_plan_id_idx" ON "homework_assignments" USING btree ("plan_id");--> statement-breakpoint
+CREATE INDEX "treatment_plans_conversation_id_idx" ON "treatment_plans" USING btree ("conversation_id");--> statement-breakpoint
+CREATE INDEX "treatment_plans_patient_id_idx" ON "treatment_plans" USING btree ("patient_id");
\ No newline at end of file
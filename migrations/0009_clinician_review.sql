@@ -0,0 +1,11 @@
+CREATE TABLE "clinician_notes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"conversation_id" text NOT NULL,
+	"author" text,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "reviewed_by" text;--> statement-breakpoint
+CREATE INDEX "clinician_notes_conversation_id_idx" ON "clinician_notes" USING btree ("conversation_id");
\ No newline at end of file
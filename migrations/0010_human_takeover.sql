@@ -0,0 +1,13 @@
+CREATE TABLE "takeover_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"conversation_id" text NOT NULL,
+	"action" text NOT NULL,
+	"clinician" text NOT NULL,
+	"content" text,
+	"message_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "takeover_by" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "takeover_started_at" timestamp;--> statement-breakpoint
+CREATE INDEX "takeover_events_conversation_id_idx" ON "takeover_events" USING btree ("conversation_id");
\ No newline at end of file
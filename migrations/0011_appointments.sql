@@ -0,0 +1,14 @@
+CREATE TABLE "appointments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"conversation_id" text NOT NULL,
+	"patient_id" integer,
+	"starts_at" timestamp NOT NULL,
+	"duration_minutes" integer NOT NULL,
+	"reason" text,
+	"status" text DEFAULT 'scheduled' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "appointments_conversation_id_idx" ON "appointments" USING btree ("conversation_id");--> statement-breakpoint
+CREATE INDEX "appointments_starts_at_idx" ON "appointments" USING btree ("starts_at");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "soap_notes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"conversation_id" text NOT NULL,
+	"version" integer NOT NULL,
+	"subjective" text NOT NULL,
+	"objective" text NOT NULL,
+	"assessment" text NOT NULL,
+	"plan" text NOT NULL,
+	"source" text NOT NULL,
+	"author" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "soap_notes_conversation_version_idx" ON "soap_notes" USING btree ("conversation_id","version");
\ No newline at end of file
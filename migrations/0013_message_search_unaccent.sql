@@ -0,0 +1,2 @@
+DROP INDEX "messages_content_search_idx";--> statement-breakpoint
+CREATE EXTENSION IF NOT EXISTS "unaccent";
\ No newline at end of file
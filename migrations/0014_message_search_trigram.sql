@@ -0,0 +1,5 @@
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";--> statement-breakpoint
+-- unaccent() is only STABLE and cannot appear in an index: this wrapper pins the dictionary so it
+-- can be IMMUTABLE. Conversation search filters on it with LIKE, which the trigram index serves.
+CREATE FUNCTION "message_search_text"(value text) RETURNS text LANGUAGE sql IMMUTABLE STRICT AS $$ SELECT public.unaccent('public.unaccent'::regdictionary, lower(value)) $$;--> statement-breakpoint
+CREATE INDEX "messages_content_trgm_idx" ON "messages" USING gin (message_search_text("content") gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1,250 @@
+import { z } from "zod";
+import { DynamicStructuredTool, type StructuredToolInterface } from "@langchain/core/tools";
+import { ToolMessage, type ToolCall } from "@langchain/core/messages/tool";
+import type { Appointment, ToolCallRecord } from "@shared/schema";
+import type { IStorage } from "./storage.js";
+import type { KnowledgeBase } from "./knowledge-base.js";
+import type { SafetyProtocol } from "./safety-protocol.js";
+import type { ConsultationLanguage } from "./languages.js";
+
+// Tools the agent can call during a reply (LangChain tool calling): book a follow-up
+// appointment, send the patient a list of vetted resources and look up local emergency numbers.
+// Every call is recorded and stored in the reply's message metadata.
+
+export interface SchedulerConfig {
+  durationMinutes: number;
+  // Opening hours (server local time), Monday to Friday
+  openHour: number;
+  closeHour: number;
+  horizonDays: number;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  durationMinutes: 50,
+  openHour: 8,
+  closeHour: 18,
+  horizonDays: 90,
+};
+
+// Slots offered when the requested time is not available
+const SLOT_STEP_MINUTES = 30;
+
+export class SchedulingError extends Error {
+  constructor(message: string, public nextAvailable?: Date) {
+    super(message);
+    this.name = 'SchedulingError';
+  }
+}
+
+// Single-practice scheduler: appointments may not overlap and must fall within opening hours
+export class AppointmentScheduler {
+  constructor(private storage: IStorage, private config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG) {}
+
+  async book(conversationId: string, patientId: number | null, startsAt: Date, reason?: string): Promise<Appointment> {
+    const now = new Date();
+    if (Number.isNaN(startsAt.getTime())) {
+      throw new SchedulingError('Invalid date');
+    }
+    if (startsAt <= now) {
+      throw new SchedulingError('The appointment must be in the future');
+    }
+    if (startsAt.getTime() > now.getTime() + this.config.horizonDays * 86_400_000) {
+      throw new SchedulingError(`Appointments can be booked up to ${this.config.horizonDays} days ahead`);
+    }
+
+    if (!this.withinOpeningHours(startsAt) || await this.clashes(startsAt)) {
+      throw new SchedulingError('That time is not available', await this.nextAvailable(startsAt));
+    }
+
+    return this.storage.createAppointment({
+      conversationId,
+      patientId,
+      startsAt,
+      durationMinutes: this.config.durationMinutes,
+      reason: reason ?? null,
+    });
+  }
+
+  async nextAvailable(from: Date): Promise<Date | undefined> {
+    const step = SLOT_STEP_MINUTES * 60_000;
+    const end = Date.now() + this.config.horizonDays * 86_400_000;
+    const booked = await this.storage.getScheduledAppointmentsBetween(
+      new Date(from.getTime() - this.config.durationMinutes * 60_000),
+      new Date(end)
+    );
+
+    for (let time = Math.ceil(from.getTime() / step) * step; time < end; time += step) {
+      const candidate = new Date(time);
+      if (this.withinOpeningHours(candidate) && !booked.some(appointment => this.overlaps(appointment, candidate))) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  private withinOpeningHours(startsAt: Date): boolean {
+    const day = startsAt.getDay();
+    const endsAt = new Date(startsAt.getTime() + this.config.durationMinutes * 60_000);
+    const closing = new Date(startsAt);
+    closing.setHours(this.config.closeHour, 0, 0, 0);
+    return day >= 1 && day <= 5 && startsAt.getHours() >= this.config.openHour && endsAt <= closing;
+  }
+
+  private async clashes(startsAt: Date): Promise<boolean> {
+    const window = this.config.durationMinutes * 60_000;
+    const nearby = await this.storage.getScheduledAppointmentsBetween(
+      new Date(startsAt.getTime() - window),
+      new Date(startsAt.getTime() + window)
+    );
+    return nearby.some(appointment => this.overlaps(appointment, startsAt));
+  }
+
+  private overlaps(appointment: Appointment, startsAt: Date): boolean {
+    const start = appointment.startsAt.getTime();
+    const end = start + appointment.durationMinutes * 60_000;
+    const candidateEnd = startsAt.getTime() + this.config.durationMinutes * 60_000;
+    return startsAt.getTime() < end && candidateEnd > start;
+  }
+}
+
+// Who the tools act for in this reply
+export interface ToolContext {
+  sessionId: string;
+  patientId?: number;
+  country?: string;
+  language: ConsultationLanguage;
+}
+
+export interface AgentToolDependencies {
+  scheduler: AppointmentScheduler;
+  knowledge: KnowledgeBase;
+  safety: SafetyProtocol;
+}
+
+const bookAppointmentArgs = z.object({
+  startsAt: z.string().min(1),
+  reason: z.string().optional(),
+});
+
+const sendResourcesArgs = z.object({
+  topic: z.string().min(1),
+});
+
+const emergencyNumberArgs = z.object({
+  country: z.string().length(2).optional(),
+});
+
+// Tool parameters are declared as JSON Schema for the model and validated with zod on each call
+// (zod schemas passed to LangChain's tool types make the type-check run out of memory)
+interface AgentToolDefinition<T extends z.ZodTypeAny> {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  args: T;
+  run: (args: z.infer<T>) => Promise<unknown>;
+}
+
+function defineTool<T extends z.ZodTypeAny>(definition: AgentToolDefinition<T>): StructuredToolInterface {
+  return new DynamicStructuredTool({
+    name: definition.name,
+    description: definition.description,
+    schema: { type: 'object', ...definition.parameters },
+    func: async (input: unknown) => JSON.stringify(await definition.run(definition.args.parse(input))),
+  });
+}
+
+export function createAgentTools(context: ToolContext, deps: AgentToolDependencies): StructuredToolInterface[] {
+  const bookAppointment = defineTool({
+    name: 'book_follow_up_appointment',
+    description: 'Book a follow-up appointment with the therapist. Only call it once the patient has agreed '
+      + `on a specific date and time. Current date and time: ${new Date().toISOString()}. `
+      + 'If the time is not available the error includes the next free slot to offer the patient.',
+    parameters: {
+      properties: {
+        startsAt: { type: 'string', description: 'ISO 8601 date-time of the appointment, with time zone offset' },
+        reason: { type: 'string', description: 'Short reason for the follow-up' },
+      },
+      required: ['startsAt'],
+    },
+    args: bookAppointmentArgs,
+    run: async ({ startsAt, reason }) => {
+      const appointment = await deps.scheduler.book(context.sessionId, context.patientId ?? null, new Date(startsAt), reason);
+      return {
+        appointmentId: appointment.id,
+        startsAt: appointment.startsAt.toISOString(),
+        durationMinutes: appointment.durationMinutes,
+      };
+    },
+  });
+
+  const sendResources = defineTool({
+    name: 'send_resource_list',
+    description: 'Send the patient a list of vetted psychoeducation resources (exercises, techniques, '
+      + 'crisis plans) about a topic. Returns the titles that were sent.',
+    parameters: {
+      properties: {
+        topic: { type: 'string', description: 'What the resources should cover, in the consultation language' },
+      },
+      required: ['topic'],
+    },
+    args: sendResourcesArgs,
+    run: async ({ topic }) => {
+      const matches = deps.knowledge.search(topic, { language: context.language, limit: 5 });
+      return { resources: matches.map(match => ({ id: match.document.id, title: match.document.title })) };
+    },
+  });
+
+  const emergencyNumber = defineTool({
+    name: 'lookup_emergency_number',
+    description: 'Look up the emergency number and mental health crisis lines for a country.',
+    parameters: {
+      properties: {
+        country: { type: 'string', description: "ISO 3166 country code; defaults to the patient's country" },
+      },
+    },
+    args: emergencyNumberArgs,
+    run: async ({ country }) => {
+      const { country: resolved, resources } = deps.safety.resourcesFor(country ?? context.country);
+      return { country: resolved, emergency: resources.emergency, hotlines: resources.hotlines };
+    },
+  });
+
+  return [bookAppointment, sendResources, emergencyNumber];
+}
+
+// Runs the tool calls of one reply and keeps the record stored in the message metadata
+export class AgentToolbox {
+  readonly calls: ToolCallRecord[] = [];
+  private byName: Map<string, StructuredToolInterface>;
+
+  constructor(readonly tools: StructuredToolInterface[]) {
+    this.byName = new Map(tools.map(t => [t.name, t]));
+  }
+
+  async execute(call: ToolCall): Promise<ToolMessage> {
+    const record: ToolCallRecord = { name: call.name, args: call.args };
+    this.calls.push(record);
+
+    const respond = (content: string) => new ToolMessage({ content, tool_call_id: call.id ?? call.name, name: call.name });
+
+    const selected = this.byName.get(call.name);
+    if (!selected) {
+      record.error = `Unknown tool "${call.name}"`;
+      return respond(`Error: ${record.error}`);
+    }
+
+    try {
+      const output = String(await selected.invoke(call.args));
+      record.result = JSON.parse(output);
+      console.log(`🔧 Tool ${call.name}: ${output}`);
+      return respond(output);
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : String(error);
+      if (error instanceof SchedulingError && error.nextAvailable) {
+        record.error += ` (next available: ${error.nextAvailable.toISOString()})`;
+      }
+      console.warn(`🔧 Tool ${call.name} failed: ${record.error}`);
+      return respond(`Error: ${record.error}`);
+    }
+  }
+}
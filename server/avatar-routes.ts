@@ -1,8 +1,10 @@
 import type { Express } from "express";
 import { HeyGenService } from "./heygen-service.js";
+import type { PersonaRegistry } from "./personas.js";
 import path from "path";
 
-export function addAvatarRoutes(app: Express) {
+// Personas give the preview card and the avatar list their names
+export function addAvatarRoutes(app: Express, personas: PersonaRegistry) {
   const heygenService = new HeyGenService();
 
   // Create avatar token for SDK initialization
@@ -102,6 +104,9 @@ export function addAvatarRoutes(app: Express) {
   app.get("/api/avatar/preview/:avatarId", async (req, res) => {
     try {
       const { avatarId } = req.params;
+      const persona = personas.findByAvatarId(avatarId);
+      const title = escapeXml(persona?.name ?? 'Terapeuta virtual');
+      const subtitle = escapeXml(persona?.specialty ?? 'Psicología clínica');
 
       // Return professional SVG avatar
       const avatarSvg = `
@@ -131,10 +136,10 @@ export function addAvatarRoutes(app: Express) {
           <path d="M 190 200 Q 200 205 210 200" stroke="#1F2937" stroke-width="2" fill="none"/>
 
           <rect x="20" y="400" width="360" height="80" fill="rgba(0,0,0,0.8)" rx="10"/>
-          <text x="200" y="425" font-family="Arial, sans-serif" font-size="22" fill="#FFFFFF" text-anchor="middle" font-weight="bold">Dr. Carlos Mendoza</text>
-          <text x="200" y="445" font-family="Arial, sans-serif" font-size="14" fill="#E5E7EB" text-anchor="middle">Psicólogo Clínico con HeyGen SDK</text>
+          <text x="200" y="425" font-family="Arial, sans-serif" font-size="22" fill="#FFFFFF" text-anchor="middle" font-weight="bold">${title}</text>
+          <text x="200" y="445" font-family="Arial, sans-serif" font-size="14" fill="#E5E7EB" text-anchor="middle">${subtitle}</text>
           <text x="200" y="460" font-family="Arial, sans-serif" font-size="12" fill="#9CA3AF" text-anchor="middle">Streaming Avatar Optimizado</text>
-          <text x="200" y="475" font-family="Arial, sans-serif" font-size="10" fill="#6B7280" text-anchor="middle">ID: ${avatarId}</text>
+          <text x="200" y="475" font-family="Arial, sans-serif" font-size="10" fill="#6B7280" text-anchor="middle">ID: ${escapeXml(avatarId)}</text>
         </svg>
       `;
 
@@ -162,7 +167,7 @@ export function addAvatarRoutes(app: Express) {
         success: true,
         avatars: avatars.map(id => ({
           id,
-          name: `Avatar ${id}`,
+          name: personas.findByAvatarId(id)?.name ?? `Avatar ${id}`,
           previewUrl: `/api/avatar/preview/${id}`
         }))
       });
@@ -174,4 +179,8 @@ export function addAvatarRoutes(app: Express) {
       });
     }
   });
-}
\ No newline at end of file
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
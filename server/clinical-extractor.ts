@@ -0,0 +1,139 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from "zod";
+import type { LLMProvider } from "./llm-provider.js";
+
+export type FindingSeverity = 'mild' | 'moderate' | 'severe';
+
+export interface ClinicalFinding {
+  label: string;
+  severity: FindingSeverity;
+  evidence: string[]; // verbatim quotes from the patient
+  firstDetectedAt: string;
+  updatedAt: string;
+}
+
+const findingSchema = z.object({
+  label: z.string().trim().min(1).max(80),
+  severity: z.enum(['mild', 'moderate', 'severe']),
+  evidence: z.array(z.string().trim().min(1)).default([]),
+});
+
+export const clinicalExtractionSchema = z.object({
+  symptoms: z.array(findingSchema).default([]),
+  concerns: z.array(findingSchema).default([]),
+  riskFactors: z.array(findingSchema).default([]),
+});
+
+export type ClinicalExtraction = z.infer<typeof clinicalExtractionSchema>;
+
+export interface ExtractionInput {
+  userMessage: string;
+  previousAssistantMessage?: string;
+}
+
+const MAX_EVIDENCE_PER_FINDING = 5;
+
+const EXTRACTION_PROMPT = `Eres un asistente de documentación clínica. Analiza el ÚLTIMO mensaje del paciente (puede estar en español o inglés) y extrae únicamente lo que el paciente AFIRMA sobre sí mismo.
+
+Devuelve SOLO un objeto JSON válido, sin texto adicional, con esta forma:
+{"symptoms":[{"label":"...","severity":"mild|moderate|severe","evidence":["..."]}],"concerns":[...],"riskFactors":[...]}
+
+Reglas:
+- symptoms: síntomas psicológicos o físicos (ej. "ansiedad", "insomnio", "tristeza", "ataques de pánico").
+- concerns: problemas o preocupaciones vitales (ej. "conflicto de pareja", "pérdida de empleo", "duelo").
+- riskFactors: ideación suicida, autolesión, planes o medios, riesgo para otros, consumo de sustancias de riesgo.
+- Ignora lo que el paciente NIEGA ("no tengo ansiedad", "I'm not suicidal") y lo hipotético o referido a terceros.
+- Usa sinónimos para normalizar: "label" corto, en español, en minúsculas.
+- severity según intensidad, frecuencia e impacto descritos; en riesgo usa "severe" si hay plan, medios o intención.
+- evidence: citas LITERALES y breves del mensaje del paciente.
+- Si no hay nada, devuelve listas vacías.`;
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Pull the first JSON object out of a reply that may be wrapped in prose or code fences
+export function extractJsonObject(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object in extraction output');
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+export class ClinicalExtractor {
+  constructor(private provider: LLMProvider) {}
+
+  // Returns null when the model output cannot be parsed or fails validation
+  async extract(input: ExtractionInput, signal?: AbortSignal): Promise<ClinicalExtraction | null> {
+    const context = input.previousAssistantMessage
+      ? `Pregunta previa del terapeuta: "${input.previousAssistantMessage}"\n`
+      : '';
+
+    const response = await this.provider.chat.invoke([
+      new SystemMessage(EXTRACTION_PROMPT),
+      new HumanMessage(`${context}Mensaje del paciente: "${input.userMessage}"`),
+    ], { signal });
+
+    const raw = typeof response.content === 'string' ? response.content : '';
+
+    try {
+      const parsed = clinicalExtractionSchema.safeParse(extractJsonObject(raw));
+      if (!parsed.success) {
+        console.warn('⚠️ Clinical extraction failed validation:', parsed.error.errors[0]?.message);
+        return null;
+      }
+      return this.dropUngroundedEvidence(parsed.data, input.userMessage);
+    } catch (error) {
+      console.warn('⚠️ Clinical extraction output is not JSON:', raw.substring(0, 100));
+      return null;
+    }
+  }
+
+  // Keep only quotes that really appear in the patient's message
+  private dropUngroundedEvidence(extraction: ClinicalExtraction, userMessage: string): ClinicalExtraction {
+    const source = normalize(userMessage);
+    const ground = (findings: ClinicalExtraction['symptoms']) => findings.map(finding => ({
+      ...finding,
+      label: finding.label.toLowerCase(),
+      evidence: finding.evidence.filter(quote => source.includes(normalize(quote))),
+    }));
+
+    return {
+      symptoms: ground(extraction.symptoms),
+      concerns: ground(extraction.concerns),
+      riskFactors: ground(extraction.riskFactors),
+    };
+  }
+}
+
+// Merge newly extracted findings into the session list: same label updates severity to the
+// latest assessment and accumulates evidence
+export function mergeFindings(
+  existing: ClinicalFinding[],
+  extracted: ClinicalExtraction['symptoms'],
+  now: Date = new Date()
+): ClinicalFinding[] {
+  const merged = existing.map(finding => ({ ...finding, evidence: [...finding.evidence] }));
+  const timestamp = now.toISOString();
+
+  for (const item of extracted) {
+    const current = merged.find(finding => normalize(finding.label) === normalize(item.label));
+    if (current) {
+      current.severity = item.severity;
+      current.evidence = Array.from(new Set([...current.evidence, ...item.evidence])).slice(-MAX_EVIDENCE_PER_FINDING);
+      current.updatedAt = timestamp;
+    } else {
+      merged.push({
+        label: item.label,
+        severity: item.severity,
+        evidence: item.evidence.slice(0, MAX_EVIDENCE_PER_FINDING),
+        firstDetectedAt: timestamp,
+        updatedAt: timestamp,
+      });
+    }
+  }
+
+  return merged;
+}
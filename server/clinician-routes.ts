@@ -0,0 +1,221 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { insertClinicianNoteSchema } from "@shared/schema";
+import { PsychologicalAgent } from "./psychological-agent.js";
+import type { IStorage } from "./storage.js";
+import { TakeoverStateError, type LiveSessionEvent, type TakeoverManager } from "./takeover.js";
+import type { TurnRegistry } from "./turn-registry.js";
+
+const noteSchema = insertClinicianNoteSchema.pick({ author: true, content: true });
+
+const reviewSchema = z.object({
+  reviewed: z.boolean(),
+  reviewer: z.string().trim().min(1).max(100).optional(),
+});
+
+const takeoverSchema = z.object({
+  clinician: z.string().trim().min(1).max(100),
+});
+
+const clinicianMessageSchema = z.object({
+  text: z.string().trim().min(1).max(2000),
+});
+
+// Keeps proxies from closing an idle live feed
+const LIVE_HEARTBEAT_MS = 25_000;
+
+// Clinician review dashboard: the case list is GET /api/conversations with the riskFlagged and
+// reviewed filters; these routes serve one case, record the clinician's notes and review, and
+// let a clinician take over a live session
+export function addClinicianEndpoints(
+  app: Express,
+  psychologicalAgent: PsychologicalAgent,
+  storage: IStorage,
+  takeover: TakeoverManager,
+  turnRegistry: TurnRegistry
+) {
+
+  // Everything needed to review a case: transcript, clinical state (symptoms, risk factors,
+  // questionnaire scores), crisis events, treatment plans, appointments and clinician notes
+  app.get("/api/clinician/cases/:sessionId", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      // The clinical state is saved once the last turn's extraction finishes
+      await psychologicalAgent.waitForExtraction(sessionId);
+
+      const conversation = await storage.getConversation(sessionId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const [messages, safetyEvents, notes, plans, takeoverEvents, appointments] = await Promise.all([
+        storage.getMessages(sessionId),
+        storage.getSafetyEvents(sessionId),
+        storage.getClinicianNotes(sessionId),
+        storage.getTreatmentPlans(sessionId),
+        storage.getTakeoverEvents(sessionId),
+        storage.getAppointments(sessionId),
+      ]);
+      const treatmentPlans = await Promise.all(plans.map(async plan => ({
+        ...plan,
+        homework: await storage.getHomework(plan.id),
+      })));
+
+      res.json({
+        conversation,
+        messages,
+        clinicalState: conversation.clinicalState,
+        safetyEvents,
+        treatmentPlans,
+        notes,
+        takeoverEvents,
+        appointments,
+      });
+    } catch (error) {
+      console.error('Clinician case error:', error);
+      res.status(500).json({ message: "Failed to get case" });
+    }
+  });
+
+  app.post("/api/clinician/cases/:sessionId/notes", async (req, res) => {
+    const parsed = noteSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid note" });
+    }
+
+    try {
+      const { sessionId } = req.params;
+      if (!(await storage.getConversation(sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const note = await storage.addClinicianNote({ ...parsed.data, conversationId: sessionId });
+      res.status(201).json(note);
+    } catch (error) {
+      console.error('Clinician note error:', error);
+      res.status(500).json({ message: "Failed to add note" });
+    }
+  });
+
+  // Mark a case reviewed (or back to pending with reviewed: false)
+  app.post("/api/clinician/cases/:sessionId/review", async (req, res) => {
+    const parsed = reviewSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid review" });
+    }
+
+    try {
+      const { reviewed, reviewer } = parsed.data;
+      const conversation = await storage.setConversationReviewed(req.params.sessionId, reviewed, reviewer ?? null);
+      if (!conversation) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      res.json(conversation);
+    } catch (error) {
+      console.error('Clinician review error:', error);
+      res.status(500).json({ message: "Failed to update review" });
+    }
+  });
+
+  // Take over the session: in-flight agent turns are cancelled and later patient messages wait
+  // for the clinician instead of the agent
+  app.post("/api/clinician/cases/:sessionId/takeover", async (req, res) => {
+    const parsed = takeoverSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid takeover" });
+    }
+
+    try {
+      const { sessionId } = req.params;
+      if (!(await storage.getConversation(sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const conversation = await takeover.start(sessionId, parsed.data.clinician);
+      const cancelled = turnRegistry.cancel(sessionId);
+
+      res.status(201).json({ conversation, cancelled });
+    } catch (error) {
+      if (error instanceof TakeoverStateError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Takeover start error:', error);
+      res.status(500).json({ message: "Failed to take over session" });
+    }
+  });
+
+  // Reply to the patient as the clinician holding the session
+  app.post("/api/clinician/cases/:sessionId/takeover/messages", async (req, res) => {
+    const parsed = clinicianMessageSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid message" });
+    }
+
+    try {
+      const { sessionId } = req.params;
+      if (!(await storage.getConversation(sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const message = await takeover.sendClinicianMessage(sessionId, parsed.data.text);
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof TakeoverStateError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Clinician message error:', error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Hand the session back to the agent
+  app.post("/api/clinician/cases/:sessionId/takeover/release", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      if (!(await storage.getConversation(sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const conversation = await takeover.end(sessionId);
+      res.json({ conversation });
+    } catch (error) {
+      if (error instanceof TakeoverStateError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Takeover release error:', error);
+      res.status(500).json({ message: "Failed to return session to the agent" });
+    }
+  });
+
+  // Live feed of a session over Server-Sent Events, for the patient's client and the dashboard.
+  // Events: "state" { takeoverBy } on connect, then takeover_started, takeover_ended,
+  // clinician_message and patient_message (see LiveSessionEvent)
+  app.get("/api/sessions/:sessionId/live", async (req, res) => {
+    const { sessionId } = req.params;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const unsubscribe = takeover.subscribe(sessionId, (event: LiveSessionEvent) => sendEvent(event.type, event));
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), LIVE_HEARTBEAT_MS);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    try {
+      sendEvent('state', { takeoverBy: await takeover.activeClinician(sessionId) });
+    } catch (error) {
+      console.error('Live session state error:', error);
+    }
+  });
+}
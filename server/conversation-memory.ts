@@ -0,0 +1,150 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import type { Message } from "@shared/schema";
+import type { IStorage } from "./storage.js";
+import { numberFromEnv, type LLMProvider } from "./llm-provider.js";
+
+// Long-term memory for a consultation: older turns are condensed into a rolling summary
+// persisted on the conversation, and a token budget decides how much raw history still fits.
+
+export interface MemoryConfig {
+  contextTokens: number;       // total prompt budget (system prompt + summary + history + user message)
+  replyTokens: number;         // reserved for the model's answer
+  summarizeAtRatio: number;    // summarize once raw history exceeds this share of its budget
+  keepRecentRatio: number;     // share of the history budget left raw after summarizing
+  minRecentMessages: number;   // never summarize the last N messages
+}
+
+export interface ConversationContext {
+  summary: string | null;
+  history: Message[];
+  // Unsummarized messages that did not fit the budget this turn
+  droppedMessages: number;
+}
+
+export function loadMemoryConfig(): MemoryConfig {
+  return {
+    contextTokens: numberFromEnv('MEMORY_CONTEXT_TOKENS', 6000),
+    replyTokens: numberFromEnv('MEMORY_REPLY_TOKENS', 300),
+    summarizeAtRatio: 0.75,
+    keepRecentRatio: 0.4,
+    minRecentMessages: 4,
+  };
+}
+
+// Rough estimate (~4 characters per token for Spanish/English); good enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function messageTokens(message: Message): number {
+  return estimateTokens(message.content) + 4; // role/formatting overhead
+}
+
+const SUMMARY_PROMPT = `Eres un asistente de documentación clínica. Actualiza el resumen de una consulta psicológica en curso.
+Combina el resumen previo (si existe) con los nuevos turnos y devuelve SOLO el resumen actualizado, en el idioma en que se desarrolla la consulta, en tercera persona y en un máximo de 150 palabras.
+Conserva: motivo de consulta, síntomas y su evolución, acontecimientos relevantes, factores de riesgo, acuerdos o tareas, y preguntas que quedaron pendientes.
+No inventes información que no aparezca en el texto.`;
+
+export class ConversationMemory {
+  // Como máximo un resumen en curso por sesión
+  private pendingSummaries: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    private storage: IStorage,
+    private provider: LLMProvider,
+    private config: MemoryConfig = loadMemoryConfig()
+  ) {}
+
+  // Picks the summary plus as much recent raw history as fits, and schedules summarization
+  // of the oldest turns once the raw history outgrows its share of the budget
+  async buildContext(sessionId: string, systemPrompt: string, userMessage: string): Promise<ConversationContext> {
+    const conversation = await this.storage.getConversation(sessionId);
+    const summary = conversation?.summary ?? null;
+    const unsummarized = await this.storage.getMessagesAfter(sessionId, conversation?.summaryThroughMessageId ?? 0);
+
+    const historyBudget = this.historyBudget(systemPrompt, summary, userMessage);
+
+    const history: Message[] = [];
+    let used = 0;
+    for (let i = unsummarized.length - 1; i >= 0; i--) {
+      const tokens = messageTokens(unsummarized[i]);
+      if (used + tokens > historyBudget) break;
+      history.unshift(unsummarized[i]);
+      used += tokens;
+    }
+
+    const unsummarizedTokens = unsummarized.reduce((sum, message) => sum + messageTokens(message), 0);
+    if (unsummarizedTokens > historyBudget * this.config.summarizeAtRatio) {
+      this.scheduleSummary(sessionId, unsummarized, summary, historyBudget);
+    }
+
+    return { summary, history, droppedMessages: unsummarized.length - history.length };
+  }
+
+  private historyBudget(systemPrompt: string, summary: string | null, userMessage: string): number {
+    const fixed = estimateTokens(systemPrompt) + estimateTokens(summary ?? '') + estimateTokens(userMessage);
+    return Math.max(this.config.contextTokens - this.config.replyTokens - fixed, 0);
+  }
+
+  // Espera a que termine el resumen en curso (útil para pruebas y exportaciones)
+  async waitForSummary(sessionId: string): Promise<void> {
+    await this.pendingSummaries.get(sessionId);
+  }
+
+  // Folds every message not yet summarized into the summary, e.g. to close a finished consultation
+  async summarizeRemaining(sessionId: string): Promise<string | null> {
+    await this.waitForSummary(sessionId);
+    const conversation = await this.storage.getConversation(sessionId);
+    const unsummarized = await this.storage.getMessagesAfter(sessionId, conversation?.summaryThroughMessageId ?? 0);
+    if (unsummarized.length > 0) {
+      await this.summarize(sessionId, conversation?.summary ?? null, unsummarized);
+    }
+    return (await this.storage.getConversation(sessionId))?.summary ?? null;
+  }
+
+  private scheduleSummary(sessionId: string, unsummarized: Message[], summary: string | null, historyBudget: number): void {
+    if (this.pendingSummaries.has(sessionId)) return;
+
+    // Keep the newest messages raw; everything older is folded into the summary
+    const keepBudget = historyBudget * this.config.keepRecentRatio;
+    let kept = 0;
+    let keptTokens = 0;
+    for (let i = unsummarized.length - 1; i >= 0; i--) {
+      const tokens = messageTokens(unsummarized[i]);
+      if (kept >= this.config.minRecentMessages && keptTokens + tokens > keepBudget) break;
+      kept++;
+      keptTokens += tokens;
+    }
+
+    const toSummarize = unsummarized.slice(0, unsummarized.length - kept);
+    if (toSummarize.length === 0) return;
+
+    const pending = this.summarize(sessionId, summary, toSummarize)
+      .catch(error => console.error('Conversation summary error:', error))
+      .finally(() => this.pendingSummaries.delete(sessionId));
+    this.pendingSummaries.set(sessionId, pending);
+  }
+
+  private async summarize(sessionId: string, previousSummary: string | null, turns: Message[]): Promise<void> {
+    const transcript = turns
+      .map(message => `${message.role === 'user' ? 'Paciente' : 'Terapeuta'}: ${message.content}`)
+      .join('\n');
+
+    const response = await this.provider.chat.invoke([
+      new SystemMessage(SUMMARY_PROMPT),
+      new HumanMessage(`Resumen previo:\n${previousSummary || '(ninguno)'}\n\nNuevos turnos:\n${transcript}`),
+    ]);
+
+    const updated = typeof response.content === 'string' ? response.content.trim() : '';
+    if (!updated) {
+      console.warn(`⚠️ Empty conversation summary for ${sessionId}; keeping previous summary`);
+      return;
+    }
+
+    if (!(await this.storage.getConversation(sessionId))) {
+      await this.storage.createConversation({ sessionId });
+    }
+    await this.storage.updateConversationSummary(sessionId, updated, turns[turns.length - 1].id);
+    console.log(`🧠 Summarized ${turns.length} messages for ${sessionId}`);
+  }
+}
@@ -0,0 +1,77 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon, NeonDatabase } from "drizzle-orm/neon-serverless";
+import { migrate as migrateNeon } from "drizzle-orm/neon-serverless/migrator";
+import pg from "pg";
+import { drizzle as drizzleNodePg, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate as migrateNodePg } from "drizzle-orm/node-postgres/migrator";
+import ws from "ws";
+import path from "path";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = NeonDatabase<typeof schema> | NodePgDatabase<typeof schema>;
+
+export type DatabaseDriver = 'neon' | 'node-postgres';
+
+let pool: NeonPool | pg.Pool | undefined;
+let db: Database | undefined;
+
+// DATABASE_DRIVER picks the driver explicitly; otherwise Neon's websocket driver is used for
+// *.neon.tech hosts and node-postgres (plain TCP, e.g. a local Postgres) for anything else
+export function getDatabaseDriver(url: string): DatabaseDriver {
+  const driver = process.env.DATABASE_DRIVER?.toLowerCase();
+  if (driver === 'neon' || driver === 'node-postgres') {
+    return driver;
+  }
+  if (driver) {
+    throw new Error(`Unknown DATABASE_DRIVER "${driver}" (expected "neon" or "node-postgres")`);
+  }
+
+  try {
+    return new URL(url).hostname.endsWith('.neon.tech') ? 'neon' : 'node-postgres';
+  } catch {
+    throw new Error('DATABASE_URL is not a valid connection URL');
+  }
+}
+
+// Lazily create the connection so importing this module never requires DATABASE_URL
+export function getDb(): Database {
+  if (db) return db;
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+  }
+
+  if (getDatabaseDriver(connectionString) === 'neon') {
+    const neonPool = new NeonPool({ connectionString });
+    pool = neonPool;
+    db = drizzleNeon({ client: neonPool, schema });
+  } else {
+    const nodePool = new pg.Pool({ connectionString });
+    pool = nodePool;
+    db = drizzleNodePg({ client: nodePool, schema });
+  }
+  return db;
+}
+
+// Apply pending SQL migrations generated by drizzle-kit into ./migrations
+export async function runMigrations(database: Database = getDb()): Promise<void> {
+  const migrationsFolder = process.env.MIGRATIONS_DIR || path.resolve(process.cwd(), "migrations");
+  console.log(`🗄️ Running database migrations from ${migrationsFolder}...`);
+  if (database instanceof NeonDatabase) {
+    await migrateNeon(database, { migrationsFolder });
+  } else {
+    await migrateNodePg(database, { migrationsFolder });
+  }
+  console.log('✅ Database migrations applied');
+}
+
+export async function closeDb(): Promise<void> {
+  if (pool) {
+    await pool.end();
+  }
+  pool = undefined;
+  db = undefined;
+}
@@ -0,0 +1,366 @@
+import type { Emotion, EmotionScore, Message, ProsodyFeatures } from "@shared/schema";
+import type { ConsultationLanguage } from "./languages.js";
+
+// Per-turn affective scoring of patient messages, stored in the message metadata and plotted as
+// the session's mood timeline. The text is scored with a small Spanish/English emotion lexicon
+// (with negation and intensifiers); when the utterance was recorded as WAV, voice features
+// (loudness, pitch, speech rate) add an arousal estimate that raises or lowers the intensity.
+
+type ScoredEmotion = Exclude<Emotion, 'neutral'>;
+
+// Entries ending in * match any word starting with them; the rest match whole words
+const LEXICON: Record<ConsultationLanguage, Record<ScoredEmotion, string[]>> = {
+  es: {
+    joy: ['feliz', 'felices', 'content*', 'alegr*', 'bien', 'mejor', 'tranquil*', 'animad*', 'esperanz*', 'orgullos*',
+      'agradecid*', 'genial', 'disfrut*', 'motivad*', 'alivi*', 'ilusion*', 'calma', 'relajad*'],
+    sadness: ['trist*', 'deprim*', 'llor*', 'sola', 'vacio', 'vacia', 'desesper*', 'desanim*', 'melancol*',
+      'decepcion*', 'culpa*', 'agotad*', 'cansad*', 'soledad', 'inutil', 'fracas*', 'hundid*', 'dolid*', 'mal'],
+    anxiety: ['ansie*', 'ansios*', 'nervios*', 'preocup*', 'miedo*', 'angusti*', 'panico', 'agobi*', 'estres*',
+      'estresad*', 'inquiet*', 'asustad*', 'tens*', 'insegur*', 'temor*', 'atemoriz*'],
+    anger: ['enfad*', 'enoj*', 'rabia', 'furi*', 'irrit*', 'molest*', 'odi*', 'frustr*', 'harto', 'harta',
+      'indignad*', 'resentid*'],
+  },
+  en: {
+    joy: ['happy', 'glad', 'good', 'great', 'better', 'calm*', 'relax*', 'hope*', 'proud', 'grateful', 'enjoy*',
+      'excited', 'reliev*', 'motivated', 'fine', 'peaceful', 'cheerful'],
+    sadness: ['sad*', 'depress*', 'cry*', 'cried', 'lonely', 'empty', 'hopeless*', 'down', 'tired', 'exhaust*',
+      'guilt*', 'miserable', 'worthless', 'disappoint*', 'grief', 'heartbroken', 'bad', 'awful'],
+    anxiety: ['anxi*', 'nervous*', 'worr*', 'afraid', 'fear*', 'scared', 'panic*', 'stress*', 'overwhelm*',
+      'tense', 'restless', 'uneasy', 'insecure'],
+    anger: ['angry', 'anger', 'mad', 'furious', 'irritat*', 'annoy*', 'hate*', 'frustrat*', 'resent*', 'rage',
+      'pissed'],
+  },
+};
+
+const NEGATORS = new Set([
+  'no', 'nunca', 'nada', 'ni', 'tampoco', 'sin', 'jamas',
+  'not', 'never', 'nothing', 'without', 'dont', 'doesnt', 'didnt', 'isnt', 'wasnt', 'arent', 'cant', 'nor',
+]);
+
+const INTENSIFIERS = new Set([
+  'muy', 'tan', 'mucho', 'mucha', 'muchisimo', 'muchisima', 'demasiado', 'bastante', 'super', 'totalmente',
+  'very', 'so', 'really', 'extremely', 'too', 'totally', 'incredibly',
+]);
+
+// How far back (in words) a negator or intensifier applies
+const NEGATION_WINDOW = 3;
+const INTENSIFIER_WINDOW = 2;
+const INTENSIFIER_WEIGHT = 1.5;
+// Negated emotions count toward the opposite valence at this weight ("no estoy bien")
+const NEGATED_WEIGHT = 0.5;
+// Lexicon weight that counts as a clearly expressed emotion
+const FULL_INTENSITY_WEIGHT = 2;
+const MIN_EMOTION_WEIGHT = 0.5;
+// Share of the intensity that comes from the voice when prosody is available
+const PROSODY_WEIGHT = 0.3;
+
+const EMOTIONS: ScoredEmotion[] = ['joy', 'sadness', 'anxiety', 'anger'];
+
+function words(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function matchesEntry(word: string, entry: string): boolean {
+  return entry.endsWith('*') ? word.startsWith(entry.slice(0, -1)) : word === entry;
+}
+
+// The longest matching entry wins, so "hopeless" is not read as "hope*"
+function lexiconEmotion(word: string, language: ConsultationLanguage): ScoredEmotion | undefined {
+  let best: ScoredEmotion | undefined;
+  let bestLength = 0;
+  for (const emotion of EMOTIONS) {
+    for (const entry of LEXICON[language][emotion]) {
+      if (entry.length > bestLength && matchesEntry(word, entry)) {
+        best = emotion;
+        bestLength = entry.length;
+      }
+    }
+  }
+  return best;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function clamp(value: number, min = 0, max = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function scoreText(text: string, language: ConsultationLanguage): EmotionScore {
+  const tokens = words(text);
+  const scores: Record<ScoredEmotion, number> = { joy: 0, sadness: 0, anxiety: 0, anger: 0 };
+
+  tokens.forEach((word, index) => {
+    const emotion = lexiconEmotion(word, language);
+    if (!emotion) return;
+
+    const before = (window: number) => tokens.slice(Math.max(0, index - window), index);
+    const weight = before(INTENSIFIER_WINDOW).some(w => INTENSIFIERS.has(w)) ? INTENSIFIER_WEIGHT : 1;
+
+    if (before(NEGATION_WINDOW).some(w => NEGATORS.has(w))) {
+      // "no estoy bien" leans sad; "no estoy triste" leans mildly positive
+      scores[emotion === 'joy' ? 'sadness' : 'joy'] += weight * NEGATED_WEIGHT;
+    } else {
+      scores[emotion] += weight;
+    }
+  });
+
+  const positive = scores.joy;
+  const negative = scores.sadness + scores.anxiety + scores.anger;
+  const total = positive + negative;
+  const dominant = EMOTIONS.reduce((best, emotion) => scores[emotion] > scores[best] ? emotion : best, 'joy');
+
+  return {
+    sentiment: round(clamp((positive - negative) / (total + 1), -1, 1)),
+    emotion: scores[dominant] >= MIN_EMOTION_WEIGHT ? dominant : 'neutral',
+    intensity: round(clamp(total / FULL_INTENSITY_WEIGHT)),
+    scores: {
+      joy: round(clamp(scores.joy / FULL_INTENSITY_WEIGHT)),
+      sadness: round(clamp(scores.sadness / FULL_INTENSITY_WEIGHT)),
+      anxiety: round(clamp(scores.anxiety / FULL_INTENSITY_WEIGHT)),
+      anger: round(clamp(scores.anger / FULL_INTENSITY_WEIGHT)),
+    },
+  };
+}
+
+interface PcmAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// 16-bit PCM WAV (what the browser client uploads), mixed down to mono; null for anything else
+export function decodeWav(buffer: Buffer): PcmAudio | null {
+  if (buffer.length < 44 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      if (buffer.readUInt16LE(body) !== 1) return null;
+      channels = buffer.readUInt16LE(body + 2);
+      sampleRate = buffer.readUInt32LE(body + 4);
+      bitsPerSample = buffer.readUInt16LE(body + 14);
+    } else if (id === 'data') {
+      if (bitsPerSample !== 16 || channels === 0 || sampleRate === 0) return null;
+      const end = Math.min(buffer.length, body + size);
+      const frameCount = Math.floor((end - body) / (2 * channels));
+      const samples = new Float32Array(frameCount);
+      for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+          sum += buffer.readInt16LE(body + (frame * channels + channel) * 2) / 0x8000;
+        }
+        samples[frame] = sum / channels;
+      }
+      return { samples, sampleRate };
+    }
+    offset = body + size + (size % 2);
+  }
+  return null;
+}
+
+// Pitch is estimated on audio downsampled to about this rate, which is plenty for voice F0
+const ANALYSIS_RATE = 8000;
+const FRAME_SECONDS = 0.04;
+const MIN_PITCH_HZ = 75;
+const MAX_PITCH_HZ = 400;
+// Frames quieter than this (dBFS) are treated as silence
+const SILENCE_DB = -45;
+// Autocorrelation peak needed to call a frame voiced
+const VOICING_THRESHOLD = 0.5;
+
+function decibels(rms: number): number {
+  return rms > 0 ? 20 * Math.log10(rms) : -100;
+}
+
+function downsample(audio: PcmAudio): PcmAudio {
+  const factor = Math.max(1, Math.floor(audio.sampleRate / ANALYSIS_RATE));
+  if (factor === 1) return audio;
+
+  const samples = new Float32Array(Math.floor(audio.samples.length / factor));
+  for (let i = 0; i < samples.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += audio.samples[i * factor + j];
+    samples[i] = sum / factor;
+  }
+  return { samples, sampleRate: audio.sampleRate / factor };
+}
+
+function framePitch(frame: Float32Array, sampleRate: number): number | undefined {
+  let energy = 0;
+  for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+  if (energy === 0) return undefined;
+
+  let bestLag = 0;
+  let bestCorrelation = 0;
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(frame.length - 1, Math.ceil(sampleRate / MIN_PITCH_HZ));
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let correlation = 0;
+    for (let i = 0; i + lag < frame.length; i++) correlation += frame[i] * frame[i + lag];
+    correlation /= energy;
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation;
+      bestLag = lag;
+    }
+  }
+  return bestCorrelation >= VOICING_THRESHOLD && bestLag > 0 ? sampleRate / bestLag : undefined;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function analyzeProsody(audio: PcmAudio, wordCount: number): ProsodyFeatures | null {
+  const durationSeconds = audio.samples.length / audio.sampleRate;
+  if (durationSeconds < FRAME_SECONDS) return null;
+
+  const analysis = downsample(audio);
+  const frameLength = Math.round(analysis.sampleRate * FRAME_SECONDS);
+  let voicedEnergy = 0;
+  let voicedSamples = 0;
+  const pitches: number[] = [];
+
+  for (let start = 0; start + frameLength <= analysis.samples.length; start += frameLength) {
+    const frame = analysis.samples.subarray(start, start + frameLength);
+    let sum = 0;
+    for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+    if (decibels(Math.sqrt(sum / frame.length)) < SILENCE_DB) continue;
+
+    voicedEnergy += sum;
+    voicedSamples += frame.length;
+    const pitch = framePitch(frame, analysis.sampleRate);
+    if (pitch) pitches.push(pitch);
+  }
+
+  if (voicedSamples === 0) {
+    return { durationSeconds: round(durationSeconds), energyDb: -100, arousal: 0 };
+  }
+
+  const energyDb = decibels(Math.sqrt(voicedEnergy / voicedSamples));
+  const pitchHz = pitches.length > 0 ? median(pitches) : undefined;
+  const semitones = pitchHz ? pitches.map(p => 12 * Math.log2(p / pitchHz)) : [];
+  const pitchVariability = semitones.length > 1
+    ? Math.sqrt(semitones.reduce((sum, s) => sum + s * s, 0) / semitones.length)
+    : undefined;
+  const speechRate = wordCount > 0 ? wordCount / durationSeconds : undefined;
+
+  // Each feature mapped onto 0-1 over the range of ordinary conversational speech
+  const cues = [
+    clamp((energyDb + 40) / 30),
+    pitchVariability !== undefined ? clamp(pitchVariability / 4) : undefined,
+    speechRate !== undefined ? clamp((speechRate - 1.5) / 2.5) : undefined,
+  ].filter((cue): cue is number => cue !== undefined);
+
+  return {
+    durationSeconds: round(durationSeconds),
+    energyDb: round(energyDb, 1),
+    pitchHz: pitchHz !== undefined ? round(pitchHz, 0) : undefined,
+    pitchVariability: pitchVariability !== undefined ? round(pitchVariability) : undefined,
+    speechRate: speechRate !== undefined ? round(speechRate) : undefined,
+    arousal: round(cues.reduce((sum, cue) => sum + cue, 0) / cues.length),
+  };
+}
+
+// Recorded audio arrives as a data URL (data:audio/wav;base64,...)
+function audioFromDataUrl(audioData: string): PcmAudio | null {
+  const match = /^data:audio\/(?:wav|wave|x-wav)[^,]*;base64,(.+)$/.exec(audioData);
+  return match ? decodeWav(Buffer.from(match[1], 'base64')) : null;
+}
+
+export function scoreMessage(text: string, language: ConsultationLanguage, audioData?: string | null): EmotionScore {
+  const score = scoreText(text, language);
+  if (!audioData) return score;
+
+  try {
+    const audio = audioFromDataUrl(audioData);
+    const prosody = audio && analyzeProsody(audio, words(text).length);
+    if (!prosody) return score;
+
+    // A flat voice tones down what the words say; an agitated one turns it up
+    const intensity = score.emotion === 'neutral'
+      ? score.intensity
+      : (1 - PROSODY_WEIGHT) * score.intensity + PROSODY_WEIGHT * prosody.arousal;
+    return { ...score, intensity: round(clamp(intensity)), prosody };
+  } catch (error) {
+    console.warn('Prosody analysis failed:', error);
+    return score;
+  }
+}
+
+export interface MoodPoint {
+  messageId: number;
+  // 1-based index of the patient's message in the session
+  turn: number;
+  timestamp: Date;
+  sentiment: number;
+  emotion: Emotion;
+  intensity: number;
+  arousal?: number;
+}
+
+export interface MoodTimeline {
+  points: MoodPoint[];
+  averageSentiment: number | null;
+  // Average sentiment of the second half of the session minus the first half
+  trend: number | null;
+  dominantEmotion: Emotion;
+}
+
+// Mood over a session from its patient messages; messages stored before scoring existed are
+// scored from their text
+export function buildMoodTimeline(messages: Message[], language: ConsultationLanguage): MoodTimeline {
+  const points = messages
+    .filter(message => message.role === 'user')
+    .map((message, index): MoodPoint => {
+      const score = message.metadata?.emotion ?? scoreText(message.content, language);
+      return {
+        messageId: message.id,
+        turn: index + 1,
+        timestamp: message.timestamp,
+        sentiment: score.sentiment,
+        emotion: score.emotion,
+        intensity: score.intensity,
+        arousal: score.prosody?.arousal,
+      };
+    });
+
+  const average = (values: MoodPoint[]) => values.length > 0
+    ? round(values.reduce((sum, point) => sum + point.sentiment, 0) / values.length)
+    : null;
+  const half = Math.floor(points.length / 2);
+  const firstHalf = average(points.slice(0, half));
+  const secondHalf = average(points.slice(points.length - half));
+
+  const counts = new Map<Emotion, number>();
+  points.forEach(point => {
+    if (point.emotion !== 'neutral') counts.set(point.emotion, (counts.get(point.emotion) ?? 0) + 1);
+  });
+  const dominantEmotion = Array.from(counts.entries())
+    .reduce<[Emotion, number]>((best, entry) => entry[1] > best[1] ? entry : best, ['neutral', 0])[0];
+
+  return {
+    points,
+    averageSentiment: average(points),
+    trend: firstHalf !== null && secondHalf !== null ? round(secondHalf - firstHalf) : null,
+    dominantEmotion,
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ClinicalSnapshot } from "@shared/schema";
+import { buildFhirBundle, consultationEnded, fhirBundleStructureSchema, type FhirBundle, type FhirConfig } from "./fhir-export.js";
+import { MemStorage } from "./storage.js";
+
+const config: FhirConfig = {
+  patientSystem: 'urn:test:patient-key',
+  sessionSystem: 'urn:test:session-id',
+  encounterIdleMinutes: 60,
+};
+
+const state: ClinicalSnapshot = {
+  phase: 'diagnosis',
+  chiefComplaint: 'Insomnio y tristeza',
+  symptoms: [],
+  concerns: [],
+  riskFactors: [],
+  questionnaires: [{ name: 'PHQ-9', total: 12, maxScore: 27, severity: 'moderate', completedAt: '2026-10-19T10:05:00.000Z' }],
+  updatedAt: '2026-10-19T10:06:00.000Z',
+};
+
+async function anonymousConsultation() {
+  const storage = new MemStorage();
+  const conversation = await storage.createConversation({ sessionId: 'anon-1', language: 'es' });
+  await storage.addMessage({ conversationId: 'anon-1', role: 'user', content: 'No duermo bien', isVoice: false });
+  await storage.addMessage({ conversationId: 'anon-1', role: 'assistant', content: '¿Desde cuándo?', isVoice: false });
+  return { conversation, messages: await storage.getMessages('anon-1') };
+}
+
+function resources<T extends FhirBundle['entry'][number]['resource']['resourceType']>(bundle: FhirBundle, type: T) {
+  return bundle.entry
+    .map(entry => entry.resource)
+    .filter((resource): resource is Extract<FhirBundle['entry'][number]['resource'], { resourceType: T }> => resource.resourceType === type);
+}
+
+describe('buildFhirBundle', () => {
+  it('exports an anonymous consultation with a questionnaire and a diagnosis', async () => {
+    const { conversation, messages } = await anonymousConsultation();
+    const bundle = buildFhirBundle({ conversation, messages, state, diagnosis: 'Episodio depresivo moderado', ended: false }, config);
+
+    assert.ok(fhirBundleStructureSchema.safeParse(bundle).success);
+    assert.deepEqual(bundle.entry.map(entry => entry.resource.resourceType),
+      ['Patient', 'Encounter', 'Observation', 'Condition', 'DocumentReference']);
+
+    const [patient] = resources(bundle, 'Patient');
+    assert.deepEqual(patient.identifier, [{ system: 'urn:test:session-id', value: 'anon-1' }]);
+    assert.equal(patient.name, undefined);
+
+    const [encounter] = resources(bundle, 'Encounter');
+    assert.equal(encounter.status, 'in-progress');
+    assert.equal(encounter.period.end, undefined);
+    assert.deepEqual(encounter.reasonCode, [{ text: 'Insomnio y tristeza' }]);
+
+    const [observation] = resources(bundle, 'Observation');
+    assert.equal(observation.code.coding?.[0].code, '44261-6');
+    assert.equal(observation.valueInteger, 12);
+
+    const [condition] = resources(bundle, 'Condition');
+    assert.equal(condition.code.text, 'Episodio depresivo moderado');
+    assert.equal(condition.verificationStatus.coding?.[0].code, 'provisional');
+
+    const patientUrl = bundle.entry[0].fullUrl;
+    const encounterUrl = bundle.entry[1].fullUrl;
+    assert.equal(observation.subject.reference, patientUrl);
+    assert.equal(condition.encounter.reference, encounterUrl);
+  });
+
+  it('finishes the Encounter at the last message once the consultation has ended', async () => {
+    const { conversation, messages } = await anonymousConsultation();
+    const bundle = buildFhirBundle({ conversation, messages, state: null, ended: true }, config);
+
+    const [encounter] = resources(bundle, 'Encounter');
+    assert.equal(encounter.status, 'finished');
+    assert.equal(encounter.period.end, messages[messages.length - 1].timestamp.toISOString());
+    assert.deepEqual(bundle.entry.map(entry => entry.resource.resourceType), ['Patient', 'Encounter', 'DocumentReference']);
+  });
+});
+
+describe('fhirBundleStructureSchema', () => {
+  it('fails the structural check on a reference outside the bundle', async () => {
+    const { conversation, messages } = await anonymousConsultation();
+    const bundle = buildFhirBundle({ conversation, messages, state, ended: false }, config);
+    const dangling = 'urn:uuid:00000000-0000-4000-8000-000000000000';
+    const [observation] = resources(bundle, 'Observation');
+    observation.subject = { reference: dangling };
+
+    const result = fhirBundleStructureSchema.safeParse(bundle);
+    assert.equal(result.success, false);
+    assert.deepEqual(result.error?.errors.map(error => error.message), [`Unresolved reference ${dangling}`]);
+  });
+});
+
+describe('consultationEnded', () => {
+  const createdAt = new Date('2026-10-19T10:00:00Z');
+  const messages = [{ timestamp: new Date('2026-10-19T10:30:00Z') }];
+
+  it('ends a consultation after the idle time or once reviewed', () => {
+    assert.equal(consultationEnded({ createdAt, reviewedAt: null }, messages, config, new Date('2026-10-19T11:00:00Z')), false);
+    assert.equal(consultationEnded({ createdAt, reviewedAt: null }, messages, config, new Date('2026-10-19T11:30:00Z')), true);
+    assert.equal(consultationEnded({ createdAt, reviewedAt: new Date('2026-10-19T10:45:00Z') }, messages, config, new Date('2026-10-19T10:46:00Z')), true);
+  });
+});
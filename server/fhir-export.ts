@@ -0,0 +1,282 @@
+import crypto from "crypto";
+import { z } from "zod";
+import type { ClinicalSnapshot, Conversation, Message, Patient } from "@shared/schema";
+import { numberFromEnv } from "./llm-provider.js";
+import { formatTranscriptText, transcriptLanguage, transcriptTitle } from "./transcript-export.js";
+
+// Export of a consultation as a FHIR R4 Bundle for partner clinics' EHRs:
+//   Patient            the returning patient (or an anonymous one for the session)
+//   Encounter          the virtual consultation, with the reason for consultation; in progress
+//                      until the consultation has ended (see consultationEnded)
+//   Observation        one per completed questionnaire (PHQ-9, GAD-7 total scores, LOINC coded)
+//   Condition          the working diagnosis of the treatment plan, as provisional
+//   DocumentReference  the transcript as a plain-text attachment
+// Before it is served, the bundle goes through fhirBundleStructureSchema: a structural check of
+// the resources and fields used here. It is a hand-written subset of R4, not the official FHIR
+// schema, so it doesn't establish conformance.
+
+export interface FhirExportInput {
+  conversation: Conversation;
+  patient?: Patient;
+  messages: Message[];
+  // Live session state when available, else the snapshot saved with the conversation
+  state: ClinicalSnapshot | null;
+  diagnosis?: string | null;
+  // Finished Encounter with an end time; otherwise in progress
+  ended: boolean;
+}
+
+// Identifier systems for patient keys and session ids; clinics can set their own namespace
+export interface FhirConfig {
+  patientSystem: string;
+  sessionSystem: string;
+  // Minutes without messages after which a consultation counts as ended
+  encounterIdleMinutes: number;
+}
+
+export function loadFhirConfig(): FhirConfig {
+  return {
+    patientSystem: process.env.FHIR_PATIENT_SYSTEM || 'urn:psychological-agent:patient-key',
+    sessionSystem: process.env.FHIR_SESSION_SYSTEM || 'urn:psychological-agent:session-id',
+    encounterIdleMinutes: numberFromEnv('FHIR_ENCOUNTER_IDLE_MINUTES', 60),
+  };
+}
+
+// Consultations have no explicit end: one has ended once a clinician marked the case reviewed
+// or the patient has been silent for encounterIdleMinutes
+export function consultationEnded(
+  conversation: Pick<Conversation, 'createdAt' | 'reviewedAt'>,
+  messages: Pick<Message, 'timestamp'>[],
+  config: FhirConfig = loadFhirConfig(),
+  now: Date = new Date()
+): boolean {
+  if (conversation.reviewedAt) return true;
+  const lastActivity = messages.length > 0 ? messages[messages.length - 1].timestamp : conversation.createdAt;
+  return now.getTime() - lastActivity.getTime() >= config.encounterIdleMinutes * 60_000;
+}
+
+const LOINC = 'http://loinc.org';
+
+// LOINC codes for the questionnaire total scores
+const QUESTIONNAIRE_CODES: Record<string, { code: string; display: string }> = {
+  'PHQ-9': { code: '44261-6', display: 'Patient Health Questionnaire 9 item (PHQ-9) total score [Reported]' },
+  'GAD-7': { code: '70274-6', display: 'Generalized anxiety disorder 7 item (GAD-7) total score [Reported.PHQ]' },
+};
+
+// Structure of the FHIR R4 datatypes and resources the export produces (a subset, not the R4 schema)
+const dateTime = z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/, 'Invalid FHIR dateTime');
+const code = z.string().regex(/^[^\s]+(\s[^\s]+)*$/, 'Invalid FHIR code');
+const reference = z.object({ reference: z.string().regex(/^urn:uuid:[0-9a-f-]{36}$/, 'Invalid reference') });
+const coding = z.object({ system: z.string().url(), code, display: z.string().optional() });
+const codeableConcept = z.object({ coding: z.array(coding).optional(), text: z.string().optional() })
+  .refine(concept => concept.coding?.length || concept.text, 'CodeableConcept needs a coding or text');
+const identifier = z.object({ system: z.string().url(), value: z.string().min(1) });
+
+const patientResource = z.object({
+  resourceType: z.literal('Patient'),
+  identifier: z.array(identifier).min(1),
+  active: z.boolean().optional(),
+  name: z.array(z.object({ text: z.string().min(1) })).optional(),
+});
+
+const encounterResource = z.object({
+  resourceType: z.literal('Encounter'),
+  identifier: z.array(identifier).optional(),
+  status: z.enum(['planned', 'arrived', 'triaged', 'in-progress', 'onleave', 'finished', 'cancelled', 'entered-in-error', 'unknown']),
+  class: coding,
+  subject: reference,
+  period: z.object({ start: dateTime, end: dateTime.optional() }),
+  reasonCode: z.array(codeableConcept).optional(),
+  language: code.optional(),
+});
+
+const observationResource = z.object({
+  resourceType: z.literal('Observation'),
+  status: z.enum(['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown']),
+  category: z.array(codeableConcept).optional(),
+  code: codeableConcept,
+  subject: reference,
+  encounter: reference,
+  effectiveDateTime: dateTime,
+  valueInteger: z.number().int(),
+  interpretation: z.array(codeableConcept).optional(),
+  note: z.array(z.object({ text: z.string() })).optional(),
+});
+
+const conditionResource = z.object({
+  resourceType: z.literal('Condition'),
+  clinicalStatus: codeableConcept,
+  verificationStatus: codeableConcept,
+  category: z.array(codeableConcept),
+  code: codeableConcept,
+  subject: reference,
+  encounter: reference,
+  recordedDate: dateTime,
+});
+
+const documentReferenceResource = z.object({
+  resourceType: z.literal('DocumentReference'),
+  status: z.enum(['current', 'superseded', 'entered-in-error']),
+  type: codeableConcept,
+  subject: reference,
+  date: dateTime,
+  description: z.string().optional(),
+  content: z.array(z.object({
+    attachment: z.object({
+      contentType: code,
+      language: code.optional(),
+      data: z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, 'Attachment data must be base64'),
+      title: z.string().optional(),
+      creation: dateTime.optional(),
+    }),
+  })).min(1),
+  context: z.object({ encounter: z.array(reference).min(1), period: z.object({ start: dateTime, end: dateTime.optional() }) }),
+});
+
+const resource = z.discriminatedUnion('resourceType', [
+  patientResource,
+  encounterResource,
+  observationResource,
+  conditionResource,
+  documentReferenceResource,
+]);
+
+export const fhirBundleStructureSchema = z.object({
+  resourceType: z.literal('Bundle'),
+  type: z.literal('collection'),
+  timestamp: dateTime,
+  entry: z.array(z.object({
+    fullUrl: z.string().regex(/^urn:uuid:[0-9a-f-]{36}$/),
+    resource,
+  })),
+}).superRefine((bundle, ctx) => {
+  // Every reference must resolve inside the bundle
+  const urls = new Set(bundle.entry.map(entry => entry.fullUrl));
+  JSON.stringify(bundle, (key, value) => {
+    if (key === 'reference' && typeof value === 'string' && !urls.has(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unresolved reference ${value}` });
+    }
+    return value;
+  });
+});
+
+export type FhirBundle = z.infer<typeof fhirBundleStructureSchema>;
+type FhirResource = z.infer<typeof resource>;
+
+function uuid(): string {
+  return `urn:uuid:${crypto.randomUUID()}`;
+}
+
+export function buildFhirBundle(input: FhirExportInput, config: FhirConfig = loadFhirConfig()): FhirBundle {
+  const { conversation, patient, messages, state } = input;
+  const language = transcriptLanguage(conversation);
+  const start = conversation.createdAt.toISOString();
+  const last = messages.length > 0 ? messages[messages.length - 1].timestamp.toISOString() : undefined;
+  // An Encounter in progress has no end yet
+  const end = input.ended ? last ?? start : undefined;
+  const entries: { fullUrl: string; resource: FhirResource }[] = [];
+
+  const patientUrl = uuid();
+  entries.push({
+    fullUrl: patientUrl,
+    resource: {
+      resourceType: 'Patient',
+      identifier: patient
+        ? [{ system: config.patientSystem, value: patient.patientKey }]
+        : [{ system: config.sessionSystem, value: conversation.sessionId }],
+      active: true,
+      name: patient?.displayName ? [{ text: patient.displayName }] : undefined,
+    },
+  });
+  const subject = { reference: patientUrl };
+
+  const encounterUrl = uuid();
+  entries.push({
+    fullUrl: encounterUrl,
+    resource: {
+      resourceType: 'Encounter',
+      identifier: [{ system: config.sessionSystem, value: conversation.sessionId }],
+      status: input.ended ? 'finished' : 'in-progress',
+      class: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'VR', display: 'virtual' },
+      subject,
+      period: { start, end },
+      reasonCode: state?.chiefComplaint ? [{ text: state.chiefComplaint }] : undefined,
+      language,
+    },
+  });
+  const encounter = { reference: encounterUrl };
+
+  (state?.questionnaires ?? []).forEach(result => {
+    const loinc = QUESTIONNAIRE_CODES[result.name];
+    entries.push({
+      fullUrl: uuid(),
+      resource: {
+        resourceType: 'Observation',
+        status: 'final',
+        category: [{
+          coding: [{ system: 'http://terminology.hl7.org/CodeSystem/observation-category', code: 'survey', display: 'Survey' }],
+        }],
+        code: loinc ? { coding: [{ system: LOINC, ...loinc }], text: result.name } : { text: result.name },
+        subject,
+        encounter,
+        effectiveDateTime: new Date(result.completedAt).toISOString(),
+        valueInteger: result.total,
+        interpretation: [{ text: result.severity }],
+        note: [{ text: `${result.total}/${result.maxScore}` }],
+      },
+    });
+  });
+
+  if (input.diagnosis) {
+    entries.push({
+      fullUrl: uuid(),
+      resource: {
+        resourceType: 'Condition',
+        clinicalStatus: {
+          coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: 'active' }],
+        },
+        // Working diagnosis drafted during the consultation, pending clinician confirmation
+        verificationStatus: {
+          coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status', code: 'provisional' }],
+        },
+        category: [{
+          coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-category', code: 'encounter-diagnosis' }],
+        }],
+        code: { text: input.diagnosis },
+        subject,
+        encounter,
+        recordedDate: (state?.updatedAt ? new Date(state.updatedAt) : conversation.createdAt).toISOString(),
+      },
+    });
+  }
+
+  const title = transcriptTitle(language);
+  entries.push({
+    fullUrl: uuid(),
+    resource: {
+      resourceType: 'DocumentReference',
+      status: 'current',
+      type: { coding: [{ system: LOINC, code: '11488-4', display: 'Consult note' }], text: title },
+      subject,
+      date: last ?? start,
+      description: title,
+      content: [{
+        attachment: {
+          contentType: 'text/plain; charset=utf-8',
+          language,
+          data: Buffer.from(formatTranscriptText(messages, language), 'utf-8').toString('base64'),
+          title,
+          creation: last ?? start,
+        },
+      }],
+      context: { encounter: [encounter], period: { start, end } },
+    },
+  });
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: entries,
+  };
+}
@@ -0,0 +1,175 @@
+import fs from "fs";
+import path from "path";
+import type { KnowledgeCitation } from "@shared/schema";
+import type { ConsultationLanguage } from "./languages.js";
+
+// Vetted psychoeducation material (CBT exercises, breathing and grounding techniques, crisis
+// resources) kept as short markdown documents in knowledge/. The documents most relevant to the
+// patient's message are ranked with BM25 and given to the agent, which cites them in the stored
+// reply metadata.
+//
+// File format:
+//   ---
+//   id: respiracion-diafragmatica
+//   title: Respiración diafragmática
+//   language: es
+//   ---
+//   Markdown body
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  language: string;
+  text: string;
+}
+
+export interface KnowledgeMatch {
+  document: KnowledgeDocument;
+  score: number;
+}
+
+export interface KnowledgeSearchOptions {
+  language?: ConsultationLanguage;
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 3;
+// Matches below this score, or well below the best match, share only incidental words with the query
+const MIN_SCORE = 2.5;
+const MIN_RELATIVE_SCORE = 0.5;
+// BM25 parameters (usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  // es
+  'que', 'los', 'las', 'del', 'por', 'para', 'con', 'una', 'uno', 'unos', 'unas', 'como', 'mas', 'pero',
+  'sus', 'este', 'esta', 'esto', 'ese', 'esa', 'eso', 'muy', 'sin', 'sobre', 'tambien', 'hay', 'son',
+  'ser', 'estar', 'estoy', 'tengo', 'tiene', 'cuando', 'donde', 'porque', 'todo', 'todos',
+  'nada', 'algo', 'mucho', 'poco', 'ella', 'ellos', 'nos', 'les', 'mis', 'tus', 'aqui', 'asi', 'hace',
+  'puedo', 'puede', 'siento', 'cada', 'entre', 'desde', 'hasta', 'hola', 'buenos', 'buenas', 'dia', 'dias',
+  'gracias',
+  // en
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'have', 'has', 'was',
+  'were', 'what', 'when', 'where', 'how', 'can', 'all', 'any', 'from', 'they', 'them', 'just', 'about',
+  'into', 'than', 'then', 'there', 'been', 'being', 'feel', 'very', 'really', 'some', 'much', 'its',
+  'hello', 'good', 'morning', 'thanks', 'thank', 'keep',
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 2 && !STOPWORDS.has(token));
+}
+
+interface IndexedDocument {
+  document: KnowledgeDocument;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export class KnowledgeBase {
+  private indexed: IndexedDocument[];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(documents: KnowledgeDocument[]) {
+    this.indexed = documents.map(document => {
+      const tokens = tokenize(`${document.title} ${document.text}`);
+      const termFrequencies = new Map<string, number>();
+      tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1));
+      termFrequencies.forEach((_, token) => {
+        this.documentFrequencies.set(token, (this.documentFrequencies.get(token) ?? 0) + 1);
+      });
+      return { document, termFrequencies, length: tokens.length };
+    });
+    this.averageLength = this.indexed.reduce((sum, item) => sum + item.length, 0) / (this.indexed.length || 1);
+  }
+
+  get size(): number {
+    return this.indexed.length;
+  }
+
+  // Best documents for the query in the consultation language
+  search(query: string, options: KnowledgeSearchOptions = {}): KnowledgeMatch[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    const total = this.indexed.length;
+    const matches: KnowledgeMatch[] = [];
+
+    for (const item of this.indexed) {
+      if (options.language && item.document.language !== options.language) continue;
+
+      let score = 0;
+      for (const term of terms) {
+        const frequency = item.termFrequencies.get(term);
+        if (!frequency) continue;
+        const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * item.length / this.averageLength));
+      }
+
+      if (score >= MIN_SCORE) matches.push({ document: item.document, score });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return matches
+      .filter(match => match.score >= matches[0].score * MIN_RELATIVE_SCORE)
+      .slice(0, options.limit ?? DEFAULT_LIMIT);
+  }
+}
+
+export function parseKnowledgeDocument(source: string, fallbackId: string): KnowledgeDocument {
+  const frontMatter = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  const fields: Record<string, string> = {};
+  frontMatter?.[1].split(/\r?\n/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  });
+
+  const id = fields.id || fallbackId;
+  return {
+    id,
+    title: fields.title || id,
+    language: fields.language || 'es',
+    text: (frontMatter ? source.slice(frontMatter[0].length) : source).trim(),
+  };
+}
+
+// Reads every .md file in KNOWLEDGE_DIR (default ./knowledge); a missing folder means an empty
+// knowledge base and the agent answers without retrieved material
+export function loadKnowledgeBase(dir = process.env.KNOWLEDGE_DIR || path.resolve(process.cwd(), "knowledge")): KnowledgeBase {
+  if (!fs.existsSync(dir)) {
+    console.warn(`📚 Knowledge base folder not found (${dir}); answering without retrieved material`);
+    return new KnowledgeBase([]);
+  }
+
+  const documents = fs.readdirSync(dir)
+    .filter(file => file.endsWith('.md'))
+    .sort()
+    .map(file => parseKnowledgeDocument(fs.readFileSync(path.join(dir, file), 'utf-8'), path.basename(file, '.md')));
+
+  const knowledgeBase = new KnowledgeBase(documents);
+  console.log(`📚 Knowledge base: ${knowledgeBase.size} documents loaded from ${dir}`);
+  return knowledgeBase;
+}
+
+export function toCitation(match: KnowledgeMatch): KnowledgeCitation {
+  return { id: match.document.id, title: match.document.title };
+}
+
+const KNOWLEDGE_HEADERS: Record<ConsultationLanguage, string> = {
+  es: 'MATERIAL PSICOEDUCATIVO VALIDADO (usa estas técnicas tal como están descritas cuando sean pertinentes, en lugar de improvisar otras; adáptalas a un lenguaje conversacional):',
+  en: 'VETTED PSYCHOEDUCATION MATERIAL (use these techniques as described when relevant instead of improvising others; adapt them to conversational language):',
+};
+
+export function formatKnowledgeSection(matches: KnowledgeMatch[], language: ConsultationLanguage): string | null {
+  if (matches.length === 0) return null;
+
+  const entries = matches.map(({ document }) => `[${document.id}] ${document.title}\n${document.text}`);
+  return `${KNOWLEDGE_HEADERS[language]}\n\n${entries.join('\n\n')}`;
+}
@@ -0,0 +1,50 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectLanguage, utteranceLanguage } from "./languages.js";
+import { PsychologicalAgent } from "./psychological-agent.js";
+import { MemStorage } from "./storage.js";
+import { ScriptedChatModel } from "./scripted-chat-model.js";
+
+describe('detectLanguage', () => {
+  it('recognises typed Spanish and English', () => {
+    assert.equal(detectLanguage('Me siento muy mal con mi trabajo'), 'es');
+    assert.equal(detectLanguage('Últimamente duermo poco'), 'es');
+    assert.equal(detectLanguage('I feel really tired at work'), 'en');
+  });
+
+  it('does not take Spanish with shared words for English', () => {
+    assert.notEqual(detectLanguage('Quiero ir a trabajar'), 'en');
+    assert.notEqual(detectLanguage('Voy a casa'), 'en');
+    assert.notEqual(detectLanguage('He pensado mucho'), 'en');
+  });
+
+  it('returns null when there is too little evidence', () => {
+    assert.equal(detectLanguage('ok'), null);
+    assert.equal(detectLanguage('Hola'), null);
+    assert.equal(detectLanguage('so'), null);
+  });
+
+  it('prefers the language reported by the STT provider', () => {
+    assert.deepEqual(utteranceLanguage('Quiero ir a trabajar', 'en'), { language: 'en', source: 'stt' });
+    assert.equal(utteranceLanguage('Quiero ir a trabajar', null), null);
+  });
+});
+
+describe('reply language of an unpinned session', () => {
+  it('stays Spanish for typed Spanish with words shared with English', async () => {
+    const storage = new MemStorage();
+    await storage.createConversation({ sessionId: 's1', language: 'es' });
+    const agent = new PsychologicalAgent(storage, {
+      name: 'mock',
+      model: 'scripted',
+      chat: new ScriptedChatModel({ script: { fallback: 'Entiendo.' } }),
+      isConfigured: () => true,
+    });
+
+    const text = 'Quiero ir a trabajar';
+    const reply = await agent.processMessage('s1', text, { language: detectLanguage(text) ?? undefined });
+    await agent.waitForExtraction('s1');
+
+    assert.equal(reply.language, 'es');
+  });
+});
@@ -0,0 +1,82 @@
+// Consultation languages: each conversation runs in one of them end to end (STT hint, prompt,
+// scripted replies, persona voice)
+
+export const CONSULTATION_LANGUAGES = ['es', 'en'] as const;
+
+export type ConsultationLanguage = typeof CONSULTATION_LANGUAGES[number];
+
+// Whisper's verbose_json reports the language by name ("spanish"), browsers send BCP 47 tags ("en-US")
+const LANGUAGE_ALIASES: Record<string, ConsultationLanguage> = {
+  spanish: 'es',
+  espanol: 'es',
+  english: 'en',
+  ingles: 'en',
+};
+
+export function isConsultationLanguage(value: unknown): value is ConsultationLanguage {
+  return typeof value === 'string' && (CONSULTATION_LANGUAGES as readonly string[]).includes(value);
+}
+
+// Maps a language code, tag or name to a consultation language, or null when unsupported
+export function normalizeLanguage(value?: string | null): ConsultationLanguage | null {
+  if (!value) return null;
+  const normalized = value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+  const code = normalized.split(/[-_]/)[0];
+  if (isConsultationLanguage(code)) return code;
+  return LANGUAGE_ALIASES[normalized] ?? null;
+}
+
+// DEFAULT_LANGUAGE applies to conversations that don't ask for a language or persona
+export function defaultLanguage(): ConsultationLanguage {
+  return normalizeLanguage(process.env.DEFAULT_LANGUAGE) ?? 'es';
+}
+
+// Frequent function words per language; words used in both ("no", "me", "a", "he") are left out
+const STOPWORDS: Record<ConsultationLanguage, Set<string>> = {
+  es: new Set([
+    'el', 'la', 'los', 'las', 'de', 'del', 'que', 'y', 'en', 'un', 'una', 'es', 'mi', 'yo', 'por', 'con',
+    'para', 'pero', 'muy', 'como', 'estoy', 'siento', 'tengo', 'se', 'lo', 'te', 'su', 'al', 'mas', 'hola',
+    'gracias', 'si', 'bien', 'cuando', 'porque', 'tambien', 'todo', 'nada', 'ha', 'esta', 'eso', 'ya',
+  ]),
+  en: new Set([
+    'the', 'an', 'and', 'of', 'to', 'in', 'is', 'it', 'i', 'my', 'you', 'that', 'this', 'for', 'with',
+    'but', 'not', 'very', 'am', 'feel', 'have', 'was', 'be', 'are', 'do', 'don', 'so', 'just', 'what', 'when',
+    'because', 'hello', 'hi', 'thanks', 'thank', 'yes', 'well', 'at', 'can', 'really', 've', 'been', 'about',
+  ]),
+};
+
+// Accents, ñ and inverted punctuation only occur in Spanish
+const SPANISH_MARKS = /[ñáéíóú¿¡]/i;
+
+// Points one language must lead by; a single stray word never switches the reply language
+const MIN_SCORE_MARGIN = 2;
+
+// Local fallback for typed messages (STT reports the language of spoken ones). Returns null
+// when the text is too short or mixed to tell.
+export function detectLanguage(text: string): ConsultationLanguage | null {
+  const words = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/[^a-z]+/).filter(Boolean);
+  const score = { es: SPANISH_MARKS.test(text) ? 2 : 0, en: 0 };
+  for (let i = 0; i < words.length; i++) {
+    if (STOPWORDS.es.has(words[i])) score.es++;
+    if (STOPWORDS.en.has(words[i])) score.en++;
+  }
+
+  const [best, other]: ConsultationLanguage[] = score.es >= score.en ? ['es', 'en'] : ['en', 'es'];
+  return score[best] - score[other] >= MIN_SCORE_MARGIN ? best : null;
+}
+
+export type LanguageSource = 'stt' | 'detector';
+
+export interface UtteranceLanguage {
+  language: ConsultationLanguage;
+  source: LanguageSource;
+}
+
+// Language of one patient message: the STT provider's detection when it reported a supported
+// language, else the local detector
+export function utteranceLanguage(text: string, sttLanguage?: string | null): UtteranceLanguage | null {
+  const reported = normalizeLanguage(sttLanguage);
+  if (reported) return { language: reported, source: 'stt' };
+  const detected = detectLanguage(text);
+  return detected ? { language: detected, source: 'detector' } : null;
+}
@@ -0,0 +1,108 @@
+import { ChatGroq } from "@langchain/groq";
+import { ChatOpenAI } from "@langchain/openai";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import fs from "fs";
+import { ScriptedChatModel, type ChatScript } from "./scripted-chat-model.js";
+
+export type LLMProviderName = 'groq' | 'openai-compatible' | 'mock';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  apiKey?: string;
+  baseUrl?: string;
+  scriptPath?: string;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  chat: BaseChatModel;
+  // Whether credentials/endpoint are present; routes answer 500 when false
+  isConfigured(): boolean;
+}
+
+// Per-provider defaults, each overridable with <PREFIX>_MODEL, <PREFIX>_TEMPERATURE and <PREFIX>_MAX_TOKENS
+const PROVIDER_DEFAULTS: Record<LLMProviderName, { envPrefix: string; model: string; temperature: number; maxTokens: number }> = {
+  'groq': { envPrefix: 'GROQ', model: 'llama-3.3-70b-versatile', temperature: 0.3, maxTokens: 150 },
+  'openai-compatible': { envPrefix: 'OPENAI_COMPAT', model: 'local-model', temperature: 0.3, maxTokens: 150 },
+  'mock': { envPrefix: 'MOCK_LLM', model: 'scripted', temperature: 0, maxTokens: 150 },
+};
+
+export function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (Number.isNaN(value)) {
+    throw new Error(`${name} must be a number, got "${raw}"`);
+  }
+  return value;
+}
+
+// LLM_PROVIDER selects the backend (groq by default)
+export function loadLLMConfig(): LLMProviderConfig {
+  const provider = (process.env.LLM_PROVIDER || 'groq').toLowerCase() as LLMProviderName;
+  const defaults = PROVIDER_DEFAULTS[provider];
+  if (!defaults) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}" (expected ${Object.keys(PROVIDER_DEFAULTS).join(', ')})`);
+  }
+
+  const prefix = defaults.envPrefix;
+  return {
+    provider,
+    model: process.env[`${prefix}_MODEL`] || defaults.model,
+    temperature: numberFromEnv(`${prefix}_TEMPERATURE`, defaults.temperature),
+    maxTokens: numberFromEnv(`${prefix}_MAX_TOKENS`, defaults.maxTokens),
+    apiKey: provider === 'groq'
+      ? process.env.GROQ_API_KEY || process.env.GROQ_API_KEY_ENV_VAR
+      : process.env[`${prefix}_API_KEY`],
+    baseUrl: process.env[`${prefix}_BASE_URL`],
+    scriptPath: process.env.MOCK_LLM_SCRIPT,
+  };
+}
+
+export function createLLMProvider(config: LLMProviderConfig = loadLLMConfig()): LLMProvider {
+  switch (config.provider) {
+    case 'groq':
+      return {
+        name: 'groq',
+        model: config.model,
+        chat: new ChatGroq({
+          apiKey: config.apiKey,
+          model: config.model,
+          temperature: config.temperature,
+          maxTokens: config.maxTokens,
+        }),
+        isConfigured: () => Boolean(config.apiKey),
+      };
+
+    case 'openai-compatible':
+      // Works with OpenAI itself or any server exposing /v1/chat/completions (llama.cpp, Ollama, vLLM...)
+      return {
+        name: 'openai-compatible',
+        model: config.model,
+        chat: new ChatOpenAI({
+          apiKey: config.apiKey || 'not-needed',
+          model: config.model,
+          temperature: config.temperature,
+          maxTokens: config.maxTokens,
+          configuration: config.baseUrl ? { baseURL: config.baseUrl } : undefined,
+        }),
+        isConfigured: () => Boolean(config.baseUrl || config.apiKey),
+      };
+
+    case 'mock': {
+      const script: ChatScript | undefined = config.scriptPath
+        ? JSON.parse(fs.readFileSync(config.scriptPath, 'utf-8'))
+        : undefined;
+      return {
+        name: 'mock',
+        model: config.model,
+        chat: new ScriptedChatModel({ script }),
+        isConfigured: () => true,
+      };
+    }
+  }
+}
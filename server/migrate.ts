@@ -0,0 +1,18 @@
+// Apply pending database migrations (npm run db:migrate)
+import dotenv from 'dotenv';
+import { getDb, runMigrations, closeDb } from './db.js';
+
+dotenv.config();
+
+async function migrateDatabase() {
+  try {
+    await runMigrations(getDb());
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closeDb();
+  }
+}
+
+migrateDatabase();
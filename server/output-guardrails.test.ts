@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OutputGuardrails, type GuardrailContext } from "./output-guardrails.js";
+import { DEFAULT_CRISIS_RESOURCES, SafetyProtocol } from "./safety-protocol.js";
+import { MemStorage } from "./storage.js";
+
+const guardrails = new OutputGuardrails({ maxWords: 60, maxRegenerations: 1 });
+const crisisNumbers = new SafetyProtocol(new MemStorage(), {
+  defaultCountry: 'CO',
+  resources: DEFAULT_CRISIS_RESOURCES,
+}).crisisNumbers();
+
+const context = (patientText = '', overrides: Partial<GuardrailContext> = {}): GuardrailContext => ({
+  language: 'es',
+  phase: 'assessment',
+  patientText,
+  protectedValues: crisisNumbers,
+  ...overrides,
+});
+
+const noRegeneration = async () => assert.fail('unexpected regeneration');
+
+describe('medication rule', () => {
+  const flagged = (text: string) => guardrails.contentViolations(text, context()).includes('medication');
+
+  it('flags drug names, doses and advice to take a drug class', () => {
+    assert.ok(flagged('Podrías probar con sertralina.'));
+    assert.ok(flagged('Lo habitual son 50 mg al día.'));
+    assert.ok(flagged('Deberías tomar un ansiolítico antes de dormir.'));
+    assert.ok(flagged('Toma unas pastillas para dormir.'));
+    assert.ok(flagged('You should take your sleeping pills earlier.'));
+  });
+
+  it('does not flag "take" followed by something else in the sentence', () => {
+    assert.ok(!flagged('Toma un momento para respirar y luego cuéntame qué pasó con las pastillas.'));
+    assert.ok(!flagged('Tomar distancia ayuda; los medicamentos conviene hablarlos con tu psiquiatra.'));
+    assert.ok(!flagged('Take a moment before we talk about the pills your doctor mentioned.'));
+    assert.ok(!flagged('Habla con tu psiquiatra sobre los antidepresivos.'));
+  });
+});
+
+describe('PII redaction', () => {
+  it('redacts personal data repeated from the patient, whatever its formatting', async () => {
+    const patient = 'Mi número es 300 123 4567 y mi correo Ana.Ruiz@example.com';
+    const reply = await guardrails.enforce(
+      'Anoto el +57 3001234567 y ana.ruiz@example.com. ¿Cómo has dormido?', context(patient), noRegeneration);
+    assert.equal(reply.text, 'Anoto el ese dato y ese dato. ¿Cómo has dormido?');
+    assert.deepEqual(reply.violations.map(v => v.rule), ['pii', 'pii']);
+  });
+
+  it('keeps crisis lines, tool results and dates the patient did not write', async () => {
+    const text = 'Puedes llamar a la Línea de la Vida, 800 911 2000, o al 1-800-273-8255. Tu cita es el 2026-10-20.';
+    const reply = await guardrails.enforce(text, context('Mañana me viene bien'), noRegeneration);
+    assert.equal(reply.text, text);
+    assert.deepEqual(reply.violations, []);
+  });
+
+  it('keeps crisis lines and dates even when the patient wrote them', async () => {
+    const patient = 'Ya llamé al 800 911 2000. ¿Me cambias la cita al 20-10-2026?';
+    const text = 'Bien hecho al llamar al 800 911 2000. Queda para el 20-10-2026.';
+    const reply = await guardrails.enforce(text, context(patient), noRegeneration);
+    assert.equal(reply.text, text);
+  });
+});
+
+describe('StreamGuard', () => {
+  it('drops an offending sentence before it is sent and redacts the rest', () => {
+    const guard = guardrails.createStreamGuard(context('Vivo en la calle 12, teléfono 3001234567'));
+    assert.equal(guard.push('Entiendo cómo te sientes.'), 'Entiendo cómo te sientes.');
+    assert.equal(guard.push('Podrías tomar 20 mg de fluoxetina.'), null);
+    assert.equal(guard.push('Te llamaré al 3001234567.'), 'Te llamaré al ese dato.');
+    assert.equal(guard.result().text, 'Entiendo cómo te sientes. Te llamaré al ese dato.');
+    assert.deepEqual(guard.result().violations.map(v => `${v.rule}:${v.action}`), ['medication:removed', 'pii:rewritten']);
+  });
+
+  it('cuts an over-long first sentence to the word budget and stops', () => {
+    const guard = new OutputGuardrails({ maxWords: 5, maxRegenerations: 1 }).createStreamGuard(context());
+    assert.equal(guard.push('Entiendo que esta semana ha sido muy difícil para ti.'), 'Entiendo que esta semana ha…');
+    assert.ok(guard.done);
+    assert.equal(guard.push('¿Quieres contarme más?'), null);
+    assert.equal(guard.result().text, 'Entiendo que esta semana ha…');
+    assert.deepEqual(guard.result().violations.map(v => `${v.rule}:${v.action}`), ['length:rewritten']);
+  });
+});
@@ -0,0 +1,301 @@
+import type { GuardrailRule, GuardrailViolation } from "@shared/schema";
+import { numberFromEnv } from "./llm-provider.js";
+import { SentenceSplitter } from "./sentence-splitter.js";
+import type { ConsultationLanguage } from "./languages.js";
+import type { TherapyPhase } from "./therapy-phases.js";
+
+// Post-generation checks on LLM replies, enforcing the rules the system prompt already states,
+// before the reply is stored and spoken:
+//   medication           no drug names, doses or "take X" advice          -> regenerate
+//   premature_diagnosis  no diagnosis claims before the diagnosis phase  -> regenerate
+//   pii                  no phone numbers, emails or ID numbers the       -> rewrite (redacted)
+//                        patient shared (crisis lines and tool results such as booking dates stay)
+//   length               about 50 words for voice                         -> rewrite (truncated)
+// A reply that still breaks a regenerate rule after the retries loses the offending sentences,
+// or is replaced by a neutral follow-up question if nothing is left.
+
+export interface GuardrailConfig {
+  // The prompt asks for 50 words; replies are only cut beyond this
+  maxWords: number;
+  maxRegenerations: number;
+}
+
+export function loadGuardrailConfig(): GuardrailConfig {
+  return {
+    maxWords: numberFromEnv('GUARDRAIL_MAX_WORDS', 60),
+    maxRegenerations: numberFromEnv('GUARDRAIL_MAX_REGENERATIONS', 1),
+  };
+}
+
+export interface GuardrailContext {
+  language: ConsultationLanguage;
+  phase: TherapyPhase;
+  // The patient's messages in the prompt: only personal data repeated from them is redacted
+  patientText?: string;
+  // Never redacted: the configured crisis hotlines and emergency numbers
+  protectedValues?: string[];
+}
+
+export interface GuardedReply {
+  text: string;
+  violations: GuardrailViolation[];
+}
+
+// Produces a new reply given the corrective instruction for the previous one
+export type Regenerate = (instruction: string) => Promise<string>;
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+const MEDICATION_NAMES = /\b(sertralin[ae]|fluoxetin[ae]|paroxetin[ae]|escitalopram|citalopram|venlafaxin[ae]|duloxetin[ae]|bupropion|mirtazapin[ae]|trazodon[ae]|amitriptilin[ae]|amitriptyline|alprazolam|clonazepam|lorazepam|diazepam|zolpidem|quetiapin[ae]|olanzapin[ae]|risperidon[ae]|aripiprazol[e]?|litio|lithium|lamotrigin[ae]|valproato|valproate|metilfenidato|methylphenidate|melatonin[ae]?|xanax|prozac|zoloft|rivotril|valium)\b/;
+const MEDICATION_DOSE = /\b\d+(?:[.,]\d+)?\s?(mg|mcg|miligramos?|milligrams?|ml|gotas|drops|pastillas?|pills?|tabletas?|tablets?)\b/;
+// Drug classes are fine to mention ("talk to your psychiatrist about antidepressants"), not to advise:
+// advice is a "take" verb whose object, a couple of words on in the same clause, is a drug class or
+// a dose ("toma un ansiolítico", "you should take 2 pills"; not "toma un momento ... las pastillas")
+const MEDICATION_ADVICE = /\b(toma|tomar|tomes|tomate|empieza a tomar|te receto|te recomiendo tomar|deberias tomar|take|start taking|try taking|i prescribe|you should take)\s+(?:[a-z]+\s+){0,2}(?:\d+(?:[.,]\d+)?\s?)?(antidepresivos?|ansioliticos?|benzodiacepinas?|somniferos?|pastillas?|medicamentos?|isrs|antidepressants?|anxiolytics?|benzodiazepines?|sleeping pills?|pills?|medications?|ssris?)\b/;
+
+const DIAGNOSIS_TERMS = '(trastorno|depresion|distimia|ansiedad generalizada|fobia|tept|toc|bipolar|esquizofrenia|tdah|sindrome|disorder|depression|dysthymia|generalized anxiety|phobia|ptsd|ocd|schizophrenia|adhd|syndrome)';
+const DIAGNOSIS_CLAIM = new RegExp(
+  '\\b(tienes|padeces|sufres de|presentas|tu diagnostico es|te diagnostico|se trata de|you have|you suffer from|you are suffering from|you\'ve got|your diagnosis is|i diagnose you with|you are dealing with)'
+  + `\\s+(?:\\w+\\s+){0,3}?${DIAGNOSIS_TERMS}\\b`
+);
+// Phases in which a diagnosis may be discussed
+const DIAGNOSIS_PHASES: TherapyPhase[] = ['diagnosis', 'treatment', 'followup'];
+
+const PII_PATTERNS = [
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,    // email
+  /\+?\d(?:[\s.-]?\d){5,}/g,          // phone numbers and ID numbers (6+ digits)
+];
+const DATE_LIKE = /^\d{1,4}[-./]\d{1,2}[-./]\d{1,4}$/;
+
+// Compared without formatting: "300 123 4567" and "+57 3001234567" are the same number
+function piiKey(value: string): string {
+  return value.includes('@') ? value.toLowerCase() : value.replace(/\D/g, '');
+}
+
+// A full number also matches itself with a country prefix
+const MIN_SUFFIX_DIGITS = 7;
+
+function sameValue(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (a.includes('@') || b.includes('@') || Math.min(a.length, b.length) < MIN_SUFFIX_DIGITS) return false;
+  return a.endsWith(b) || b.endsWith(a);
+}
+
+// Personal data the patient wrote, minus dates and the numbers that must stay readable
+function patientValues(context: GuardrailContext): string[] {
+  if (!context.patientText) return [];
+  const protectedKeys = (context.protectedValues ?? []).map(piiKey).filter(Boolean);
+  return PII_PATTERNS
+    .flatMap(pattern => Array.from(context.patientText!.matchAll(pattern), match => match[0].trim()))
+    .filter(value => !DATE_LIKE.test(value))
+    .map(piiKey)
+    .filter(key => !protectedKeys.some(protectedKey => sameValue(key, protectedKey)));
+}
+
+const REDACTION: Record<ConsultationLanguage, string> = {
+  es: 'ese dato',
+  en: 'that detail',
+};
+
+const FALLBACK_REPLY: Record<ConsultationLanguage, string> = {
+  es: 'Entiendo. ¿Puedes contarme un poco más sobre cómo te has sentido?',
+  en: 'I understand. Can you tell me a bit more about how you have been feeling?',
+};
+
+const RULE_INSTRUCTIONS: Record<ConsultationLanguage, Partial<Record<GuardrailRule, string>>> = {
+  es: {
+    medication: 'No menciones medicamentos concretos, dosis ni recomiendes tomar ninguna medicación; si procede, sugiere consultarlo con un psiquiatra o médico.',
+    premature_diagnosis: 'No afirmes ningún diagnóstico todavía: la evaluación no ha terminado. Sigue explorando con una pregunta.',
+  },
+  en: {
+    medication: 'Do not mention specific medications or doses, or recommend taking any medication; if relevant, suggest discussing it with a psychiatrist or doctor.',
+    premature_diagnosis: 'Do not state any diagnosis yet: the assessment is not finished. Keep exploring with a question.',
+  },
+};
+
+const REGENERATION_HEADERS: Record<ConsultationLanguage, string> = {
+  es: 'CORRECCIÓN: tu respuesta anterior incumplía las directrices. Vuelve a responder al último mensaje del paciente cumpliendo esto:',
+  en: 'CORRECTION: your previous reply broke the guidelines. Answer the patient\'s last message again following this:',
+};
+
+// Rules whose violation needs a new reply rather than an edit
+function sentenceViolations(sentence: string, context: GuardrailContext): GuardrailRule[] {
+  const text = normalize(sentence);
+  const rules: GuardrailRule[] = [];
+  if (MEDICATION_NAMES.test(text) || MEDICATION_DOSE.test(text) || MEDICATION_ADVICE.test(text)) {
+    rules.push('medication');
+  }
+  if (!DIAGNOSIS_PHASES.includes(context.phase) && DIAGNOSIS_CLAIM.test(text)) {
+    rules.push('premature_diagnosis');
+  }
+  return rules;
+}
+
+function splitSentences(text: string): string[] {
+  const splitter = new SentenceSplitter();
+  return [...splitter.push(text), splitter.flush()].filter((s): s is string => Boolean(s));
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export class OutputGuardrails {
+  constructor(private config: GuardrailConfig = loadGuardrailConfig()) {}
+
+  // Full-reply check (non-streaming path): regenerates on content violations, then redacts and
+  // truncates
+  async enforce(text: string, context: GuardrailContext, regenerate: Regenerate): Promise<GuardedReply> {
+    const violations: GuardrailViolation[] = [];
+    let reply = text;
+
+    for (let attempt = 0; attempt < this.config.maxRegenerations; attempt++) {
+      const rules = this.contentViolations(reply, context);
+      if (rules.length === 0) break;
+
+      rules.forEach(rule => violations.push({ rule, action: 'regenerated' }));
+      reply = await regenerate(this.regenerationInstruction(rules, context.language));
+    }
+
+    const sentences = splitSentences(reply);
+    const kept: string[] = [];
+    sentences.forEach(sentence => {
+      const rules = sentenceViolations(sentence, context);
+      if (rules.length === 0) {
+        kept.push(sentence);
+      } else {
+        rules.forEach(rule => violations.push({ rule, action: 'removed', detail: sentence }));
+      }
+    });
+
+    if (kept.length === 0 && violations.length > 0) {
+      violations.push({ rule: violations[violations.length - 1].rule, action: 'fallback' });
+      return this.logged({ text: FALLBACK_REPLY[context.language], violations });
+    }
+
+    const redacted = this.redact(kept.length === sentences.length ? reply : kept.join(' '), context, violations);
+    return this.logged({ text: this.truncate(redacted, violations), violations });
+  }
+
+  // Sentence-by-sentence guard for streamed replies: earlier sentences have already been spoken,
+  // so offending sentences are dropped instead of regenerating the reply
+  createStreamGuard(context: GuardrailContext): StreamGuard {
+    return new StreamGuard(this, context, this.config.maxWords);
+  }
+
+  contentViolations(text: string, context: GuardrailContext): GuardrailRule[] {
+    const rules = new Set<GuardrailRule>();
+    splitSentences(text).forEach(sentence => sentenceViolations(sentence, context).forEach(rule => rules.add(rule)));
+    return Array.from(rules);
+  }
+
+  regenerationInstruction(rules: GuardrailRule[], language: ConsultationLanguage): string {
+    const lines = rules.map(rule => `- ${RULE_INSTRUCTIONS[language][rule]}`);
+    return `${REGENERATION_HEADERS[language]}\n${lines.join('\n')}`;
+  }
+
+  redact(text: string, context: GuardrailContext, violations: GuardrailViolation[]): string {
+    const values = patientValues(context);
+    if (values.length === 0) return text;
+
+    let redacted = text;
+    PII_PATTERNS.forEach(pattern => {
+      redacted = redacted.replace(pattern, match => {
+        const key = piiKey(match.trim());
+        if (!values.some(value => sameValue(key, value))) return match;
+        violations.push({ rule: 'pii', action: 'rewritten' });
+        return REDACTION[context.language];
+      });
+    });
+    return redacted;
+  }
+
+  // Keeps whole sentences up to the word limit; a single over-long sentence is cut
+  private truncate(text: string, violations: GuardrailViolation[]): string {
+    if (countWords(text) <= this.config.maxWords) return text;
+
+    const kept: string[] = [];
+    let words = 0;
+    for (const sentence of splitSentences(text)) {
+      const count = countWords(sentence);
+      if (words + count > this.config.maxWords) break;
+      kept.push(sentence);
+      words += count;
+    }
+
+    violations.push({ rule: 'length', action: 'rewritten', detail: `${countWords(text)} words` });
+    return kept.length > 0
+      ? kept.join(' ')
+      : `${text.split(/\s+/).slice(0, this.config.maxWords).join(' ')}…`;
+  }
+
+  fallbackReply(language: ConsultationLanguage): string {
+    return FALLBACK_REPLY[language];
+  }
+
+  logged(reply: GuardedReply): GuardedReply {
+    if (reply.violations.length > 0) {
+      console.warn(`🛡️ Output guardrails: ${reply.violations.map(v => `${v.rule}:${v.action}`).join(', ')}`);
+    }
+    return reply;
+  }
+}
+
+// Streamed replies are checked a whole sentence at a time, before any of it is sent: a dropped
+// sentence never reaches the client, so nothing already shown or spoken is checked afterwards.
+// The trade-off is that text arrives sentence by sentence instead of token by token.
+export class StreamGuard {
+  private violations: GuardrailViolation[] = [];
+  private sentences: string[] = [];
+  private words = 0;
+  private exhausted = false;
+
+  constructor(private guardrails: OutputGuardrails, private context: GuardrailContext, private maxWords: number) {}
+
+  // True once the word budget is spent: the rest of the generation can be dropped
+  get done(): boolean {
+    return this.exhausted;
+  }
+
+  // Returns the sentence to speak, or null when it must be dropped
+  push(sentence: string): string | null {
+    if (this.exhausted) return null;
+
+    const rules = sentenceViolations(sentence, this.context);
+    if (rules.length > 0) {
+      rules.forEach(rule => this.violations.push({ rule, action: 'removed', detail: sentence }));
+      return null;
+    }
+
+    let text = sentence;
+    const count = countWords(sentence);
+    if (this.words + count > this.maxWords) {
+      this.exhausted = true;
+      this.violations.push({ rule: 'length', action: 'rewritten' });
+      if (this.sentences.length > 0) return null;
+      // An over-long first sentence is cut to the budget, as enforce() does
+      text = `${sentence.split(/\s+/).slice(0, this.maxWords).join(' ')}…`;
+    }
+
+    const safe = this.guardrails.redact(text, this.context, this.violations);
+    this.sentences.push(safe);
+    this.words += Math.min(count, this.maxWords);
+    return safe;
+  }
+
+  // Neutral reply to speak when every sentence was dropped by a guardrail
+  fallback(): string | null {
+    if (this.sentences.length > 0 || this.violations.length === 0) return null;
+
+    const text = this.guardrails.fallbackReply(this.context.language);
+    this.violations.push({ rule: this.violations[this.violations.length - 1].rule, action: 'fallback' });
+    this.sentences.push(text);
+    return text;
+  }
+
+  result(): GuardedReply {
+    return this.guardrails.logged({ text: this.sentences.join(' '), violations: this.violations });
+  }
+}
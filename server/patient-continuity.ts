@@ -0,0 +1,111 @@
+import type { ClinicalSnapshot, Conversation } from "@shared/schema";
+import type { IStorage } from "./storage.js";
+import type { ConversationMemory } from "./conversation-memory.js";
+import type { ConsultationLanguage } from "./languages.js";
+
+// Cross-session continuity: when a returning patient starts a new consultation, the agent gets
+// the summaries and clinical state of their previous sessions
+
+export const MAX_PREVIOUS_SESSIONS = 3;
+
+export interface PreviousSession {
+  sessionId: string;
+  date: Date;
+  summary: string | null;
+  clinicalState: ClinicalSnapshot | null;
+}
+
+export async function loadPreviousSessions(
+  storage: IStorage,
+  memory: ConversationMemory,
+  patientId: number,
+  currentSessionId: string
+): Promise<PreviousSession[]> {
+  const conversations = (await storage.getPatientConversations(patientId))
+    .filter(conv => conv.sessionId !== currentSessionId)
+    .slice(0, MAX_PREVIOUS_SESSIONS);
+
+  return Promise.all(conversations.map(async (conv, index) => ({
+    sessionId: conv.sessionId,
+    date: conv.createdAt,
+    // The last consultation may have ended before its tail was summarized
+    summary: index === 0 ? await closingSummary(memory, conv) : conv.summary,
+    clinicalState: conv.clinicalState,
+  })));
+}
+
+async function closingSummary(memory: ConversationMemory, conversation: Conversation): Promise<string | null> {
+  try {
+    return await memory.summarizeRemaining(conversation.sessionId);
+  } catch (error) {
+    console.error('Failed to summarize previous session:', error);
+    return conversation.summary;
+  }
+}
+
+function formatFindings(findings: ClinicalSnapshot['symptoms']): string {
+  return findings.map(f => `${f.label} (${f.severity})`).join(', ');
+}
+
+const HISTORY_TEXT: Record<ConsultationLanguage, {
+  locale: string;
+  heading: string;
+  session: string;
+  chiefComplaint: string;
+  symptoms: string;
+  riskFactors: string;
+  treatmentPlan: string;
+  questionnaires: string;
+  noNotes: string;
+  instructions: string;
+}> = {
+  es: {
+    locale: 'es-ES',
+    heading: 'HISTORIAL DEL PACIENTE (consultas anteriores, de la más reciente a la más antigua):',
+    session: 'Consulta del',
+    chiefComplaint: 'Motivo de consulta',
+    symptoms: 'Síntomas',
+    riskFactors: 'Factores de riesgo',
+    treatmentPlan: 'Plan de tratamiento',
+    questionnaires: 'Cuestionarios',
+    noNotes: 'sin notas registradas.',
+    instructions: 'Es un paciente que regresa: salúdalo como tal y retoma con naturalidad lo trabajado la última vez (por ejemplo: "la última vez hablamos de tu insomnio"). No repitas toda la evaluación inicial.',
+  },
+  en: {
+    locale: 'en-US',
+    heading: 'PATIENT HISTORY (previous consultations, most recent first):',
+    session: 'Consultation on',
+    chiefComplaint: 'Reason for consultation',
+    symptoms: 'Symptoms',
+    riskFactors: 'Risk factors',
+    treatmentPlan: 'Treatment plan',
+    questionnaires: 'Questionnaires',
+    noNotes: 'no notes recorded.',
+    instructions: 'This is a returning patient: greet them as such and naturally pick up what you worked on last time (for example: "last time we talked about your insomnia"). Don\'t repeat the whole initial assessment.',
+  },
+};
+
+function formatSession(session: PreviousSession, language: ConsultationLanguage): string {
+  const text = HISTORY_TEXT[language];
+  const state = session.clinicalState;
+  const details = [
+    session.summary,
+    state?.chiefComplaint && `${text.chiefComplaint}: ${state.chiefComplaint}.`,
+    state?.symptoms.length && `${text.symptoms}: ${formatFindings(state.symptoms)}.`,
+    state?.riskFactors.length && `${text.riskFactors}: ${formatFindings(state.riskFactors)}.`,
+    state?.treatmentPlan?.length && `${text.treatmentPlan}: ${state.treatmentPlan.join('; ')}.`,
+    state?.questionnaires.length && `${text.questionnaires}: ${state.questionnaires.map(q => `${q.name} ${q.total}/${q.maxScore} (${q.severity})`).join(', ')}.`,
+  ].filter(Boolean);
+
+  return `- ${text.session} ${session.date.toLocaleDateString(text.locale)}: ${details.join(' ') || text.noNotes}`;
+}
+
+// Prompt section for the system prompt, or null for a first-time patient
+export function formatPatientHistory(sessions: PreviousSession[], language: ConsultationLanguage = 'es'): string | null {
+  if (sessions.length === 0) return null;
+
+  const text = HISTORY_TEXT[language];
+  return `${text.heading}
+${sessions.map(session => formatSession(session, language)).join('\n')}
+${text.instructions}`;
+}
@@ -0,0 +1,116 @@
+// Minimal PDF writer for text documents (clinical note exports): A4 pages, the standard
+// Helvetica fonts, word wrapping and page breaks. Text is encoded as WinAnsi, which covers
+// Spanish and English; other characters are printed as "?".
+
+export interface PdfBlock {
+  text: string;
+  style: 'title' | 'heading' | 'body' | 'meta';
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+
+const STYLES: Record<PdfBlock['style'], { font: 'F1' | 'F2'; size: number; spaceBefore: number }> = {
+  title: { font: 'F2', size: 18, spaceBefore: 0 },
+  heading: { font: 'F2', size: 13, spaceBefore: 14 },
+  body: { font: 'F1', size: 11, spaceBefore: 4 },
+  meta: { font: 'F1', size: 9, spaceBefore: 2 },
+};
+
+const LINE_HEIGHT = 1.35;
+// Average Helvetica glyph width in ems, used to wrap lines without font metrics
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+// WinAnsi code points outside Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+function encodeText(text: string): string {
+  const bytes = Array.from(text).map(char => {
+    const code = char.charCodeAt(0);
+    if (WIN_ANSI[char] !== undefined) return WIN_ANSI[char];
+    return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) ? code : 0x3f;
+  });
+  return `<${bytes.map(byte => byte.toString(16).padStart(2, '0')).join('')}>`;
+}
+
+function wrap(text: string, size: number): string[] {
+  const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * AVERAGE_CHAR_WIDTH));
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      if (line && line.length + 1 + word.length > maxChars) {
+        lines.push(line);
+        line = '';
+      }
+      // Words longer than a line are split
+      while (word.length > maxChars) {
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+      }
+      line = line ? `${line} ${word}` : word;
+    });
+    lines.push(line);
+  });
+  return lines;
+}
+
+function layout(blocks: PdfBlock[]): string[] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  blocks.forEach(block => {
+    const style = STYLES[block.style];
+    const lineHeight = style.size * LINE_HEIGHT;
+    y -= style.spaceBefore;
+
+    wrap(block.text, style.size).forEach(line => {
+      if (y - lineHeight < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+      if (line) {
+        pages[pages.length - 1].push(`BT /${style.font} ${style.size} Tf ${MARGIN} ${y.toFixed(1)} Td ${encodeText(line)} Tj ET`);
+      }
+    });
+  });
+
+  return pages.map(commands => commands.join('\n'));
+}
+
+export function renderPdf(blocks: PdfBlock[], title?: string): Buffer {
+  const pages = layout(blocks);
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  // Page objects start at 6 (after catalog, page tree, two fonts and the info dictionary)
+  const firstPage = 6;
+  const kids = pages.map((_, index) => `${firstPage + index * 2} 0 R`).join(' ');
+  add(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  add(title ? `<< /Title ${encodeText(title)} >>` : '<< >>');
+  pages.forEach((content, index) => {
+    add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+      + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPage + index * 2 + 1} 0 R >>`);
+    add(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
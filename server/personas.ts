@@ -0,0 +1,103 @@
+import fs from "fs";
+import { z } from "zod";
+
+// Therapist personas: who the agent plays (prompt identity, greeting) and which HeyGen avatar
+// and voice the client starts for it. Each conversation stores its personaId so the server
+// prompt and the client avatar always match. A persona speaks one language; conversations in
+// another language get the default persona for that language.
+
+export const therapistPersonaSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/),
+  name: z.string().min(1),
+  shortName: z.string().min(1),
+  specialty: z.string().min(1),
+  language: z.string().min(2),
+  // Identity paragraph that opens the system prompt ("Eres el Dr. ...")
+  prompt: z.string().min(1),
+  avatarId: z.string().min(1),
+  // HeyGen voice; when omitted the avatar speaks with its own default voice
+  voiceId: z.string().min(1).optional(),
+  greeting: z.string().min(1),
+});
+
+export type TherapistPersona = z.infer<typeof therapistPersonaSchema>;
+
+export const DEFAULT_PERSONAS: TherapistPersona[] = [
+  {
+    id: 'carlos-mendoza',
+    name: 'Dr. Carlos Mendoza',
+    shortName: 'Dr. Carlos',
+    specialty: 'Psicólogo Clínico Especializado',
+    language: 'es',
+    prompt: 'Eres el Dr. Carlos Mendoza, un psicólogo clínico con 15 años de experiencia especializado en terapia cognitivo-conductual y evaluación psicológica.',
+    avatarId: 'Dexter_Doctor_Standing2_public',
+    voiceId: '08284d3fc63a424fbe80cc1864ed2540', // Spanish male voice
+    greeting: '¡Hola! Soy el Dr. Carlos Mendoza. ¿En qué puedo ayudarte hoy?',
+  },
+  {
+    id: 'carlos-mendoza-en',
+    name: 'Dr. Carlos Mendoza',
+    shortName: 'Dr. Carlos',
+    specialty: 'Clinical Psychologist',
+    language: 'en',
+    prompt: 'You are Dr. Carlos Mendoza, a clinical psychologist with 15 years of experience specialized in cognitive behavioral therapy and psychological assessment.',
+    avatarId: 'Dexter_Doctor_Standing2_public',
+    // No voiceId: the avatar's own voice is English
+    greeting: "Hello! I'm Dr. Carlos Mendoza. How can I help you today?",
+  },
+];
+
+export class UnknownPersonaError extends Error {
+  constructor(id: string) {
+    super(`Unknown persona "${id}"`);
+    this.name = 'UnknownPersonaError';
+  }
+}
+
+export class PersonaRegistry {
+  private personas: Map<string, TherapistPersona>;
+
+  constructor(personas: TherapistPersona[], private defaultId: string = personas[0]?.id) {
+    if (personas.length === 0) {
+      throw new Error('At least one persona is required');
+    }
+    this.personas = new Map(personas.map(persona => [persona.id, persona]));
+    if (!this.personas.has(defaultId)) {
+      throw new UnknownPersonaError(defaultId);
+    }
+  }
+
+  list(): TherapistPersona[] {
+    return Array.from(this.personas.values());
+  }
+
+  get(id: string): TherapistPersona | undefined {
+    return this.personas.get(id);
+  }
+
+  // With a language, the default persona if it speaks it, else the first persona that does
+  getDefault(language?: string): TherapistPersona {
+    const fallback = this.personas.get(this.defaultId)!;
+    if (!language || fallback.language === language) return fallback;
+    return this.list().find(persona => persona.language === language) ?? fallback;
+  }
+
+  // Conversations created before personas existed have no personaId
+  resolve(id?: string | null): TherapistPersona {
+    return (id && this.personas.get(id)) || this.getDefault();
+  }
+
+  findByAvatarId(avatarId: string): TherapistPersona | undefined {
+    return this.list().find(persona => persona.avatarId === avatarId);
+  }
+}
+
+// PERSONAS_FILE replaces the built-in personas (JSON array with the same shape);
+// DEFAULT_PERSONA_ID picks the one used when a conversation doesn't ask for any
+export function loadPersonaRegistry(): PersonaRegistry {
+  const personas = process.env.PERSONAS_FILE
+    ? z.array(therapistPersonaSchema).min(1).parse(JSON.parse(fs.readFileSync(process.env.PERSONAS_FILE, 'utf-8')))
+    : DEFAULT_PERSONAS;
+
+  return new PersonaRegistry(personas, process.env.DEFAULT_PERSONA_ID || personas[0].id);
+}
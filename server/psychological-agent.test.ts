@@ -0,0 +1,99 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { PsychologicalAgent, type AgentStreamEvent } from "./psychological-agent.js";
+import { MemStorage } from "./storage.js";
+import { ScriptedChatModel, type ChatScript } from "./scripted-chat-model.js";
+import type { LLMProvider } from "./llm-provider.js";
+
+const SCRIPT: ChatScript = {
+  rules: [
+    { match: "no puedo dormir", reply: "Dormir mal agota mucho. ¿Desde cuándo te pasa?" },
+    {
+      match: "número de emergencias",
+      reply: "En España puedes llamar al 112 en cualquier momento.",
+      toolCall: { name: "lookup_emergency_number", args: { country: "ES" } },
+    },
+  ],
+  fallback: "Cuéntame más, por favor.",
+};
+
+function mockProvider(script: ChatScript = SCRIPT): LLMProvider {
+  return { name: 'mock', model: 'scripted', chat: new ScriptedChatModel({ script }), isConfigured: () => true };
+}
+
+describe('PsychologicalAgent with the scripted model', () => {
+  let storage: MemStorage;
+  let agent: PsychologicalAgent;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    agent = new PsychologicalAgent(storage, mockProvider());
+    await storage.createConversation({ sessionId: 's1', language: 'es' });
+  });
+
+  it('answers a turn with the scripted reply', async () => {
+    const reply = await agent.processMessage('s1', 'Últimamente no puedo dormir bien');
+    await agent.waitForExtraction('s1');
+
+    assert.equal(reply.text, 'Dormir mal agota mucho. ¿Desde cuándo te pasa?');
+    assert.equal(reply.language, 'es');
+    assert.equal(reply.safetyEvent, undefined);
+    assert.deepEqual(reply.guardrails ?? [], []);
+  });
+
+  it('streams the same reply as deltas and sentences', async () => {
+    const events: AgentStreamEvent[] = [];
+    for await (const event of agent.streamMessage('s1', 'Últimamente no puedo dormir bien')) {
+      events.push(event);
+    }
+    await agent.waitForExtraction('s1');
+
+    const text = events.flatMap(e => e.type === 'delta' ? [e.text] : []).join('');
+    const sentences = events.flatMap(e => e.type === 'sentence' ? [e.text] : []);
+    assert.equal(text, 'Dormir mal agota mucho. ¿Desde cuándo te pasa?');
+    assert.deepEqual(sentences, ['Dormir mal agota mucho.', '¿Desde cuándo te pasa?']);
+    const last = events[events.length - 1];
+    assert.equal(last.type === 'complete' && last.reply.text, text);
+  });
+
+  it('runs the tool calls the model asks for and records them', async () => {
+    const reply = await agent.processMessage('s1', '¿Cuál es el número de emergencias?');
+    await agent.waitForExtraction('s1');
+
+    assert.equal(reply.text, 'En España puedes llamar al 112 en cualquier momento.');
+    assert.equal(reply.toolCalls?.length, 1);
+    assert.equal(reply.toolCalls?.[0].name, 'lookup_emergency_number');
+    assert.equal((reply.toolCalls?.[0].result as { country: string }).country, 'ES');
+  });
+
+  it('escalates a positive PHQ-9 item 9 through the crisis protocol', async () => {
+    agent.scheduleQuestionnaire('s1', 'phq9');
+    let reply = await agent.processMessage('s1', 'De acuerdo');
+    for (let item = 0; item < 8; item++) {
+      reply = await agent.processMessage('s1', 'nunca');
+    }
+    reply = await agent.processMessage('s1', 'varios días');
+
+    assert.equal(reply.agentType, 'safety-protocol');
+    assert.ok(reply.safetyEvent);
+    assert.match(reply.text, /¿Estás en un lugar seguro/);
+    assert.equal((await storage.getConversation('s1'))?.riskFlagged, true);
+    const [event] = await storage.getSafetyEvents('s1');
+    assert.equal(event.category, 'suicidal_ideation');
+    assert.deepEqual(event.matchedPhrases, ['PHQ-9 #9: varios días']);
+    assert.equal(agent.getSessionState('s1')?.questionnaireResults[0].total, 1);
+  });
+
+  it('does not escalate a PHQ-9 with item 9 negative', async () => {
+    agent.scheduleQuestionnaire('s1', 'phq9');
+    let reply = await agent.processMessage('s1', 'De acuerdo');
+    for (let item = 0; item < 8; item++) {
+      reply = await agent.processMessage('s1', 'varios días');
+    }
+    reply = await agent.processMessage('s1', 'nunca');
+
+    assert.equal(reply.agentType, 'questionnaire');
+    assert.equal((await storage.getConversation('s1'))?.riskFlagged, false);
+    assert.deepEqual(await storage.getSafetyEvents('s1'), []);
+  });
+});
@@ -1,40 +1,135 @@
-import { ChatGroq } from "@langchain/groq";
-import { HumanMessage, SystemMessage, AIMessage, BaseMessage } from "@langchain/core/messages";
+import { HumanMessage, SystemMessage, AIMessage, BaseMessage, type AIMessageChunk } from "@langchain/core/messages";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { RunnableSequence } from "@langchain/core/runnables";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { IStorage } from "./storage.js";
+import { SentenceSplitter } from "./sentence-splitter.js";
+import { createLLMProvider, loadLLMConfig, type LLMProvider } from "./llm-provider.js";
+import { ClinicalExtractor, mergeFindings, type ClinicalFinding } from "./clinical-extractor.js";
+import { SafetyProtocol, type CrisisAssessment } from "./safety-protocol.js";
+import { ConversationMemory, type MemoryConfig } from "./conversation-memory.js";
+import type {
+  ClinicalSnapshot,
+  GuardrailViolation,
+  HomeworkAssignment,
+  KnowledgeCitation,
+  SafetyEvent,
+  ToolCallRecord,
+  TreatmentPlan,
+} from "@shared/schema";
+import { formatPatientHistory, loadPreviousSessions } from "./patient-continuity.js";
+import { loadPersonaRegistry, type PersonaRegistry } from "./personas.js";
+import { formatKnowledgeSection, loadKnowledgeBase, toCitation, type KnowledgeBase } from "./knowledge-base.js";
+import { OutputGuardrails, type GuardedReply, type GuardrailContext } from "./output-guardrails.js";
+import { loadSoapNoteInput, SoapNoteWriter, type SoapNoteDraft } from "./soap-notes.js";
+import { AgentToolbox, AppointmentScheduler, createAgentTools } from "./agent-tools.js";
+import { defaultLanguage, normalizeLanguage, type ConsultationLanguage } from "./languages.js";
+import {
+  draftHomework,
+  formatHomeworkReview,
+  formatTreatmentPlan,
+  loadActivePlan,
+  loadPendingHomework,
+  planSummaryLines,
+  TreatmentPlanner,
+  type ActivePlan,
+} from "./treatment-planner.js";
+import {
+  advancePhase,
+  phasePromptSection,
+  transitionPhase,
+  type PhaseTransition,
+  type TherapyPhase,
+} from "./therapy-phases.js";
+import {
+  answerQuestionnaire,
+  startQuestionnaire,
+  QUESTIONNAIRES,
+  type QuestionnaireId,
+  type QuestionnaireProgress,
+  type QuestionnaireResult,
+} from "./questionnaires.js";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
 
 export interface PsychologicalSession {
   sessionId: string;
-  phase: 'intake' | 'assessment' | 'diagnosis' | 'treatment' | 'followup';
-  symptoms: string[];
-  concerns: string[];
-  riskFactors: string[];
+  patientId?: number;
+  personaId?: string;
+  // Idioma de la consulta: el de la conversación o, si no lo fija, el de su persona. Sin fijar
+  // (languagePinned), cambia al idioma en que habla el paciente.
+  language?: ConsultationLanguage;
+  languagePinned?: boolean;
+  phase: TherapyPhase;
+  phaseHistory: PhaseTransition[];
+  turnCount: number;
+  chiefComplaint?: string;
+  symptoms: ClinicalFinding[];
+  concerns: ClinicalFinding[];
+  riskFactors: ClinicalFinding[];
   diagnosis?: string;
   treatmentPlan?: string[];
+  // Plan activo de esta consulta (borrador generado o escrito por el clínico)
+  activePlan?: ActivePlan;
+  // Tareas de consultas anteriores que aún no se han revisado con el paciente
+  pendingHomework?: HomeworkAssignment[];
   sessionNotes: string[];
+  crisisDetectedAt?: string;
+  activeQuestionnaire?: QuestionnaireProgress;
+  questionnaireResults: QuestionnaireResult[];
 }
 
-export class PsychologicalAgent {
-  private llm: ChatGroq;
-  private storage: IStorage;
-  private sessions: Map<string, PsychologicalSession> = new Map();
+// Who produced the reply: the LLM, the crisis protocol or the questionnaire engine
+export type AgentType = 'psychological' | 'safety-protocol' | 'questionnaire';
 
-  constructor(storage: IStorage) {
-    this.llm = new ChatGroq({
-      apiKey: process.env.GROQ_API_KEY,
-      model: "llama-3.3-70b-versatile",
-      temperature: 0.3,
-      maxTokens: 150, // Reduced for shorter responses
-    });
-    this.storage = storage;
-  }
+export interface AgentReply {
+  text: string;
+  agentType: AgentType;
+  language: ConsultationLanguage;
+  // Set when the safety protocol replaced the LLM reply with the vetted crisis response
+  safetyEvent?: SafetyEvent;
+  // Knowledge base sections included in the prompt for this reply
+  sources?: KnowledgeCitation[];
+  // Output guardrails that changed the generated reply
+  guardrails?: GuardrailViolation[];
+  // Tools the LLM called while producing the reply
+  toolCalls?: ToolCallRecord[];
+}
+
+export type AgentStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'sentence'; text: string; index: number }
+  | { type: 'complete'; reply: AgentReply };
 
-  private getSystemPrompt(): string {
-    return `Eres el Dr. Carlos Mendoza, un psicólogo clínico con 15 años de experiencia especializado en terapia cognitivo-conductual y evaluación psicológica.
+export interface PsychologicalAgentOptions {
+  // Modelo usado para la extracción clínica estructurada; por defecto el mismo proveedor
+  // configurado con temperatura 0 y más tokens para el JSON
+  extractionProvider?: LLMProvider;
+  safetyProtocol?: SafetyProtocol;
+  memoryConfig?: MemoryConfig;
+  personas?: PersonaRegistry;
+  knowledgeBase?: KnowledgeBase;
+  guardrails?: OutputGuardrails;
+  scheduler?: AppointmentScheduler;
+}
 
-PROTOCOLO DE CONSULTA PSICOLÓGICA:
+const EXTRACTION_MAX_TOKENS = 600;
+// Rondas de llamadas a herramientas por respuesta; la última se genera ya sin herramientas
+const MAX_TOOL_ROUNDS = 3;
+// Turnos recientes que recibe el borrador del plan de tratamiento, además del resumen
+const PLAN_DRAFT_RECENT_MESSAGES = 12;
+
+export interface ProcessMessageOptions {
+  // Aborts the pending LLM call (used by POST /api/interrupt)
+  signal?: AbortSignal;
+  // ISO country code used to pick crisis hotlines; defaults to CRISIS_DEFAULT_COUNTRY
+  country?: string;
+  // Language detected in the patient's message; the reply follows it unless the session is pinned
+  language?: ConsultationLanguage;
+}
+
+// Protocolo de consulta del system prompt, en el idioma de la consulta
+const CONSULTATION_PROTOCOL: Record<ConsultationLanguage, string> = {
+  es: `PROTOCOLO DE CONSULTA PSICOLÓGICA:
 
 1. FASE DE BIENVENIDA E INTAKE (primeros mensajes):
    - Saluda cordialmente y presenta tu experiencia profesional
@@ -86,34 +181,464 @@ ESTILO DE COMUNICACIÓN:
 
 IMPORTANTE: Las respuestas deben ser breves y concisas para conversación por voz. No más de 50 palabras por respuesta.
 
-Responde SIEMPRE en español y actúa como si fueras un psicólogo real en consulta.`;
+Responde SIEMPRE en español y actúa como si fueras un psicólogo real en consulta.`,
+  en: `PSYCHOLOGICAL CONSULTATION PROTOCOL:
+
+1. WELCOME AND INTAKE PHASE (first messages):
+   - Greet the patient warmly and present your professional experience
+   - Explain confidentiality and the therapeutic process
+   - Ask about the main reason for consultation
+   - Make the patient feel comfortable and heard
+
+2. SYSTEMATIC ASSESSMENT PHASE:
+   - History of the current problem (when it started, triggering factors)
+   - Specific symptoms and their frequency/intensity
+   - Impact on daily life (work, relationships, sleep, appetite)
+   - Medical and psychological history
+   - Family history of mental health problems
+   - Substance or medication use
+   - Current stressors
+
+3. RISK ASSESSMENT:
+   - Suicidal or self-harm thoughts
+   - Risk to others
+   - General functioning
+
+4. ASSESSMENT TECHNIQUES:
+   - Open questions: "Can you tell me more about...?"
+   - 1-10 scales for symptom intensity
+   - Clarification and paraphrasing techniques
+   - Emotional validation
+
+5. DIAGNOSIS AND TREATMENT:
+   - Based on DSM-5 criteria
+   - Clear explanation the patient can understand
+   - Personalized treatment plan
+   - Specific therapeutic techniques
+
+ETHICAL GUIDELINES:
+- Always keep an empathetic, non-judgmental attitude
+- Use professional but accessible language
+- Respect the ethical limits of a virtual consultation
+- In cases of serious risk, recommend immediate in-person care
+- Never prescribe medication (only psychologists/psychiatrists can do that)
+
+COMMUNICATION STYLE:
+- Warm but professional
+- SHORT ANSWERS: 2-3 sentences maximum per reply
+- One specific question per reply
+- Use active listening techniques
+- Validate the patient's emotions
+- Keep hope and a therapeutic perspective
+- Avoid long explanations, get straight to the point
+
+IMPORTANT: Replies must be brief and concise for a voice conversation. No more than 50 words per reply.
+
+ALWAYS answer in English and act as a real psychologist in a consultation.`,
+};
+
+const SUMMARY_HEADERS: Record<ConsultationLanguage, string> = {
+  es: 'RESUMEN DE LO HABLADO ANTERIORMENTE EN ESTA CONSULTA:',
+  en: 'SUMMARY OF WHAT WAS DISCUSSED EARLIER IN THIS CONSULTATION:',
+};
+
+const CRISIS_FINDING_LABELS: Record<CrisisAssessment['category'], string> = {
+  suicidal_ideation: 'ideación suicida',
+  self_harm: 'autolesión',
+  harm_to_others: 'riesgo para otros',
+};
+
+// Mismos mensajes con una instrucción añadida al system prompt (regeneración por guardarraíles)
+function withInstruction(messages: BaseMessage[], instruction: string): BaseMessage[] {
+  const [system, ...rest] = messages;
+  return [new SystemMessage(`${system.content as string}\n\n${instruction}`), ...rest];
+}
+
+// Eventos de streaming de una respuesta ya completa (crisis o cuestionario): el texto entero
+// como delta y después sus oraciones
+export function scriptedReplyEvents(reply: AgentReply): AgentStreamEvent[] {
+  const splitter = new SentenceSplitter();
+  const sentences = [...splitter.push(reply.text), splitter.flush()].filter((s): s is string => Boolean(s));
+  return [
+    { type: 'delta', text: reply.text },
+    ...sentences.map((text, index): AgentStreamEvent => ({ type: 'sentence', text, index })),
+    { type: 'complete', reply },
+  ];
+}
+
+export class PsychologicalAgent {
+  private llm: BaseChatModel;
+  private provider: LLMProvider;
+  private extractor: ClinicalExtractor;
+  private planner: TreatmentPlanner;
+  private soapWriter: SoapNoteWriter;
+  private safety: SafetyProtocol;
+  private memory: ConversationMemory;
+  private personas: PersonaRegistry;
+  private knowledge: KnowledgeBase;
+  private guardrails: OutputGuardrails;
+  private scheduler: AppointmentScheduler;
+  private storage: IStorage;
+  private sessions: Map<string, PsychologicalSession> = new Map();
+  // Extracciones pendientes por sesión, encadenadas para aplicarse en orden
+  private pendingExtractions: Map<string, Promise<void>> = new Map();
+  // Historial del paciente de cada conversación, cargado una vez por sesión
+  private conversationContexts: Map<string, Promise<string | null>> = new Map();
+  // Sesiones en las que ya se intentó redactar el plan automáticamente (un intento por sesión)
+  private planDraftAttempts: Set<string> = new Set();
+
+  // El proveedor se elige por configuración (LLM_PROVIDER); ver llm-provider.ts
+  constructor(storage: IStorage, provider?: LLMProvider, options: PsychologicalAgentOptions = {}) {
+    this.provider = provider ?? createLLMProvider();
+    this.llm = this.provider.chat;
+    this.storage = storage;
+
+    const extractionProvider = options.extractionProvider
+      ?? (provider ?? createLLMProvider({ ...loadLLMConfig(), temperature: 0, maxTokens: EXTRACTION_MAX_TOKENS }));
+    this.extractor = new ClinicalExtractor(extractionProvider);
+    this.planner = new TreatmentPlanner(extractionProvider);
+    this.soapWriter = new SoapNoteWriter(extractionProvider);
+    this.safety = options.safetyProtocol ?? new SafetyProtocol(storage);
+    // Los resúmenes usan el mismo modelo determinista que la extracción
+    this.memory = new ConversationMemory(storage, extractionProvider, options.memoryConfig);
+    this.personas = options.personas ?? loadPersonaRegistry();
+    this.knowledge = options.knowledgeBase ?? loadKnowledgeBase();
+    this.guardrails = options.guardrails ?? new OutputGuardrails();
+    this.scheduler = options.scheduler ?? new AppointmentScheduler(storage);
+  }
+
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  private getSystemPrompt(session: PsychologicalSession): string {
+    const persona = this.personas.resolve(session.personaId);
+    const language = this.consultationLanguage(session);
+    const sections = [
+      persona.prompt,
+      CONSULTATION_PROTOCOL[language],
+      phasePromptSection(session.phase, language),
+      // El plan se presenta en la fase de tratamiento y se revisa en el seguimiento
+      session.activePlan && (session.phase === 'treatment' || session.phase === 'followup')
+        && formatTreatmentPlan(session.activePlan, language),
+      formatHomeworkReview(session.pendingHomework ?? [], language),
+    ];
+    return sections.filter(Boolean).join('\n\n');
+  }
+
+  private consultationLanguage(session: PsychologicalSession): ConsultationLanguage {
+    return session.language ?? defaultLanguage();
+  }
+
+  // Solo el protocolo de crisis: las rutas lo aplican a cada mensaje del paciente antes de ver si
+  // la sesión la lleva un clínico; devuelve la respuesta de crisis o null si no hay riesgo
+  async checkCrisis(sessionId: string, userMessage: string, options: ProcessMessageOptions = {}): Promise<AgentReply | null> {
+    const session = this.getOrCreateSession(sessionId);
+    await this.loadConversationSettings(session);
+    this.followPatientLanguage(session, options.language);
+    return this.checkSafety(session, userMessage, options);
+  }
+
+  async processMessage(sessionId: string, userMessage: string, options: ProcessMessageOptions = {}): Promise<AgentReply> {
+    const session = this.getOrCreateSession(sessionId);
+    await this.loadConversationSettings(session);
+    this.followPatientLanguage(session, options.language);
+
+    const scriptedReply = await this.checkSafety(session, userMessage, options)
+      ?? await this.handleQuestionnaire(session, userMessage, options);
+    if (scriptedReply) return scriptedReply;
+
+    const { messages, sources } = await this.buildMessages(session, userMessage);
+
+    // Procesar con LangChain; las llamadas a herramientas y sus resultados se añaden a la
+    // conversación hasta que el modelo responde con texto
+    const toolbox = this.createToolbox(session, options);
+    const conversation = [...messages];
+    let response = await this.modelForRound(toolbox, 0).invoke(conversation, { signal: options.signal });
+    for (let round = 1; response.tool_calls?.length; round++) {
+      conversation.push(response, ...await this.runToolCalls(toolbox, response));
+      response = await this.modelForRound(toolbox, round).invoke(conversation, { signal: options.signal });
+    }
+
+    // Guardarraíles de salida: si la respuesta incumple las directrices se pide otra, indicando qué corregir
+    const guarded = await this.guardrails.enforce(response.content as string, this.guardrailContext(session, messages), async instruction => {
+      const retry = await this.llm.invoke(withInstruction(conversation, instruction), { signal: options.signal });
+      return retry.content as string;
+    });
+
+    // Analizar respuesta para actualizar estado de sesión
+    this.updateSessionState(session, userMessage, guarded.text, this.previousAssistantMessage(messages));
+
+    return this.guardedReply(session, guarded, sources, toolbox.calls);
+  }
+
+  // Variante en streaming: emite cada oración completa en cuanto se cierra, para que el avatar
+  // pueda empezar a hablar antes de que termine la generación. Cada oración pasa antes por los
+  // guardarraíles, así que los deltas llevan oraciones ya revisadas y no tokens sueltos: nada de
+  // lo que ya se ha enviado puede retirarse después (a cambio, el texto llega por oraciones)
+  async *streamMessage(sessionId: string, userMessage: string, options: ProcessMessageOptions = {}): AsyncGenerator<AgentStreamEvent> {
+    const session = this.getOrCreateSession(sessionId);
+    await this.loadConversationSettings(session);
+    this.followPatientLanguage(session, options.language);
+
+    // Las respuestas de crisis y de cuestionario no pasan por el LLM; se emiten enteras por oraciones
+    const scriptedReply = await this.checkSafety(session, userMessage, options)
+      ?? await this.handleQuestionnaire(session, userMessage, options);
+    if (scriptedReply) {
+      yield* scriptedReplyEvents(scriptedReply);
+      return;
+    }
+
+    const { messages, sources } = await this.buildMessages(session, userMessage);
+
+    const splitter = new SentenceSplitter();
+    const guard = this.guardrails.createStreamGuard(this.guardrailContext(session, messages));
+    const toolbox = this.createToolbox(session, options);
+    const conversation = [...messages];
+    let sentenceIndex = 0;
+
+    // Cada ronda se emite en streaming; si termina en llamadas a herramientas se ejecutan y se
+    // genera la continuación
+    for (let round = 0; !guard.done; round++) {
+      let gathered: AIMessageChunk | undefined;
+      const stream = await this.modelForRound(toolbox, round).stream(conversation, { signal: options.signal });
+      for await (const chunk of stream) {
+        options.signal?.throwIfAborted();
+        gathered = gathered ? gathered.concat(chunk) : chunk;
+        const text = typeof chunk.content === 'string' ? chunk.content : '';
+        if (!text) continue;
+
+        for (const sentence of splitter.push(text)) {
+          const safe = guard.push(sentence);
+          if (!safe) continue;
+          yield { type: 'delta', text: sentenceIndex > 0 ? ` ${safe}` : safe };
+          yield { type: 'sentence', text: safe, index: sentenceIndex++ };
+        }
+        // Superado el límite de palabras, el resto de la generación ya no se usaría
+        if (guard.done) break;
+      }
+
+      if (guard.done || !gathered?.tool_calls?.length) break;
+      options.signal?.throwIfAborted();
+      conversation.push(gathered, ...await this.runToolCalls(toolbox, gathered));
+    }
+
+    options.signal?.throwIfAborted();
+
+    const rest = splitter.flush();
+    const last = (rest && guard.push(rest)) || guard.fallback();
+    if (last) {
+      yield { type: 'delta', text: sentenceIndex > 0 ? ` ${last}` : last };
+      yield { type: 'sentence', text: last, index: sentenceIndex++ };
+    }
+
+    const guarded = guard.result();
+    this.updateSessionState(session, userMessage, guarded.text, this.previousAssistantMessage(messages));
+
+    yield { type: 'complete', reply: this.guardedReply(session, guarded, sources, toolbox.calls) };
+  }
+
+  // Herramientas de esta respuesta (cita de seguimiento, recursos, números de emergencia)
+  private createToolbox(session: PsychologicalSession, options: ProcessMessageOptions): AgentToolbox {
+    const tools = createAgentTools(
+      {
+        sessionId: session.sessionId,
+        patientId: session.patientId,
+        country: options.country,
+        language: this.consultationLanguage(session),
+      },
+      { scheduler: this.scheduler, knowledge: this.knowledge, safety: this.safety }
+    );
+    return new AgentToolbox(tools);
+  }
+
+  // Modelo con las herramientas enlazadas; agotadas las rondas (o si el proveedor no admite
+  // herramientas) se usa el modelo sin ellas para obligar a responder con texto
+  private modelForRound(toolbox: AgentToolbox, round: number) {
+    if (round >= MAX_TOOL_ROUNDS || !this.llm.bindTools) return this.llm;
+    return this.llm.bindTools(toolbox.tools);
   }
 
-  async processMessage(sessionId: string, userMessage: string): Promise<string> {
+  private async runToolCalls(toolbox: AgentToolbox, response: AIMessageChunk): Promise<BaseMessage[]> {
+    const results: BaseMessage[] = [];
+    for (const call of response.tool_calls ?? []) {
+      results.push(await toolbox.execute(call));
+    }
+    return results;
+  }
+
+  // Los datos personales solo se ocultan si los escribió el paciente; las líneas de crisis nunca
+  private guardrailContext(session: PsychologicalSession, messages: BaseMessage[]): GuardrailContext {
+    return {
+      language: this.consultationLanguage(session),
+      phase: session.phase,
+      patientText: messages.filter(message => message instanceof HumanMessage).map(message => message.content as string).join('\n'),
+      protectedValues: this.safety.crisisNumbers(),
+    };
+  }
+
+  private guardedReply(
+    session: PsychologicalSession,
+    guarded: GuardedReply,
+    sources?: KnowledgeCitation[],
+    toolCalls: ToolCallRecord[] = []
+  ): AgentReply {
+    return {
+      text: guarded.text,
+      agentType: 'psychological',
+      language: this.consultationLanguage(session),
+      sources,
+      guardrails: guarded.violations.length > 0 ? guarded.violations : undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
+
+  // Protocolo de seguridad: ante riesgo detectado se sustituye la respuesta del LLM por la
+  // respuesta de crisis validada, se marca la conversación y se registra el evento
+  private async checkSafety(
+    session: PsychologicalSession,
+    userMessage: string,
+    options: ProcessMessageOptions
+  ): Promise<AgentReply | null> {
+    const assessment = this.safety.assess(userMessage);
+    if (!assessment) return null;
+
+    const { text, event } = await this.safety.handleCrisis(
+      session.sessionId, userMessage, assessment, options.country, this.consultationLanguage(session)
+    );
+
+    session.riskFactors = mergeFindings(session.riskFactors, [{
+      label: CRISIS_FINDING_LABELS[assessment.category],
+      severity: 'severe',
+      evidence: assessment.matchedPhrases,
+    }]);
+    transitionPhase(session, 'assessment', 'risk', `Protocolo de crisis: ${assessment.category}`);
+    session.crisisDetectedAt = session.crisisDetectedAt ?? event.createdAt.toISOString();
+    // Un cuestionario en curso no se retoma tras una crisis
+    session.activeQuestionnaire = undefined;
+
+    this.updateSessionState(session, userMessage, text);
+
+    return { text, agentType: 'safety-protocol', language: this.consultationLanguage(session), safetyEvent: event };
+  }
+
+  // Mientras hay un cuestionario activo, cada respuesta del paciente puntúa un ítem
+  private async handleQuestionnaire(
+    session: PsychologicalSession,
+    userMessage: string,
+    options: ProcessMessageOptions
+  ): Promise<AgentReply | null> {
+    const progress = session.activeQuestionnaire;
+    if (!progress) return null;
+
+    const step = answerQuestionnaire(progress, userMessage, this.consultationLanguage(session));
+    if (step.status === 'completed') {
+      session.activeQuestionnaire = undefined;
+      session.questionnaireResults.push(step.result);
+      this.applyQuestionnaireResult(session, step.result);
+      if (step.result.riskItemPositive) {
+        return this.escalateQuestionnaireRisk(session, userMessage, step.result, options);
+      }
+    } else if (step.status === 'cancelled') {
+      session.activeQuestionnaire = undefined;
+    }
+
+    this.updateSessionState(session, userMessage, step.reply);
+
+    return { text: step.reply, agentType: 'questionnaire', language: this.consultationLanguage(session) };
+  }
+
+  private applyQuestionnaireResult(session: PsychologicalSession, result: QuestionnaireResult): void {
+    console.log(`📋 Session ${session.sessionId}: ${result.name} = ${result.total}/${result.maxScore} (${result.severity})`);
+    if (!result.riskItemPositive) return;
+
+    // PHQ-9 ítem 9 positivo: se registra como factor de riesgo aunque no haya frases de crisis
+    const riskAnswer = result.answers.find(answer => answer.item === QUESTIONNAIRES[result.id].riskItem);
+    session.riskFactors = mergeFindings(session.riskFactors, [{
+      label: CRISIS_FINDING_LABELS.suicidal_ideation,
+      severity: (riskAnswer?.score ?? 0) >= 2 ? 'severe' : 'moderate',
+      evidence: riskAnswer ? [riskAnswer.response] : [],
+    }]);
+    transitionPhase(session, 'assessment', 'risk', `${result.name}: ítem de riesgo positivo`);
+  }
+
+  // El ítem de riesgo positivo activa el protocolo de crisis igual que una frase de crisis:
+  // respuesta validada con líneas de ayuda, conversación marcada, evento y webhook
+  private async escalateQuestionnaireRisk(
+    session: PsychologicalSession,
+    userMessage: string,
+    result: QuestionnaireResult,
+    options: ProcessMessageOptions
+  ): Promise<AgentReply> {
+    const language = this.consultationLanguage(session);
+    const riskItem = QUESTIONNAIRES[result.id].riskItem ?? 0;
+    const riskAnswer = result.answers.find(answer => answer.item === riskItem);
+    const { text, event } = await this.safety.handleCrisis(session.sessionId, userMessage, {
+      category: 'suicidal_ideation',
+      language,
+      matchedPhrases: [`${result.name} #${riskItem + 1}: ${riskAnswer?.response ?? userMessage}`],
+    }, options.country, language);
+
+    session.crisisDetectedAt = session.crisisDetectedAt ?? event.createdAt.toISOString();
+    this.updateSessionState(session, userMessage, text);
+
+    return { text, agentType: 'safety-protocol', language, safetyEvent: event };
+  }
+
+  // Programa un cuestionario; se presenta en el siguiente turno del paciente.
+  // Devuelve null si ya hay uno en curso.
+  scheduleQuestionnaire(sessionId: string, id: QuestionnaireId): QuestionnaireProgress | null {
+    const session = this.getOrCreateSession(sessionId);
+    if (session.activeQuestionnaire) return null;
+
+    session.activeQuestionnaire = startQuestionnaire(id);
+    return session.activeQuestionnaire;
+  }
+
+  private getOrCreateSession(sessionId: string): PsychologicalSession {
     // Obtener o crear sesión psicológica
     let session = this.sessions.get(sessionId);
     if (!session) {
       session = {
         sessionId,
         phase: 'intake',
+        phaseHistory: [],
+        turnCount: 0,
         symptoms: [],
         concerns: [],
         riskFactors: [],
-        sessionNotes: []
+        sessionNotes: [],
+        questionnaireResults: []
       };
       this.sessions.set(sessionId, session);
     }
+    return session;
+  }
+
+  private async buildMessages(
+    session: PsychologicalSession,
+    userMessage: string
+  ): Promise<{ messages: BaseMessage[]; sources?: KnowledgeCitation[] }> {
+    const language = this.consultationLanguage(session);
+    const patientHistory = await this.getConversationContext(session);
+    // Material validado relevante para el mensaje del paciente; se cita en los metadatos de la respuesta
+    const matches = this.knowledge.search(userMessage, { language });
+    const systemPrompt = [this.getSystemPrompt(session), patientHistory, formatKnowledgeSection(matches, language)]
+      .filter(Boolean)
+      .join('\n\n');
+
+    // Resumen de los turnos antiguos + tanto historial reciente como quepa en el presupuesto de tokens
+    const context = await this.memory.buildContext(session.sessionId, systemPrompt, userMessage);
 
-    // Obtener historial de mensajes recientes
-    const recentMessages = await this.storage.getRecentMessages(sessionId, 10);
-    
     // Construir contexto conversacional
     const messages: BaseMessage[] = [
-      new SystemMessage(this.getSystemPrompt())
+      new SystemMessage(context.summary
+        ? `${systemPrompt}\n\n${SUMMARY_HEADERS[this.consultationLanguage(session)]}\n${context.summary}`
+        : systemPrompt)
     ];
 
     // Agregar historial de conversación
-    recentMessages.forEach(msg => {
+    context.history.forEach(msg => {
       if (msg.role === 'user') {
         messages.push(new HumanMessage(msg.content));
       } else {
@@ -124,45 +649,88 @@ Responde SIEMPRE en español y actúa como si fueras un psicólogo real en consu
     // Agregar mensaje actual del usuario
     messages.push(new HumanMessage(userMessage));
 
-    // Procesar con LangChain
-    const response = await this.llm.invoke(messages);
-    const responseText = response.content as string;
+    return { messages, sources: matches.length > 0 ? matches.map(toCitation) : undefined };
+  }
 
-    // Analizar respuesta para actualizar estado de sesión
-    this.updateSessionState(session, userMessage, responseText);
+  // Persona e idioma de la conversación; se leen una vez, antes de cualquier respuesta (también
+  // las de crisis y cuestionario, que no esperan al historial del paciente)
+  private async loadConversationSettings(session: PsychologicalSession): Promise<void> {
+    if (session.language) return;
 
-    return responseText;
+    const conversation = await this.storage.getConversation(session.sessionId).catch(error => {
+      console.error('Failed to load conversation settings:', error);
+      return undefined;
+    });
+    const persona = this.personas.resolve(conversation?.personaId);
+    session.personaId = conversation?.personaId ?? undefined;
+    session.language = normalizeLanguage(conversation?.language) ?? normalizeLanguage(persona.language) ?? defaultLanguage();
+    session.languagePinned = conversation?.languagePinned ?? false;
   }
 
-  private updateSessionState(session: PsychologicalSession, userInput: string, response: string): void {
-    // Análisis simple de patrones para actualizar estado
-    const lowerInput = userInput.toLowerCase();
-    
-    // Detectar síntomas mencionados
-    const symptomKeywords = [
-      'ansiedad', 'depresión', 'estrés', 'miedo', 'pánico', 'tristeza', 
-      'preocupación', 'insomnio', 'fatiga', 'irritabilidad', 'llanto',
-      'pensamientos', 'obsesiones', 'compulsiones', 'fobias'
-    ];
+  // El paciente cambió de idioma: se responde en el suyo salvo que la sesión tenga el idioma fijado
+  private followPatientLanguage(session: PsychologicalSession, language?: ConsultationLanguage): void {
+    if (!language || session.languagePinned || language === session.language) return;
 
-    symptomKeywords.forEach(symptom => {
-      if (lowerInput.includes(symptom) && !session.symptoms.includes(symptom)) {
-        session.symptoms.push(symptom);
-      }
-    });
+    console.log(`🌐 Session ${session.sessionId}: ${session.language} → ${language}`);
+    session.language = language;
+  }
 
-    // Detectar factores de riesgo
-    const riskKeywords = [
-      'suicidio', 'autolesión', 'muerte', 'hacerme daño', 'acabar con todo',
-      'no vale la pena', 'mejor muerto', 'plan', 'pastillas'
-    ];
+  // Cambia el idioma de la sesión y/o lo fija (POST /api/sessions/:sessionId/language)
+  async updateLanguage(
+    sessionId: string,
+    update: { language?: ConsultationLanguage; pinned?: boolean }
+  ): Promise<{ language: ConsultationLanguage; pinned: boolean }> {
+    const session = this.getOrCreateSession(sessionId);
+    await this.loadConversationSettings(session);
+    if (update.language) session.language = update.language;
+    if (update.pinned !== undefined) session.languagePinned = update.pinned;
+    return { language: this.consultationLanguage(session), pinned: session.languagePinned ?? false };
+  }
 
-    riskKeywords.forEach(risk => {
-      if (lowerInput.includes(risk) && !session.riskFactors.includes(risk)) {
-        session.riskFactors.push(risk);
-        session.phase = 'assessment'; // Escalate to assessment if risk detected
-      }
-    });
+  // Si el paciente regresa, carga los resúmenes y el estado clínico de sus consultas
+  // anteriores (devuelve la sección de historial del prompt)
+  private getConversationContext(session: PsychologicalSession): Promise<string | null> {
+    let context = this.conversationContexts.get(session.sessionId);
+    if (!context) {
+      context = this.loadConversationContext(session).catch(error => {
+        console.error('Failed to load conversation context:', error);
+        return null;
+      });
+      this.conversationContexts.set(session.sessionId, context);
+    }
+    return context;
+  }
+
+  private async loadConversationContext(session: PsychologicalSession): Promise<string | null> {
+    this.applyActivePlan(session, await loadActivePlan(this.storage, session.sessionId));
+
+    const conversation = await this.storage.getConversation(session.sessionId);
+    if (!conversation?.patientId) return null;
+
+    session.patientId = conversation.patientId;
+    session.pendingHomework = await loadPendingHomework(this.storage, conversation.patientId, session.sessionId);
+    if (session.pendingHomework.length > 0) {
+      console.log(`📝 Patient ${conversation.patientId}: ${session.pendingHomework.length} homework assignments to review`);
+    }
+    const previous = await loadPreviousSessions(this.storage, this.memory, conversation.patientId, session.sessionId);
+    if (previous.length > 0) {
+      console.log(`🔁 Returning patient ${conversation.patientId}: ${previous.length} previous sessions loaded`);
+    }
+    return formatPatientHistory(previous, this.consultationLanguage(session));
+  }
+
+  private previousAssistantMessage(messages: BaseMessage[]): string | undefined {
+    const previous = [...messages].reverse().find(msg => msg._getType() === 'ai');
+    return typeof previous?.content === 'string' ? previous.content : undefined;
+  }
+
+  private updateSessionState(
+    session: PsychologicalSession,
+    userInput: string,
+    response: string,
+    previousAssistantMessage?: string
+  ): void {
+    session.turnCount++;
 
     // Agregar nota de sesión
     session.sessionNotes.push(`Usuario: ${userInput.substring(0, 100)}...`);
@@ -172,12 +740,182 @@ Responde SIEMPRE en español y actúa como si fueras un psicólogo real en consu
     if (session.sessionNotes.length > 20) {
       session.sessionNotes = session.sessionNotes.slice(-20);
     }
+
+    // La extracción clínica corre en segundo plano para no retrasar la respuesta hablada;
+    // los criterios de fase se evalúan con sus resultados
+    const previous = this.pendingExtractions.get(session.sessionId) ?? Promise.resolve();
+    const next = previous
+      .then(() => this.applyClinicalExtraction(session, userInput, previousAssistantMessage))
+      .catch(error => console.error('Clinical extraction error:', error))
+      .then(() => this.reviewHomework(session, userInput, previousAssistantMessage))
+      .catch(error => console.error('Homework review error:', error))
+      .then(async () => {
+        const transition = advancePhase(session);
+        if (transition) {
+          console.log(`🧭 Session ${session.sessionId}: ${transition.from} → ${transition.to} (${transition.reason})`);
+        }
+        // Al llegar a la fase de tratamiento se redacta el plan para acordarlo en los turnos siguientes
+        if (session.phase === 'treatment' && !session.activePlan && !this.planDraftAttempts.has(session.sessionId)) {
+          this.planDraftAttempts.add(session.sessionId);
+          await this.createDraftPlan(session).catch(error => console.error('Treatment plan draft error:', error));
+        }
+        // Se guarda para retomarlo en próximas consultas del mismo paciente
+        return this.storage.saveClinicalState(session.sessionId, this.snapshot(session));
+      })
+      .catch(error => console.error('Failed to save clinical state:', error));
+    this.pendingExtractions.set(session.sessionId, next);
+  }
+
+  private async applyClinicalExtraction(
+    session: PsychologicalSession,
+    userInput: string,
+    previousAssistantMessage?: string
+  ): Promise<void> {
+    const extraction = await this.extractor.extract({ userMessage: userInput, previousAssistantMessage });
+    if (!extraction) return;
+
+    session.symptoms = mergeFindings(session.symptoms, extraction.symptoms);
+    session.concerns = mergeFindings(session.concerns, extraction.concerns);
+    session.riskFactors = mergeFindings(session.riskFactors, extraction.riskFactors);
+
+    // El motivo de consulta es la primera preocupación (o síntoma) que expresa el paciente
+    if (!session.chiefComplaint) {
+      session.chiefComplaint = session.concerns[0]?.label ?? session.symptoms[0]?.label;
+    }
+
+    if (extraction.riskFactors.length > 0) {
+      // Escalate to assessment if risk detected
+      transitionPhase(session, 'assessment', 'risk', `Factores de riesgo: ${extraction.riskFactors.map(r => r.label).join(', ')}`);
+    }
+  }
+
+  // Registra las tareas que el paciente dice haber hecho (o no) mientras quedan pendientes de revisar
+  private async reviewHomework(
+    session: PsychologicalSession,
+    userInput: string,
+    previousAssistantMessage?: string
+  ): Promise<void> {
+    const pending = session.pendingHomework ?? [];
+    if (pending.length === 0) return;
+
+    const reviews = await this.planner.reviewHomework({ pending, userMessage: userInput, previousAssistantMessage });
+    for (const review of reviews) {
+      await this.storage.updateHomework(review.id, { status: review.status, notes: review.notes ?? null });
+      console.log(`📝 Session ${session.sessionId}: homework ${review.id} ${review.status}`);
+    }
+    const reviewed = new Set(reviews.map(review => review.id));
+    session.pendingHomework = pending.filter(item => !reviewed.has(item.id));
+  }
+
+  // Redacta un plan de TCC con el estado clínico, el resumen y los últimos turnos, y lo guarda
+  // como plan activo de la consulta (los anteriores quedan interrumpidos)
+  private async createDraftPlan(session: PsychologicalSession): Promise<ActivePlan | null> {
+    await this.getConversationContext(session);
+    const [conversation, recent] = await Promise.all([
+      this.storage.getConversation(session.sessionId),
+      this.storage.getRecentMessages(session.sessionId, PLAN_DRAFT_RECENT_MESSAGES),
+    ]);
+
+    const draft = await this.planner.draft({
+      state: this.snapshot(session),
+      summary: conversation?.summary ?? null,
+      transcript: recent.map(({ role, content }) => ({ role, content })),
+      language: this.consultationLanguage(session),
+    });
+    if (!draft) return null;
+
+    const plan = await this.storage.replaceActiveTreatmentPlan({
+      conversationId: session.sessionId,
+      patientId: session.patientId ?? conversation?.patientId ?? null,
+      diagnosis: draft.diagnosis ?? null,
+      goals: draft.goals,
+      techniques: draft.techniques,
+      source: 'generated',
+    }, draftHomework(draft));
+    const active = { plan, homework: await this.storage.getHomework(plan.id) };
+
+    console.log(`🗒️ Session ${session.sessionId}: treatment plan ${plan.id} drafted (${draft.goals.length} goals, ${active.homework.length} homework)`);
+    this.applyActivePlan(session, active);
+    return active;
+  }
+
+  private applyActivePlan(session: PsychologicalSession, active: ActivePlan | null): void {
+    session.activePlan = active ?? undefined;
+    session.treatmentPlan = active ? planSummaryLines(active.plan) : undefined;
+    session.diagnosis = active?.plan.diagnosis ?? undefined;
+  }
+
+  // Redacta un plan nuevo a petición (POST /api/sessions/:sessionId/treatment-plan/draft)
+  async draftTreatmentPlan(sessionId: string): Promise<ActivePlan | null> {
+    const session = this.getOrCreateSession(sessionId);
+    await this.loadConversationSettings(session);
+    await this.waitForExtraction(sessionId);
+    this.planDraftAttempts.add(sessionId);
+    const active = await this.createDraftPlan(session);
+    if (active) {
+      await this.storage.saveClinicalState(sessionId, this.snapshot(session));
+    }
+    return active;
+  }
+
+  // Borrador de nota SOAP con lo guardado de la consulta; espera a que se guarden el estado
+  // clínico y el resumen del último turno
+  async draftSoapNote(sessionId: string): Promise<SoapNoteDraft | null> {
+    await this.waitForExtraction(sessionId);
+    await this.waitForSummary(sessionId);
+    const input = await loadSoapNoteInput(this.storage, sessionId);
+    return input ? this.soapWriter.draft(input) : null;
+  }
+
+  // Vuelve a leer un plan editado por la API en las sesiones en memoria afectadas: la suya y
+  // las consultas posteriores del mismo paciente, que revisan sus tareas
+  async refreshTreatmentPlan(plan: Pick<TreatmentPlan, 'conversationId' | 'patientId'>): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    for (let i = 0; i < sessions.length; i++) {
+      const session = sessions[i];
+      if (session.sessionId === plan.conversationId) {
+        this.applyActivePlan(session, await loadActivePlan(this.storage, session.sessionId));
+      } else if (plan.patientId && session.patientId === plan.patientId) {
+        session.pendingHomework = await loadPendingHomework(this.storage, plan.patientId, session.sessionId);
+      }
+    }
+  }
+
+  private snapshot(session: PsychologicalSession): ClinicalSnapshot {
+    const findings = (list: ClinicalFinding[]) => list.map(({ label, severity }) => ({ label, severity }));
+    return {
+      phase: session.phase,
+      chiefComplaint: session.chiefComplaint,
+      symptoms: findings(session.symptoms),
+      concerns: findings(session.concerns),
+      riskFactors: findings(session.riskFactors),
+      treatmentPlan: session.treatmentPlan,
+      questionnaires: session.questionnaireResults.map(({ name, total, maxScore, severity, completedAt }) => ({
+        name, total, maxScore, severity, completedAt,
+      })),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  // Espera a que termine la extracción clínica del último turno (para resúmenes consistentes)
+  async waitForExtraction(sessionId: string): Promise<void> {
+    await this.pendingExtractions.get(sessionId);
+  }
+
+  async waitForSummary(sessionId: string): Promise<void> {
+    await this.memory.waitForSummary(sessionId);
   }
 
   getSessionState(sessionId: string): PsychologicalSession | undefined {
     return this.sessions.get(sessionId);
   }
 
+  // Estado clínico de la sesión en memoria, con la misma forma que el guardado en la conversación
+  getClinicalSnapshot(sessionId: string): ClinicalSnapshot | null {
+    const session = this.sessions.get(sessionId);
+    return session ? this.snapshot(session) : null;
+  }
+
   // Método para obtener resumen de la sesión
   getSessionSummary(sessionId: string): string {
     const session = this.sessions.get(sessionId);
@@ -186,8 +924,16 @@ Responde SIEMPRE en español y actúa como si fueras un psicólogo real en consu
     return `
 Resumen de Sesión - ${sessionId}:
 - Fase actual: ${session.phase}
-- Síntomas identificados: ${session.symptoms.join(', ') || 'Ninguno registrado'}
+- Idioma: ${this.consultationLanguage(session)} (${session.languagePinned ? 'fijado' : 'sigue al paciente'})
+- Motivo de consulta: ${session.chiefComplaint || 'No identificado'}
+- Transiciones de fase: ${session.phaseHistory.map(t => `${t.from} → ${t.to} (turno ${t.atTurn}: ${t.reason})`).join('; ') || 'Ninguna'}
+- Síntomas identificados: ${session.symptoms.map(s => `${s.label} (${s.severity})`).join(', ') || 'Ninguno registrado'}
+- Preocupaciones: ${session.concerns.map(c => c.label).join(', ') || 'Ninguna registrada'}
 - Factores de riesgo: ${session.riskFactors.length > 0 ? 'PRESENTES' : 'No detectados'}
+- Plan de tratamiento: ${session.activePlan ? `#${session.activePlan.plan.id} (${session.activePlan.plan.source}): ${session.activePlan.plan.goals.join('; ')}` : 'Sin plan'}
+- Tareas pendientes de revisar: ${session.pendingHomework?.length ?? 0}
+- Cuestionarios: ${session.questionnaireResults.map(r => `${r.name} ${r.total}/${r.maxScore} (${r.severity})`).join(', ') || 'Ninguno aplicado'}
+- Protocolo de crisis: ${session.crisisDetectedAt ? `ACTIVADO (${session.crisisDetectedAt})` : 'No activado'}
 - Notas de sesión: ${session.sessionNotes.length} entradas
     `.trim();
   }
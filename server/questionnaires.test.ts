@@ -0,0 +1,68 @@
+import { describe, it, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { answerQuestionnaire, parseFrequencyAnswer, startQuestionnaire } from "./questionnaires.js";
+import { startTestApp, type TestApp } from "./test-app.js";
+
+describe('parseFrequencyAnswer', () => {
+  it('scores frequency answers in both languages', () => {
+    assert.equal(parseFrequencyAnswer('Casi todos los días'), 3);
+    assert.equal(parseFrequencyAnswer('Más de la mitad de los días'), 2);
+    assert.equal(parseFrequencyAnswer('Casi nunca'), 1);
+    assert.equal(parseFrequencyAnswer('No, nunca'), 0);
+    assert.equal(parseFrequencyAnswer('Nearly every day'), 3);
+    assert.equal(parseFrequencyAnswer('Not at all'), 0);
+    assert.equal(parseFrequencyAnswer('dos'), 2);
+  });
+
+  it('does not score a negated frequency with its band', () => {
+    assert.equal(parseFrequencyAnswer('No siempre'), null);
+    assert.equal(parseFrequencyAnswer('Not every day'), null);
+    assert.equal(parseFrequencyAnswer('No con frecuencia'), null);
+    assert.equal(parseFrequencyAnswer('No siempre, solo a veces'), 1);
+    assert.equal(parseFrequencyAnswer('Not every day, but most days'), 2);
+  });
+
+  it('asks the item again after a negated answer', () => {
+    const progress = startQuestionnaire('phq9');
+    answerQuestionnaire(progress, 'Vale');
+
+    const step = answerQuestionnaire(progress, 'No siempre');
+    assert.equal(step.status, 'asking');
+    assert.equal(progress.itemIndex, 0);
+    assert.deepEqual(progress.answers, []);
+  });
+});
+
+describe('POST /api/sessions/:sessionId/questionnaires', () => {
+  let app: TestApp;
+  before(async () => {
+    // Node 20's runner can fail to parse the child's output when the app's logs interleave with it
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    app = await startTestApp();
+  });
+  after(async () => {
+    await app.close();
+    mock.restoreAll();
+  });
+
+  const schedule = (sessionId: string) => fetch(`${app.baseUrl}/api/sessions/${sessionId}/questionnaires`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ instrument: 'phq9' }),
+  });
+
+  it('returns 404 for an unknown session', async () => {
+    assert.equal((await schedule('missing')).status, 404);
+  });
+
+  it('schedules a questionnaire for an existing session', async () => {
+    await fetch(`${app.baseUrl}/api/conversations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: 'phq', language: 'es' }),
+    });
+    assert.equal((await schedule('phq')).status, 201);
+    assert.equal((await schedule('phq')).status, 409);
+  });
+});
@@ -0,0 +1,295 @@
+// Validated screening instruments (PHQ-9, GAD-7) administered item by item over voice:
+// the agent reads each item, the spoken answer is mapped to the 0-3 frequency scale
+import type { FindingSeverity } from "./clinical-extractor.js";
+import type { ConsultationLanguage } from "./languages.js";
+
+export type QuestionnaireId = 'phq9' | 'gad7';
+
+export type SeverityBand = 'minimal' | 'mild' | 'moderate' | 'moderately_severe' | 'severe';
+
+interface QuestionnaireDefinition {
+  id: QuestionnaireId;
+  name: string;
+  topic: Record<ConsultationLanguage, string>;
+  // Complete "En las últimas dos semanas, ¿con qué frecuencia ...?" /
+  // "Over the last two weeks, how often have you been bothered by ...?"
+  items: Record<ConsultationLanguage, string[]>;
+  bands: { min: number; band: SeverityBand }[]; // highest min first
+  // Index of an item whose positive answer is a risk indicator (PHQ-9 item 9)
+  riskItem?: number;
+}
+
+export const QUESTIONNAIRES: Record<QuestionnaireId, QuestionnaireDefinition> = {
+  phq9: {
+    id: 'phq9',
+    name: 'PHQ-9',
+    topic: { es: 'tu estado de ánimo', en: 'your mood' },
+    items: {
+      es: [
+        'has tenido poco interés o placer en hacer cosas',
+        'te has sentido decaído, deprimido o sin esperanza',
+        'has tenido dificultad para dormir o permanecer dormido, o has dormido demasiado',
+        'te has sentido cansado o con poca energía',
+        'has tenido poco apetito o has comido en exceso',
+        'te has sentido mal contigo mismo, o que eres un fracaso o que has quedado mal contigo o con tu familia',
+        'has tenido dificultad para concentrarte en cosas como leer o ver la televisión',
+        'te has movido o hablado tan despacio que otros lo han notado, o lo contrario, has estado tan inquieto que te movías más de lo normal',
+        'has tenido pensamientos de que estarías mejor muerto o de hacerte daño de alguna manera',
+      ],
+      en: [
+        'little interest or pleasure in doing things',
+        'feeling down, depressed, or hopeless',
+        'trouble falling or staying asleep, or sleeping too much',
+        'feeling tired or having little energy',
+        'poor appetite or overeating',
+        'feeling bad about yourself, or that you are a failure or have let yourself or your family down',
+        'trouble concentrating on things, such as reading or watching television',
+        'moving or speaking so slowly that other people could have noticed, or the opposite, being so fidgety or restless that you have been moving around a lot more than usual',
+        'thoughts that you would be better off dead, or of hurting yourself in some way',
+      ],
+    },
+    bands: [
+      { min: 20, band: 'severe' },
+      { min: 15, band: 'moderately_severe' },
+      { min: 10, band: 'moderate' },
+      { min: 5, band: 'mild' },
+      { min: 0, band: 'minimal' },
+    ],
+    riskItem: 8,
+  },
+  gad7: {
+    id: 'gad7',
+    name: 'GAD-7',
+    topic: { es: 'la ansiedad', en: 'anxiety' },
+    items: {
+      es: [
+        'te has sentido nervioso, ansioso o con los nervios de punta',
+        'no has podido dejar de preocuparte o controlar tu preocupación',
+        'te has preocupado demasiado por diferentes cosas',
+        'has tenido dificultad para relajarte',
+        'has estado tan inquieto que te costaba quedarte quieto',
+        'te has molestado o irritado fácilmente',
+        'has sentido miedo, como si algo terrible fuera a pasar',
+      ],
+      en: [
+        'feeling nervous, anxious, or on edge',
+        'not being able to stop or control worrying',
+        'worrying too much about different things',
+        'trouble relaxing',
+        'being so restless that it is hard to sit still',
+        'becoming easily annoyed or irritable',
+        'feeling afraid, as if something awful might happen',
+      ],
+    },
+    bands: [
+      { min: 15, band: 'severe' },
+      { min: 10, band: 'moderate' },
+      { min: 5, band: 'mild' },
+      { min: 0, band: 'minimal' },
+    ],
+  },
+};
+
+export interface QuestionnaireAnswer {
+  item: number;
+  score: number;
+  response: string;
+}
+
+export interface QuestionnaireProgress {
+  id: QuestionnaireId;
+  itemIndex: number;
+  answers: QuestionnaireAnswer[];
+  introduced: boolean;
+  startedAt: string;
+}
+
+export interface QuestionnaireResult {
+  id: QuestionnaireId;
+  name: string;
+  total: number;
+  maxScore: number;
+  severity: SeverityBand;
+  answers: QuestionnaireAnswer[];
+  riskItemPositive: boolean;
+  startedAt: string;
+  completedAt: string;
+}
+
+export type QuestionnaireStep =
+  | { status: 'asking'; reply: string }
+  | { status: 'completed'; reply: string; result: QuestionnaireResult }
+  | { status: 'cancelled'; reply: string };
+
+// Spoken wording of the engine, per consultation language
+const SCRIPT: Record<ConsultationLanguage, {
+  answerOptions: string;
+  question: (number: number, item: string) => string;
+  intro: (count: number, topic: string, options: string) => string;
+  next: string;
+  retry: (options: string) => string;
+  cancelled: string;
+  completed: string;
+  completedWithRisk: string;
+}> = {
+  es: {
+    answerOptions: 'nunca, varios días, más de la mitad de los días, o casi todos los días',
+    question: (number, item) => `Pregunta ${number}: en las últimas dos semanas, ¿con qué frecuencia ${item}?`,
+    intro: (count, topic, options) => `Antes de seguir, me gustaría hacerte ${count} preguntas breves sobre ${topic}. Puedes responder: ${options}.`,
+    next: 'Gracias.',
+    retry: options => `Para esta pregunta necesito que elijas una opción: ${options}.`,
+    cancelled: 'De acuerdo, dejamos el cuestionario aquí. Cuéntame, ¿cómo te sientes?',
+    completed: 'Gracias, hemos terminado el cuestionario. Lo tendré en cuenta para entender mejor cómo te sientes. ¿Cómo te has sentido al responderlo?',
+    completedWithRisk: 'Gracias por responder con sinceridad. Mencionaste pensamientos de hacerte daño y quiero detenerme en eso: ¿estás a salvo en este momento?',
+  },
+  en: {
+    answerOptions: 'not at all, several days, more than half the days, or nearly every day',
+    question: (number, item) => `Question ${number}: over the last two weeks, how often have you been bothered by ${item}?`,
+    intro: (count, topic, options) => `Before we go on, I'd like to ask you ${count} short questions about ${topic}. You can answer: ${options}.`,
+    next: 'Thank you.',
+    retry: options => `For this question I need you to choose one option: ${options}.`,
+    cancelled: "All right, we'll stop the questionnaire here. Tell me, how are you feeling?",
+    completed: "Thank you, we've finished the questionnaire. I'll keep it in mind to better understand how you feel. How did it feel to answer it?",
+    completedWithRisk: "Thank you for answering honestly. You mentioned thoughts of hurting yourself and I want to pause on that: are you safe right now?",
+  },
+};
+
+// Checked in order: longer phrases first so "casi nunca" doesn't read as "nunca"
+const FREQUENCY_PATTERNS: { pattern: RegExp; score: number }[] = [
+  { pattern: /\b(casi todos los dias|todos los dias|cada dia|a diario|siempre|nearly every day|every day|all the time)\b/g, score: 3 },
+  { pattern: /\b(mas de la mitad|la mitad|muchos dias|la mayoria|frecuentemente|con frecuencia|more than half|most days|often)\b/g, score: 2 },
+  { pattern: /\b(casi nunca|varios dias|algunos dias|pocos dias|a veces|de vez en cuando|ocasionalmente|un poco|several days|some days|sometimes|a few days)\b/g, score: 1 },
+  { pattern: /\b(nunca|ningun dia|nada|para nada|en absoluto|not at all|never|none)\b/g, score: 0 },
+];
+
+// "no siempre", "not every day": a negated keyword doesn't answer with its band. "No, nunca" stays a 0
+const FREQUENCY_NEGATORS = new Set(['no', 'not', 'ni']);
+
+const NUMBER_WORDS: Record<string, number> = {
+  '0': 0, cero: 0, zero: 0,
+  '1': 1, uno: 1, one: 1,
+  '2': 2, dos: 2, two: 2,
+  '3': 3, tres: 3, three: 3,
+};
+
+const CANCEL_PATTERN = /\b(dejemos el cuestionario|dejar el cuestionario|parar el cuestionario|no quiero (responder|contestar|seguir con)|stop the questionnaire|skip the questionnaire|i don t want to (answer|continue))\b/;
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function isNegated(normalized: string, index: number): boolean {
+  const before = normalized.slice(0, index).trim().split(' ');
+  return FREQUENCY_NEGATORS.has(before[before.length - 1]);
+}
+
+// Maps a spoken answer to 0-3, or null when it can't be scored (a negated band is asked again)
+export function parseFrequencyAnswer(text: string): number | null {
+  const normalized = normalize(text);
+
+  for (const { pattern, score } of FREQUENCY_PATTERNS) {
+    const matches = Array.from(normalized.matchAll(pattern));
+    if (matches.some(match => score === 0 || !isNegated(normalized, match.index ?? 0))) return score;
+  }
+
+  // A bare number ("dos", "3") answers with the scale value itself
+  const words = normalized.split(' ');
+  if (words.length <= 2) {
+    const number = words.map(word => NUMBER_WORDS[word]).find(value => value !== undefined);
+    if (number !== undefined) return number;
+  }
+
+  // A bare "no" means "not at all" ("no sé" stays unscored)
+  if (/^(no|no no|nope)$/.test(normalized)) return 0;
+
+  return null;
+}
+
+export function severityBand(id: QuestionnaireId, total: number): SeverityBand {
+  const band = QUESTIONNAIRES[id].bands.find(entry => total >= entry.min);
+  return band?.band ?? 'minimal';
+}
+
+// Maps a screening band to the severity used for clinical findings
+export function bandToFindingSeverity(band: SeverityBand): FindingSeverity {
+  if (band === 'severe' || band === 'moderately_severe') return 'severe';
+  return band === 'moderate' ? 'moderate' : 'mild';
+}
+
+export function isQuestionnaireId(value: unknown): value is QuestionnaireId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(QUESTIONNAIRES, value);
+}
+
+export function startQuestionnaire(id: QuestionnaireId, now: Date = new Date()): QuestionnaireProgress {
+  return { id, itemIndex: 0, answers: [], introduced: false, startedAt: now.toISOString() };
+}
+
+function itemQuestion(definition: QuestionnaireDefinition, index: number, language: ConsultationLanguage): string {
+  return SCRIPT[language].question(index + 1, definition.items[language][index]);
+}
+
+export function questionnaireIntro(progress: QuestionnaireProgress, language: ConsultationLanguage = 'es'): string {
+  const definition = QUESTIONNAIRES[progress.id];
+  const script = SCRIPT[language];
+  return `${script.intro(definition.items[language].length, definition.topic[language], script.answerOptions)} ` +
+    itemQuestion(definition, progress.itemIndex, language);
+}
+
+export function scoreQuestionnaire(progress: QuestionnaireProgress, now: Date = new Date()): QuestionnaireResult {
+  const definition = QUESTIONNAIRES[progress.id];
+  const total = progress.answers.reduce((sum, answer) => sum + answer.score, 0);
+  const riskItem = definition.riskItem;
+
+  return {
+    id: progress.id,
+    name: definition.name,
+    total,
+    maxScore: definition.items.es.length * 3,
+    severity: severityBand(progress.id, total),
+    answers: progress.answers,
+    riskItemPositive: riskItem !== undefined && progress.answers.some(a => a.item === riskItem && a.score > 0),
+    startedAt: progress.startedAt,
+    completedAt: now.toISOString(),
+  };
+}
+
+// Advances the questionnaire with the patient's reply. Mutates progress; the first call only
+// introduces the instrument and reads item 1. Answers are understood in either language.
+export function answerQuestionnaire(
+  progress: QuestionnaireProgress,
+  userMessage: string,
+  language: ConsultationLanguage = 'es',
+  now: Date = new Date()
+): QuestionnaireStep {
+  const definition = QUESTIONNAIRES[progress.id];
+  const script = SCRIPT[language];
+
+  if (!progress.introduced) {
+    progress.introduced = true;
+    return { status: 'asking', reply: questionnaireIntro(progress, language) };
+  }
+
+  if (CANCEL_PATTERN.test(normalize(userMessage))) {
+    return { status: 'cancelled', reply: script.cancelled };
+  }
+
+  const score = parseFrequencyAnswer(userMessage);
+  if (score === null) {
+    return {
+      status: 'asking',
+      reply: `${script.retry(script.answerOptions)} ${itemQuestion(definition, progress.itemIndex, language)}`,
+    };
+  }
+
+  progress.answers.push({ item: progress.itemIndex, score, response: userMessage });
+  progress.itemIndex++;
+
+  if (progress.itemIndex < definition.items[language].length) {
+    return { status: 'asking', reply: `${script.next} ${itemQuestion(definition, progress.itemIndex, language)}` };
+  }
+
+  const result = scoreQuestionnaire(progress, now);
+  const reply = result.riskItemPositive ? script.completedWithRisk : script.completed;
+
+  return { status: 'completed', reply, result };
+}
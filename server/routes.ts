@@ -1,12 +1,23 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertConversationSchema, insertMessageSchema } from "@shared/schema";
+import { createStorage, InvalidCursorError, MAX_PAGE_SIZE, type IStorage } from "./storage";
+import { insertConversationSchema, insertMessageSchema, insertPatientSchema } from "@shared/schema";
+import crypto from "crypto";
 import multer from "multer";
-import { PsychologicalAgent } from "./psychological-agent.js";
+import { z } from "zod";
+import { PsychologicalAgent, scriptedReplyEvents, type AgentReply } from "./psychological-agent.js";
 import { addSessionEndpoints } from "./session-endpoints.js";
+import { addTreatmentPlanEndpoints } from "./treatment-plan-routes.js";
+import { addSoapNoteEndpoints } from "./soap-note-routes.js";
+import { addClinicianEndpoints } from "./clinician-routes.js";
+import { TakeoverManager } from "./takeover.js";
 import { HeyGenService } from "./heygen-service.js";
 import { addAvatarRoutes } from "./avatar-routes.js";
+import { TurnRegistry, isAbortError, type InFlightTurn } from "./turn-registry.js";
+import { createSTTProvider, STTRequestError, type STTProvider } from "./stt-provider.js";
+import { loadPersonaRegistry, type PersonaRegistry } from "./personas.js";
+import { defaultLanguage, isConsultationLanguage, normalizeLanguage, utteranceLanguage, type UtteranceLanguage } from "./languages.js";
+import { scoreMessage } from "./emotion-analyzer.js";
 
 // Configure multer for audio file uploads
 const upload = multer({
@@ -24,29 +35,153 @@ const upload = multer({
   },
 });
 
+const queryBoolean = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+const listConversationsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  cursor: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  q: z.string().trim().min(1).optional(),
+  riskFlagged: queryBoolean.optional(),
+  reviewed: queryBoolean.optional(),
+});
+
+const messagesPageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  cursor: z.string().min(1).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+});
+
+// Body of /api/agent and /api/agent/stream; unknown fields are dropped before anything is stored
+const agentRequestSchema = z.object({
+  inputText: z.string({ required_error: "Missing required fields" }).min(1, "Missing required fields"),
+  sessionId: z.string({ required_error: "Missing required fields" }).min(1, "Missing required fields"),
+  turnId: z.string().min(1).optional(),
+  country: z.string().optional(),
+  detectedLanguage: z.string().nullish(),
+  isVoice: z.boolean().optional(),
+  audioData: z.string().nullish(),
+  isAvatarCall: z.boolean().optional(),
+  vadDetected: z.boolean().optional(),
+  transcriptionDuration: z.number().nonnegative().optional(),
+});
+
+type AgentRequest = z.infer<typeof agentRequestSchema>;
+
 // Initialize services - will be done after env vars are loaded
+let storage: IStorage;
 let psychologicalAgent: PsychologicalAgent;
 let heygenService: HeyGenService;
+let sttProvider: STTProvider;
+let personaRegistry: PersonaRegistry;
+let takeoverManager: TakeoverManager;
+const turnRegistry = new TurnRegistry();
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize services after environment variables are loaded
+  if (!storage) {
+    storage = await createStorage();
+  }
+  if (!personaRegistry) {
+    personaRegistry = loadPersonaRegistry();
+  }
   if (!psychologicalAgent) {
-    psychologicalAgent = new PsychologicalAgent(storage);
+    psychologicalAgent = new PsychologicalAgent(storage, undefined, { personas: personaRegistry });
   }
   if (!heygenService) {
     heygenService = new HeyGenService();
   }
+  if (!sttProvider) {
+    sttProvider = createSTTProvider();
+  }
+  if (!takeoverManager) {
+    takeoverManager = new TakeoverManager(storage);
+  }
+
+  // Register a patient; the returned patientKey identifies them on later visits
+  app.post("/api/patients", async (req, res) => {
+    try {
+      const data = insertPatientSchema.parse(req.body ?? {});
+      const patient = await storage.createPatient({ ...data, patientKey: crypto.randomUUID() });
+      res.status(201).json(patient);
+    } catch (error) {
+      res.status(400).json({ 
+        message: error instanceof Error ? error.message : "Invalid patient data" 
+      });
+    }
+  });
+
+  // Patient profile with their previous consultations (newest first)
+  app.get("/api/patients/:patientKey", async (req, res) => {
+    try {
+      const patient = await storage.getPatientByKey(req.params.patientKey);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
 
-  // Get or create conversation
+      const conversations = await storage.getPatientConversations(patient.id);
+      res.json({ patient, conversations });
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch patient" 
+      });
+    }
+  });
+
+  // Therapist personas (name, prompt, avatar, voice, greeting); the client starts the avatar
+  // of the persona stored on its conversation
+  app.get("/api/personas", async (req, res) => {
+    res.json({
+      defaultPersonaId: personaRegistry.getDefault().id,
+      personas: personaRegistry.list(),
+    });
+  });
+
+  app.get("/api/personas/:personaId", async (req, res) => {
+    const persona = personaRegistry.get(req.params.personaId);
+    if (!persona) {
+      return res.status(404).json({ message: "Persona not found" });
+    }
+    res.json(persona);
+  });
+
+  // Get or create conversation, optionally linked to a returning patient via patientKey.
+  // personaId picks the therapist persona and language ("es" | "en") the consultation language;
+  // when only one is given the other follows it, when neither the defaults are used.
+  // languagePinned keeps replies in that language even when the patient switches.
   app.post("/api/conversations", async (req, res) => {
     try {
-      const { sessionId } = insertConversationSchema.parse(req.body);
+      const { sessionId, personaId, language, languagePinned } = insertConversationSchema.parse(req.body);
+      const { patientKey } = req.body;
+
+      if (personaId && !personaRegistry.get(personaId)) {
+        return res.status(400).json({ message: `Unknown persona "${personaId}"` });
+      }
+      if (language && !isConsultationLanguage(language)) {
+        return res.status(400).json({ message: `Unsupported language "${language}"` });
+      }
+
+      const patient = patientKey ? await storage.getPatientByKey(patientKey) : undefined;
+      if (patientKey && !patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
 
       // Check if conversation already exists
       let conversation = await storage.getConversation(sessionId);
 
       if (!conversation) {
-        conversation = await storage.createConversation({ sessionId });
+        const persona = personaId ? personaRegistry.resolve(personaId) : personaRegistry.getDefault(language ?? undefined);
+        conversation = await storage.createConversation({
+          sessionId,
+          patientId: patient?.id,
+          personaId: persona.id,
+          language: language || (isConsultationLanguage(persona.language) ? persona.language : defaultLanguage()),
+          languagePinned,
+        });
+      }
+      if (patient) {
+        await storage.touchPatient(patient.id);
       }
 
       res.json(conversation);
@@ -57,13 +192,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get messages for a conversation
+  // List conversations (newest first) with cursor pagination, date range, full-text search and
+  // risk/review filters (the clinician dashboard lists flagged cases first)
+  app.get("/api/conversations", async (req, res) => {
+    const parsed = listConversationsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid query parameters" });
+    }
+
+    try {
+      const { limit, cursor, from, to, q, riskFlagged, reviewed } = parsed.data;
+      const page = await storage.listConversations({ limit, cursor, from, to, search: q, riskFlagged, reviewed });
+      res.json(page);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to list conversations" 
+      });
+    }
+  });
+
+  // Get messages for a conversation. Without limit/cursor the full history is returned
+  // as a plain array; with either one a { items, nextCursor } page is returned instead.
   app.get("/api/conversations/:sessionId/messages", async (req, res) => {
+    const parsed = messagesPageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid query parameters" });
+    }
+
     try {
       const { sessionId } = req.params;
-      const messages = await storage.getMessages(sessionId);
-      res.json(messages);
+      const { limit, cursor, order } = parsed.data;
+
+      if (limit === undefined && cursor === undefined) {
+        const messages = await storage.getMessages(sessionId);
+        return res.json(messages);
+      }
+
+      const page = await storage.getMessagesPage(sessionId, { limit, cursor, order });
+      res.json(page);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ 
         message: error instanceof Error ? error.message : "Failed to fetch messages" 
       });
@@ -72,144 +245,254 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Speech-to-Text transcription endpoint
   app.post("/api/transcribe", upload.single('audio'), async (req, res) => {
+    const { sessionId, turnId } = req.body;
+    let turn: InFlightTurn | undefined;
+
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No audio file provided" });
       }
 
-      const groqApiKey = process.env.GROQ_API_KEY;
       const startTime = Date.now();
 
-      if (!groqApiKey) {
-        return res.status(500).json({ message: "Groq API key not configured" });
+      if (!sttProvider.isConfigured()) {
+        return res.status(500).json({ message: `STT provider "${sttProvider.name}" not configured` });
       }
 
-      // Create FormData for Groq API
-      const formData = new FormData();
-      formData.append('file', new Blob([req.file.buffer], { type: req.file.mimetype }), 'audio.wav');
-      formData.append('model', 'whisper-large-v3');
-      formData.append('language', req.body.language || 'es');
-      formData.append('temperature', '0');
-
-      // Call Groq Whisper API
-      const response = await fetch('https://api.groq.com/openai/v1/audio/transcriptions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${groqApiKey}`,
-        },
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Groq API error:', errorText);
-        return res.status(response.status).json({ 
-          message: `Transcription failed: ${response.statusText}` 
-        });
+      // Register the turn so /api/interrupt can abort the upstream request
+      if (sessionId) {
+        turn = turnRegistry.begin(sessionId, 'transcription', turnId);
       }
 
-      const transcriptionResult = await response.json();
+      // Without an explicit language ("auto" lets the provider detect it), the conversation's
+      const conversation = sessionId && !req.body.language ? await storage.getConversation(sessionId) : undefined;
+      const result = await sttProvider.transcribe(req.file.buffer, {
+        mimeType: req.file.mimetype,
+        language: req.body.language || conversation?.language || defaultLanguage(),
+        signal: turn?.controller.signal,
+      });
       const processingTime = Date.now() - startTime;
 
       res.json({
-        transcription: transcriptionResult.text || '',
-        duration: transcriptionResult.duration || 0,
+        transcription: result.text,
+        duration: result.duration,
+        language: result.language,
+        confidence: result.confidence,
+        segments: result.segments,
+        provider: sttProvider.name,
         processingTime,
+        turnId: turn?.turnId,
       });
 
     } catch (error) {
+      if (isAbortError(error, turn?.controller.signal)) {
+        return sendCancelled(res, turn?.turnId ?? turnId);
+      }
+      if (error instanceof STTRequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Transcription error:', error);
       res.status(500).json({ 
         message: error instanceof Error ? error.message : "Transcription failed" 
       });
+    } finally {
+      if (turn) turnRegistry.end(sessionId, turn);
     }
   });
 
   // LLM Agent processing endpoint
   app.post("/api/agent", async (req, res) => {
-    try {
-      const { inputText, sessionId } = req.body;
-
-      if (!inputText || !sessionId) {
-        return res.status(400).json({ message: "Missing required fields" });
-      }
+    const parsed = agentRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid request" });
+    }
+    const body = parsed.data;
+    const { inputText, sessionId, turnId } = body;
+    let turn: InFlightTurn | undefined;
 
-      const groqApiKey = process.env.GROQ_API_KEY || process.env.GROQ_API_KEY_ENV_VAR;
-      if (!groqApiKey) {
-        return res.status(500).json({ message: "Groq API key not configured" });
+    try {
+      const provider = psychologicalAgent.getProvider();
+      if (!provider.isConfigured()) {
+        return res.status(500).json({ message: `LLM provider "${provider.name}" not configured` });
       }
 
       const startTime = Date.now();
+      turn = turnRegistry.begin(sessionId, 'agent', turnId);
+      const detected = utteranceLanguage(inputText, body.detectedLanguage);
+
+      const options = {
+        signal: turn.controller.signal,
+        country: body.country,
+        language: detected?.language,
+      };
+
+      // The crisis protocol answers every patient message, even while a clinician holds the session
+      const crisisReply = await psychologicalAgent.checkCrisis(sessionId, inputText, options);
+
+      // A clinician holds the session: the message goes to them and the agent stays silent
+      const clinician = await takeoverManager.activeClinician(sessionId);
+      if (clinician && !crisisReply) {
+        await relayToClinician(body, detected);
+        return res.json(await takeoverResponse(sessionId, clinician, turn.turnId, body.isAvatarCall));
+      }
 
       // Use psychological agent instead of direct Groq API call
-      const assistantReply = await psychologicalAgent.processMessage(sessionId, inputText);
+      const assistantReply = crisisReply ?? await psychologicalAgent.processMessage(sessionId, inputText, options);
       const processingTime = Date.now() - startTime;
 
+      // An interrupt may land after the LLM answered; drop the reply instead of storing it
+      turn.controller.signal.throwIfAborted();
+
       // Avatar TTS is now handled by the frontend SDK directly
       // Backend only processes STT -> LLM, frontend handles LLM -> Avatar
-
-      // Store both user message and assistant reply
-      await storage.addMessage({
-        conversationId: sessionId,
-        role: "user",
-        content: inputText,
-        isVoice: req.body.isVoice || false,
-        audioData: req.body.audioData || null,
-        metadata: {
-          vadDetected: req.body.vadDetected || false,
-          transcriptionDuration: req.body.transcriptionDuration || 0,
-        }
-      });
-
-      await storage.addMessage({
-        conversationId: sessionId,
-        role: "assistant", 
-        content: assistantReply,
-        isVoice: false,
-        metadata: {
-          processingTime,
-          agentType: "psychological",
-          avatarProcessed: req.body.isAvatarCall || false
-        }
-      });
-
-      // Get session state for context
-      const sessionState = psychologicalAgent.getSessionState(sessionId);
+      const userMessage = await persistExchange(body, assistantReply, processingTime, detected);
+      if (clinician) {
+        takeoverManager.relayPatientMessage(sessionId, userMessage);
+      }
 
       res.json({
-        replyText: assistantReply,
+        replyText: assistantReply.text,
         processingTime,
-        contextState: {
-          messageCount: (await storage.getMessages(sessionId)).length,
-          sessionPhase: sessionState?.phase || 'intake',
-          symptomsDetected: sessionState?.symptoms.length || 0,
-          riskFactors: sessionState?.riskFactors.length || 0,
-          avatarProcessed: req.body.isAvatarCall || false
-        }
+        turnId: turn.turnId,
+        language: assistantReply.language,
+        safetyEventId: assistantReply.safetyEvent?.id,
+        takeover: clinician ? { clinician } : undefined,
+        contextState: await buildContextState(sessionId, body.isAvatarCall),
       });
 
     } catch (error) {
+      if (isAbortError(error, turn?.controller.signal)) {
+        return sendCancelled(res, turn?.turnId ?? turnId);
+      }
       console.error('Agent processing error:', error);
       res.status(500).json({ 
         message: error instanceof Error ? error.message : "Agent processing failed" 
       });
+    } finally {
+      if (turn) turnRegistry.end(sessionId, turn);
+    }
+  });
+
+  // Streaming variant of /api/agent: replies over Server-Sent Events with token deltas and
+  // sentence boundaries so the avatar can start speaking the first sentence right away.
+  // Events: "delta" { text }, "sentence" { text, index }, "done" (same body as /api/agent),
+  // "cancelled" { turnId } and "error" { message }
+  app.post("/api/agent/stream", async (req, res) => {
+    const parsed = agentRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid request" });
+    }
+    const body = parsed.data;
+    const { inputText, sessionId, turnId } = body;
+
+    const provider = psychologicalAgent.getProvider();
+    if (!provider.isConfigured()) {
+      return res.status(500).json({ message: `LLM provider "${provider.name}" not configured` });
+    }
+
+    let turn: InFlightTurn;
+    try {
+      turn = turnRegistry.begin(sessionId, 'agent', turnId);
+    } catch (error) {
+      return sendCancelled(res, turnId);
+    }
+
+    // Stop generating if the client goes away mid-stream
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        turn.controller.abort();
+      }
+    });
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const startTime = Date.now();
+      let assistantReply: AgentReply = { text: '', agentType: 'psychological', language: defaultLanguage() };
+
+      const signal = turn.controller.signal;
+      const country = body.country;
+      const detected = utteranceLanguage(inputText, body.detectedLanguage);
+      const language = detected?.language;
+
+      const crisisReply = await psychologicalAgent.checkCrisis(sessionId, inputText, { signal, country, language });
+
+      const clinician = await takeoverManager.activeClinician(sessionId);
+      if (clinician && !crisisReply) {
+        await relayToClinician(body, detected);
+        sendEvent('done', await takeoverResponse(sessionId, clinician, turn.turnId, body.isAvatarCall));
+        return;
+      }
+
+      const events = crisisReply
+        ? scriptedReplyEvents(crisisReply)
+        : psychologicalAgent.streamMessage(sessionId, inputText, { signal, country, language });
+      for await (const event of events) {
+        if (event.type === 'complete') {
+          assistantReply = event.reply;
+        } else {
+          sendEvent(event.type, event);
+        }
+      }
+
+      const processingTime = Date.now() - startTime;
+      signal.throwIfAborted();
+      const userMessage = await persistExchange(body, assistantReply, processingTime, detected);
+      if (clinician) {
+        takeoverManager.relayPatientMessage(sessionId, userMessage);
+      }
+
+      sendEvent('done', {
+        replyText: assistantReply.text,
+        processingTime,
+        turnId: turn.turnId,
+        language: assistantReply.language,
+        safetyEventId: assistantReply.safetyEvent?.id,
+        takeover: clinician ? { clinician } : undefined,
+        contextState: await buildContextState(sessionId, body.isAvatarCall),
+      });
+    } catch (error) {
+      if (isAbortError(error, turn?.controller.signal)) {
+        sendEvent('cancelled', { turnId: turn.turnId });
+      } else {
+        console.error('Agent streaming error:', error);
+        sendEvent('error', {
+          message: error instanceof Error ? error.message : "Agent processing failed"
+        });
+      }
+    } finally {
+      turnRegistry.end(sessionId, turn);
+      res.end();
     }
   });
 
   // Interrupt handling endpoint
   app.post("/api/interrupt", async (req, res) => {
     try {
-      const { sessionId } = req.body;
+      const { sessionId, turnId } = req.body;
 
       if (!sessionId) {
         return res.status(400).json({ message: "Session ID required" });
       }
 
-      // In a real implementation, this would cancel ongoing processing
-      // For now, we just acknowledge the interrupt
+      // Abort pending transcription/LLM calls; their partial replies are never persisted
+      const cancelled = turnRegistry.cancel(sessionId, turnId);
+
       res.json({ 
         success: true, 
-        message: "Processing interrupted successfully" 
+        cancelled,
+        message: cancelled.length > 0
+          ? "Processing interrupted successfully"
+          : "No processing in flight"
       });
 
     } catch (error) {
@@ -219,11 +502,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  function sendCancelled(res: Response, turnId?: string) {
+    res.status(409).json({
+      message: "Turn cancelled",
+      cancelled: true,
+      turnId,
+    });
+  }
+
+  // Store both user message and assistant reply; returns the stored user message
+  async function persistExchange(
+    body: AgentRequest,
+    assistantReply: AgentReply,
+    processingTime: number,
+    detected: UtteranceLanguage | null
+  ) {
+    const userMessage = await persistUserMessage(body, detected);
+
+    await storage.addMessage({
+      conversationId: body.sessionId,
+      role: "assistant", 
+      content: assistantReply.text,
+      isVoice: false,
+      metadata: {
+        processingTime,
+        agentType: assistantReply.agentType,
+        language: assistantReply.language,
+        avatarProcessed: body.isAvatarCall || false,
+        safetyEventId: assistantReply.safetyEvent?.id,
+        sources: assistantReply.sources,
+        guardrails: assistantReply.guardrails,
+        toolCalls: assistantReply.toolCalls,
+      }
+    });
+    return userMessage;
+  }
+
+  async function persistUserMessage(body: AgentRequest, detected: UtteranceLanguage | null) {
+    // Short messages carry no language cue; they are scored in the conversation's language
+    const language = detected?.language
+      ?? normalizeLanguage((await storage.getConversation(body.sessionId))?.language)
+      ?? defaultLanguage();
+
+    return storage.addMessage({
+      conversationId: body.sessionId,
+      role: "user",
+      content: body.inputText,
+      isVoice: body.isVoice || false,
+      audioData: body.audioData || null,
+      metadata: {
+        vadDetected: body.vadDetected || false,
+        transcriptionDuration: body.transcriptionDuration || 0,
+        language: detected?.language,
+        languageSource: detected?.source,
+        emotion: scoreMessage(body.inputText, language, body.audioData),
+      }
+    });
+  }
+
+  // Patient message during a takeover: stored and pushed to the clinician's dashboard
+  async function relayToClinician(body: AgentRequest, detected: UtteranceLanguage | null) {
+    const message = await persistUserMessage(body, detected);
+    takeoverManager.relayPatientMessage(body.sessionId, message);
+  }
+
+  // Same body as an agent reply, without reply text: the clinician answers over the live feed
+  async function takeoverResponse(sessionId: string, clinician: string, turnId: string, isAvatarCall?: boolean) {
+    return {
+      replyText: '',
+      processingTime: 0,
+      turnId,
+      takeover: { clinician },
+      contextState: await buildContextState(sessionId, isAvatarCall),
+    };
+  }
+
+  // Get session state for context
+  async function buildContextState(sessionId: string, isAvatarCall?: boolean) {
+    const sessionState = psychologicalAgent.getSessionState(sessionId);
+
+    return {
+      messageCount: (await storage.getMessages(sessionId)).length,
+      sessionPhase: sessionState?.phase || 'intake',
+      symptomsDetected: sessionState?.symptoms.length || 0,
+      riskFactors: sessionState?.riskFactors.length || 0,
+      activeQuestionnaire: sessionState?.activeQuestionnaire?.id || null,
+      riskFlagged: (await storage.getConversation(sessionId))?.riskFlagged || false,
+      avatarProcessed: isAvatarCall || false
+    };
+  }
+
   // Add session management endpoints
-  addSessionEndpoints(app, psychologicalAgent);
+  addSessionEndpoints(app, psychologicalAgent, storage);
+
+  // Treatment plans and homework
+  addTreatmentPlanEndpoints(app, psychologicalAgent, storage);
+
+  // SOAP session notes
+  addSoapNoteEndpoints(app, psychologicalAgent, storage);
+
+  // Clinician review dashboard
+  addClinicianEndpoints(app, psychologicalAgent, storage, takeoverManager, turnRegistry);
 
   // Add avatar endpoints
-  addAvatarRoutes(app, heygenService);
+  addAvatarRoutes(app, personaRegistry);
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SafetyProtocol, assessCrisis } from "./safety-protocol.js";
+import { MemStorage } from "./storage.js";
+
+describe('assessCrisis', () => {
+  it('detects crisis phrases in Spanish', () => {
+    for (const text of [
+      'A veces me quiero morir',
+      'Me quiero matar',
+      'Creo que me voy a matar esta noche',
+      'He pensado en quitarme la vida',
+      'Quiero acabar con todo',
+      'Tengo pensamientos suicidas',
+      'No quiero seguir con vida',
+      'Ojalá estuviera muerta',
+      'A veces pienso qué pasaría si me matara',
+    ]) {
+      assert.equal(assessCrisis(text)?.category, 'suicidal_ideation', text);
+    }
+    assert.equal(assessCrisis('Últimamente me corto los brazos')?.category, 'self_harm');
+  });
+
+  it('detects crisis phrases in English', () => {
+    for (const text of [
+      'I want to die',
+      "I'm thinking about ending it all",
+      "Sometimes I think I'll end it all",
+      'I keep thinking about ending my life',
+      'I am going to kill myself',
+      "I don't want to live anymore",
+      'I wish I was dead',
+      'Some days I wish I were dead',
+      "I'd rather be dead",
+      'Everyone would be happier if I killed myself',
+    ]) {
+      assert.equal(assessCrisis(text)?.category, 'suicidal_ideation', text);
+    }
+    assert.equal(assessCrisis('I have been cutting myself')?.category, 'self_harm');
+  });
+
+  it('ignores negated phrases', () => {
+    for (const text of [
+      'No quiero morir, solo estoy cansada',
+      'No me quiero matar',
+      'No tengo pensamientos suicidas',
+      "I don't want to die",
+      "I'm not suicidal",
+      'I would never kill myself',
+    ]) {
+      assert.equal(assessCrisis(text), null, text);
+    }
+  });
+
+  it('detects a phrase affirmed after being negated', () => {
+    const spanish = assessCrisis('No quiero morir, bueno, en realidad sí quiero morir');
+    assert.equal(spanish?.category, 'suicidal_ideation');
+    assert.deepEqual(spanish?.matchedPhrases, ['quiero morir']);
+
+    const english = assessCrisis("I don't want to die. Actually, I want to die.");
+    assert.equal(english?.category, 'suicidal_ideation');
+    assert.deepEqual(english?.matchedPhrases, ['want to die']);
+  });
+
+  it('leaves ordinary messages alone', () => {
+    assert.equal(assessCrisis('Me muero de ganas de ver a mi hermana'), null);
+    assert.equal(assessCrisis('I feel tired and stressed at work'), null);
+  });
+});
+
+describe('SafetyProtocol.handleCrisis', () => {
+  it('flags the conversation and records the event with the country hotlines', async () => {
+    const storage = new MemStorage();
+    const safety = new SafetyProtocol(storage, { defaultCountry: 'ES', resources: { ES: { emergency: '112', hotlines: [{ name: 'Línea 024', phone: '024' }] } } });
+    const assessment = assessCrisis('me quiero matar')!;
+
+    const response = await safety.handleCrisis('s1', 'me quiero matar', assessment);
+
+    assert.match(response.text, /024/);
+    assert.match(response.text, /112/);
+    assert.equal((await storage.getConversation('s1'))?.riskFlagged, true);
+    assert.equal(response.event.notificationStatus, 'not_configured');
+    assert.deepEqual((await storage.getSafetyEvents('s1')).map(e => e.category), ['suicidal_ideation']);
+  });
+});
@@ -0,0 +1,281 @@
+import crypto from "crypto";
+import fs from "fs";
+import type { SafetyEvent } from "@shared/schema";
+import type { IStorage } from "./storage.js";
+import type { ConsultationLanguage } from "./languages.js";
+
+export type CrisisCategory = SafetyEvent["category"];
+export type CrisisLanguage = ConsultationLanguage;
+
+export interface CrisisAssessment {
+  category: CrisisCategory;
+  language: CrisisLanguage;
+  matchedPhrases: string[];
+}
+
+export interface CountryCrisisResources {
+  emergency: string;
+  hotlines: { name: string; phone: string }[];
+}
+
+export interface CrisisResponse {
+  text: string;
+  event: SafetyEvent;
+}
+
+// Default resources per ISO country code. Deployments should review these and can replace
+// them with CRISIS_HOTLINES_FILE (JSON with the same shape).
+export const DEFAULT_CRISIS_RESOURCES: Record<string, CountryCrisisResources> = {
+  CO: { emergency: '123', hotlines: [{ name: 'Línea 106', phone: '106' }, { name: 'Línea nacional de salud mental', phone: '192 opción 4' }] },
+  MX: { emergency: '911', hotlines: [{ name: 'Línea de la Vida', phone: '800 911 2000' }] },
+  ES: { emergency: '112', hotlines: [{ name: 'Línea de atención a la conducta suicida', phone: '024' }] },
+  AR: { emergency: '911', hotlines: [{ name: 'Centro de Asistencia al Suicida', phone: '135' }] },
+  CL: { emergency: '131', hotlines: [{ name: 'Línea de prevención del suicidio', phone: '*4141' }] },
+  US: { emergency: '911', hotlines: [{ name: '988 Suicide & Crisis Lifeline', phone: '988' }] },
+};
+
+interface CrisisPattern {
+  pattern: RegExp;
+  category: CrisisCategory;
+  language: CrisisLanguage;
+}
+
+// Patterns run on lowercased, accent-stripped text; every match of each one is checked for negation
+const CRISIS_PATTERNS: CrisisPattern[] = [
+  // Español
+  { pattern: /\b(me quiero|quiero|quisiera|deseo|tengo ganas de) (morir(me)?|matarme|suicidarme)\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\bme (quiero|voy a|gustaria|dan ganas de) (matar|suicidar)\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\bsuicid(io|arme|arse|as?)\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\bpensamientos suicidas\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\bquitarme la vida\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\bacabar con (todo|mi vida)\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\bno quiero (vivir|seguir viviendo|seguir aqui|seguir con vida)\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\bmejor (estaria |estar )?muert[oa]\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\b(ojala|quisiera|preferiria) (estar|estuviera) muert[oa]\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\bsi me (matara|matase|suicidara|suicidase)\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\bno vale la pena (vivir|seguir)\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\bestarian mejor sin mi\b/g, category: 'suicidal_ideation', language: 'es' },
+  { pattern: /\b(hacerme|me hago|me hice|me haria) (dano|danos)\b/g, category: 'self_harm', language: 'es' },
+  { pattern: /\b(cortarme|me corto|me corte|lastimarme|me lastimo)\b/g, category: 'self_harm', language: 'es' },
+  { pattern: /\bautolesion(es|arme)?\b/g, category: 'self_harm', language: 'es' },
+  { pattern: /\b(quiero|voy a) (matar|hacerle dano) a (alguien|el|ella|mi [a-z]+)\b/g, category: 'harm_to_others', language: 'es' },
+  // English
+  { pattern: /\b(want|wanna|going|plan|planning) to (die|kill myself|end (it all|my life))\b/g, category: 'suicidal_ideation', language: 'en' },
+  { pattern: /\bkill(ed|ing)? myself\b/g, category: 'suicidal_ideation', language: 'en' },
+  { pattern: /\bsuicid(e|al)\b/g, category: 'suicidal_ideation', language: 'en' },
+  { pattern: /\b(end|ending|take|taking) my (own )?life\b/g, category: 'suicidal_ideation', language: 'en' },
+  { pattern: /\b(end|ending) it all\b/g, category: 'suicidal_ideation', language: 'en' },
+  { pattern: /\bbetter off dead\b/g, category: 'suicidal_ideation', language: 'en' },
+  { pattern: /\b(don't|dont|do not) want to (live|be alive)\b/g, category: 'suicidal_ideation', language: 'en' },
+  { pattern: /\bi wish i (was|were) dead\b/g, category: 'suicidal_ideation', language: 'en' },
+  { pattern: /\b(i'?d|i would) rather (be dead|die)\b/g, category: 'suicidal_ideation', language: 'en' },
+  { pattern: /\bno reason to (live|go on)\b/g, category: 'suicidal_ideation', language: 'en' },
+  { pattern: /\b(hurt|hurting|cut|cutting|harm|harming) myself\b/g, category: 'self_harm', language: 'en' },
+  { pattern: /\bself[- ]harm(ing)?\b/g, category: 'self_harm', language: 'en' },
+  { pattern: /\b(want|going) to (kill|hurt) (him|her|them|someone|somebody)\b/g, category: 'harm_to_others', language: 'en' },
+];
+
+// A negator in the two words right before the match, within the same clause, cancels it:
+// "no tengo pensamientos suicidas", "I'm not suicidal", "I would never kill myself"
+const NEGATORS = new Set(['no', 'nunca', 'jamas', 'ni', 'not', 'never', "don't", 'dont', "won't", "wouldn't", "isn't", 'nor']);
+const CLAUSE_BREAK = /[,.;:!?]|\b(pero|but|y|and|aunque|although)\b/g;
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[’]/g, "'");
+}
+
+function isNegated(text: string, matchIndex: number): boolean {
+  const before = text.slice(0, matchIndex);
+  const clauses = before.split(CLAUSE_BREAK);
+  const clause = clauses[clauses.length - 1] ?? '';
+  const words = clause.trim().split(/\s+/).filter(Boolean).slice(-2);
+  return words.some(word => NEGATORS.has(word));
+}
+
+export function assessCrisis(text: string): CrisisAssessment | null {
+  const normalized = normalize(text);
+  // A phrase negated in one place may be affirmed later ("no quiero morir... en realidad sí quiero morir")
+  const matches = CRISIS_PATTERNS.flatMap(entry =>
+    Array.from(normalized.matchAll(entry.pattern), match => {
+      const start = match.index ?? 0;
+      return {
+        entry,
+        phrase: match[0],
+        start,
+        end: start + match[0].length,
+        negated: isNegated(normalized, start),
+      };
+    })
+  );
+
+  // A negated phrase also cancels narrower patterns inside it ("no tengo pensamientos suicidas")
+  const negatedSpans = matches.filter(m => m.negated);
+  const accepted = matches.filter(m =>
+    !m.negated && !negatedSpans.some(n => m.start < n.end && n.start < m.end)
+  );
+  const hits = accepted.map(m => m.entry);
+  const matchedPhrases = accepted.map(m => m.phrase);
+
+  if (hits.length === 0) return null;
+
+  // Suicidal ideation outranks self-harm, which outranks harm to others, for the vetted reply
+  const priority: CrisisCategory[] = ['suicidal_ideation', 'self_harm', 'harm_to_others'];
+  const category = priority.find(c => hits.some(hit => hit.category === c)) ?? hits[0].category;
+
+  return {
+    category,
+    language: hits[0].language,
+    matchedPhrases: Array.from(new Set(matchedPhrases)),
+  };
+}
+
+function formatHotlines(resources: CountryCrisisResources, language: CrisisLanguage): string {
+  const separator = language === 'es' ? ' o ' : ' or ';
+  return resources.hotlines.map(h => `${h.name}, ${h.phone}`).join(separator);
+}
+
+// Vetted wording: keep it short for voice, no clinical advice, always ask about immediate safety.
+// Answers in the consultation language when given, else in the language of the matched phrase.
+export function buildCrisisResponse(
+  assessment: CrisisAssessment,
+  resources: CountryCrisisResources,
+  language: CrisisLanguage = assessment.language
+): string {
+  const hotlines = formatHotlines(resources, language);
+
+  if (language === 'en') {
+    const concern = assessment.category === 'harm_to_others'
+      ? "What you're telling me is serious, and I want everyone to stay safe."
+      : "Thank you for telling me. I'm worried about your safety, and you don't have to go through this alone.";
+    return `${concern} Please reach out right now to ${hotlines}. If you are in immediate danger, call ${resources.emergency}. Are you somewhere safe right now?`;
+  }
+
+  const concern = assessment.category === 'harm_to_others'
+    ? 'Lo que me cuentas es serio y quiero que todos estén a salvo.'
+    : 'Gracias por contármelo. Me preocupa tu seguridad y no tienes que pasar por esto a solas.';
+  return `${concern} Por favor comunícate ahora mismo con ${hotlines}. Si estás en peligro inmediato, llama al ${resources.emergency}. ¿Estás en un lugar seguro en este momento?`;
+}
+
+export interface SafetyProtocolConfig {
+  defaultCountry: string;
+  resources: Record<string, CountryCrisisResources>;
+  webhookUrl?: string;
+  webhookSecret?: string;
+}
+
+export function loadSafetyConfig(): SafetyProtocolConfig {
+  const resources = process.env.CRISIS_HOTLINES_FILE
+    ? JSON.parse(fs.readFileSync(process.env.CRISIS_HOTLINES_FILE, 'utf-8')) as Record<string, CountryCrisisResources>
+    : DEFAULT_CRISIS_RESOURCES;
+
+  return {
+    defaultCountry: (process.env.CRISIS_DEFAULT_COUNTRY || 'CO').toUpperCase(),
+    resources,
+    webhookUrl: process.env.SAFETY_WEBHOOK_URL,
+    webhookSecret: process.env.SAFETY_WEBHOOK_SECRET,
+  };
+}
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export class SafetyProtocol {
+  constructor(private storage: IStorage, private config: SafetyProtocolConfig = loadSafetyConfig()) {}
+
+  assess(text: string): CrisisAssessment | null {
+    return assessCrisis(text);
+  }
+
+  resourcesFor(country?: string): { country: string; resources: CountryCrisisResources } {
+    const requested = country?.toUpperCase();
+    if (requested && this.config.resources[requested]) {
+      return { country: requested, resources: this.config.resources[requested] };
+    }
+    const fallback = this.config.defaultCountry;
+    return { country: fallback, resources: this.config.resources[fallback] ?? DEFAULT_CRISIS_RESOURCES.CO };
+  }
+
+  // Every configured hotline and emergency number, which replies must keep readable
+  crisisNumbers(): string[] {
+    return Object.values(this.config.resources)
+      .flatMap(resources => [resources.emergency, ...resources.hotlines.map(hotline => hotline.phone)]);
+  }
+
+  // Builds the vetted reply, flags the conversation, records the audit event and fires the webhook
+  async handleCrisis(
+    sessionId: string,
+    userMessage: string,
+    assessment: CrisisAssessment,
+    country?: string,
+    language?: CrisisLanguage
+  ): Promise<CrisisResponse> {
+    const { country: resolvedCountry, resources } = this.resourcesFor(country);
+    const replyLanguage = language ?? assessment.language;
+    const text = buildCrisisResponse(assessment, resources, replyLanguage);
+
+    if (!(await this.storage.getConversation(sessionId))) {
+      await this.storage.createConversation({ sessionId });
+    }
+    await this.storage.flagConversation(sessionId, true);
+
+    const event = await this.storage.recordSafetyEvent({
+      conversationId: sessionId,
+      category: assessment.category,
+      language: replyLanguage,
+      country: resolvedCountry,
+      matchedPhrases: assessment.matchedPhrases,
+      userMessage,
+      responseText: text,
+      notificationStatus: this.config.webhookUrl ? 'pending' : 'not_configured',
+    });
+
+    console.warn(`🚨 Crisis protocol triggered for ${sessionId}: ${assessment.category} (${assessment.matchedPhrases.join(', ')})`);
+
+    if (this.config.webhookUrl) {
+      // Don't hold the spoken reply on the notification
+      void this.notify(sessionId, event);
+    }
+
+    return { text, event };
+  }
+
+  private async notify(sessionId: string, event: SafetyEvent): Promise<void> {
+    // No patient text leaves the server; receivers look the event up through the API
+    const payload = JSON.stringify({
+      type: 'crisis_detected',
+      sessionId,
+      eventId: event.id,
+      category: event.category,
+      language: event.language,
+      country: event.country,
+      detectedAt: event.createdAt,
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.webhookSecret) {
+      const signature = crypto.createHmac('sha256', this.config.webhookSecret).update(payload).digest('hex');
+      headers['X-Safety-Signature'] = `sha256=${signature}`;
+    }
+
+    let status: 'sent' | 'failed' = 'failed';
+    try {
+      const response = await fetch(this.config.webhookUrl!, {
+        method: 'POST',
+        headers,
+        body: payload,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      status = response.ok ? 'sent' : 'failed';
+      if (!response.ok) {
+        console.error(`Safety webhook answered ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Safety webhook error:', error);
+    }
+
+    try {
+      await this.storage.updateSafetyEventNotification(event.id, status);
+    } catch (error) {
+      console.error('Failed to record safety notification status:', error);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { BaseChatModel, type BaseChatModelParams, type BindToolsInput } from "@langchain/core/language_models/chat_models";
+import { AIMessage, AIMessageChunk, type BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+
+// Deterministic chat model for tests and offline demos.
+// Rules are checked against the latest human message first (case-insensitive regex);
+// otherwise replies are returned in order, cycling, and finally the fallback.
+// A rule with toolCall first answers with that tool call, then with its reply once the tool
+// result is in.
+export interface ChatScript {
+  rules?: { match: string; reply: string; toolCall?: { name: string; args: Record<string, unknown> } }[];
+  replies?: string[];
+  fallback?: string;
+}
+
+export const DEFAULT_CHAT_SCRIPT: ChatScript = {
+  rules: [
+    { match: "hola|buenos días|buenas", reply: "Hola, gracias por venir. ¿Qué te trae hoy a consulta?" },
+    { match: "ansiedad|nervios|preocupa", reply: "Entiendo que la ansiedad puede ser agotadora. ¿Desde cuándo la sientes?" },
+    { match: "dormir|insomnio|sueño", reply: "El sueño es muy importante. ¿Cuántas horas duermes normalmente?" },
+  ],
+  replies: [
+    "Te escucho. ¿Puedes contarme un poco más sobre eso?",
+    "Gracias por compartirlo. ¿Cómo te ha afectado en tu día a día?",
+  ],
+  fallback: "Cuéntame más, por favor.",
+};
+
+export interface ScriptedChatModelParams extends BaseChatModelParams {
+  script?: ChatScript;
+}
+
+export class ScriptedChatModel extends BaseChatModel {
+  private script: ChatScript;
+  private replyIndex = 0;
+
+  constructor(params: ScriptedChatModelParams = {}) {
+    super(params);
+    this.script = params.script ?? DEFAULT_CHAT_SCRIPT;
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  // Tool calls come from the script, so the tool definitions are not needed
+  bindTools(_tools: BindToolsInput[]) {
+    return this;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const toolCall = this.nextToolCall(messages);
+    if (toolCall) {
+      return {
+        generations: [{ message: new AIMessage({ content: "", tool_calls: [toolCall] }), text: "" }],
+        llmOutput: {},
+      };
+    }
+
+    const text = this.nextReply(messages);
+    return {
+      generations: [{ message: new AIMessage(text), text }],
+      llmOutput: {},
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const toolCall = this.nextToolCall(messages);
+    if (toolCall) {
+      const message = new AIMessageChunk({
+        content: "",
+        tool_call_chunks: [{ name: toolCall.name, args: JSON.stringify(toolCall.args), id: toolCall.id, index: 0 }],
+      });
+      yield new ChatGenerationChunk({ message, text: "" });
+      return;
+    }
+
+    const text = this.nextReply(messages);
+    // Word-sized chunks, keeping the whitespace so the concatenation is exact
+    for (const token of text.match(/\S+\s*/g) ?? []) {
+      yield new ChatGenerationChunk({ message: new AIMessageChunk(token), text: token });
+      void runManager?.handleLLMNewToken(token);
+    }
+  }
+
+  private matchingRule(messages: BaseMessage[]) {
+    const lastHuman = [...messages].reverse().find(msg => msg._getType() === "human");
+    const input = typeof lastHuman?.content === "string" ? lastHuman.content : "";
+    return this.script.rules?.find(r => new RegExp(r.match, "i").test(input));
+  }
+
+  // The rule's tool call, unless its result is already the last message
+  private nextToolCall(messages: BaseMessage[]) {
+    const toolCall = this.matchingRule(messages)?.toolCall;
+    if (!toolCall || messages[messages.length - 1]?._getType() === "tool") return null;
+    return { ...toolCall, id: `call_${messages.length}`, type: "tool_call" as const };
+  }
+
+  private nextReply(messages: BaseMessage[]): string {
+    const rule = this.matchingRule(messages);
+    if (rule) return rule.reply;
+
+    const replies = this.script.replies ?? [];
+    if (replies.length > 0) {
+      return replies[this.replyIndex++ % replies.length];
+    }
+
+    return this.script.fallback ?? "";
+  }
+}
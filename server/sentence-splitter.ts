@@ -0,0 +1,48 @@
+// Incrementally splits streamed LLM text into speakable sentences
+
+// Abbreviations whose trailing period must not end a sentence
+const ABBREVIATIONS = ['dr', 'dra', 'sr', 'sra', 'srta', 'lic', 'ud', 'uds', 'etc', 'p. ej', 'mr', 'mrs', 'ms', 'e.g', 'i.e', 'vs'];
+
+// Terminal punctuation, optional closing quotes/brackets, then whitespace
+const BOUNDARY = /[.!?…]+["'”»)\]]*\s+/g;
+
+export class SentenceSplitter {
+  private buffer = '';
+
+  // Feed a chunk of text; returns every sentence completed by it
+  push(chunk: string): string[] {
+    this.buffer += chunk;
+    const sentences: string[] = [];
+
+    let start = 0;
+    BOUNDARY.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = BOUNDARY.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const candidate = this.buffer.slice(start, end).trim();
+      if (!this.endsWithAbbreviation(candidate)) {
+        if (candidate) sentences.push(candidate);
+        start = end;
+      }
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  // Return whatever is left once the stream has finished
+  flush(): string | null {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest || null;
+  }
+
+  private endsWithAbbreviation(sentence: string): boolean {
+    const lower = sentence.toLowerCase();
+    return ABBREVIATIONS.some(abbr => {
+      if (!lower.endsWith(`${abbr}.`)) return false;
+      const before = lower.charAt(lower.length - abbr.length - 2);
+      return before === '' || !/[a-záéíóúñü]/.test(before);
+    });
+  }
+}
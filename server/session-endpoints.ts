@@ -1,19 +1,38 @@
 import type { Express } from "express";
 import { PsychologicalAgent } from "./psychological-agent.js";
+import type { IStorage } from "./storage.js";
+import { isTherapyPhase, THERAPY_PHASES, transitionPhase } from "./therapy-phases.js";
+import { isQuestionnaireId, QUESTIONNAIRES } from "./questionnaires.js";
+import { CONSULTATION_LANGUAGES, defaultLanguage, isConsultationLanguage, normalizeLanguage } from "./languages.js";
+import { buildMoodTimeline } from "./emotion-analyzer.js";
+import { buildFhirBundle, consultationEnded, fhirBundleStructureSchema } from "./fhir-export.js";
+import { loadActivePlan } from "./treatment-planner.js";
+import {
+  TRANSCRIPT_CONTENT_TYPES,
+  TRANSCRIPT_EXPORT_FORMATS,
+  formatTranscript,
+  isTranscriptExportFormat,
+} from "./transcript-export.js";
 
 // Add new endpoint for session management
-export function addSessionEndpoints(app: Express, psychologicalAgent: PsychologicalAgent) {
+export function addSessionEndpoints(app: Express, psychologicalAgent: PsychologicalAgent, storage: IStorage) {
   
   // Get session summary and state
   app.get("/api/sessions/:sessionId/summary", async (req, res) => {
     try {
       const { sessionId } = req.params;
+      await psychologicalAgent.waitForExtraction(sessionId);
+      await psychologicalAgent.waitForSummary(sessionId);
       const summary = psychologicalAgent.getSessionSummary(sessionId);
       const state = psychologicalAgent.getSessionState(sessionId);
+      const conversation = await storage.getConversation(sessionId);
       
       res.json({
         summary,
         state,
+        phaseHistory: state?.phaseHistory || [],
+        questionnaires: state?.questionnaireResults || [],
+        conversationSummary: conversation?.summary || null,
         timestamp: new Date().toISOString()
       });
     } catch (error) {
@@ -25,16 +44,166 @@ export function addSessionEndpoints(app: Express, psychologicalAgent: Psychologi
     }
   });
 
+  // Crisis protocol audit trail for a session (oldest first)
+  app.get("/api/sessions/:sessionId/safety-events", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const conversation = await storage.getConversation(sessionId);
+      const events = await storage.getSafetyEvents(sessionId);
+
+      res.json({
+        riskFlagged: conversation?.riskFlagged || false,
+        riskFlaggedAt: conversation?.riskFlaggedAt || null,
+        events
+      });
+    } catch (error) {
+      console.error('Safety events error:', error);
+      res.status(500).json({ message: "Failed to get safety events" });
+    }
+  });
+
+  // Mood over the session: sentiment and emotion of each patient message
+  app.get("/api/sessions/:sessionId/timeline", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const conversation = await storage.getConversation(sessionId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const messages = await storage.getMessages(sessionId);
+      res.json(buildMoodTimeline(messages, normalizeLanguage(conversation.language) ?? defaultLanguage()));
+    } catch (error) {
+      console.error('Mood timeline error:', error);
+      res.status(500).json({ message: "Failed to get mood timeline" });
+    }
+  });
+
+  // Transcript of the stored messages as plain text, Markdown, SRT, WebVTT or JSON
+  app.get("/api/sessions/:sessionId/transcript/export", async (req, res) => {
+    const format = req.query.format ?? 'txt';
+    if (!isTranscriptExportFormat(format)) {
+      return res.status(400).json({ message: `Invalid format (expected ${TRANSCRIPT_EXPORT_FORMATS.join(', ')})` });
+    }
+
+    try {
+      const { sessionId } = req.params;
+      const conversation = await storage.getConversation(sessionId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const messages = await storage.getMessages(sessionId);
+      res.setHeader('Content-Type', TRANSCRIPT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="transcript-${sessionId.replace(/[^\w.-]/g, '_')}.${format}"`);
+      res.send(formatTranscript(format, conversation, messages));
+    } catch (error) {
+      console.error('Transcript export error:', error);
+      res.status(500).json({ message: "Failed to export transcript" });
+    }
+  });
+
+  // FHIR R4 Bundle of the consultation (Patient, Encounter, Observation, Condition,
+  // DocumentReference) for import into partner clinics' EHRs
+  app.get("/api/sessions/:sessionId/fhir", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      await psychologicalAgent.waitForExtraction(sessionId);
+      const conversation = await storage.getConversation(sessionId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const [messages, patient, activePlan] = await Promise.all([
+        storage.getMessages(sessionId),
+        conversation.patientId ? storage.getPatient(conversation.patientId) : undefined,
+        loadActivePlan(storage, sessionId),
+      ]);
+      const session = psychologicalAgent.getSessionState(sessionId);
+      const bundle = buildFhirBundle({
+        conversation,
+        patient,
+        messages,
+        state: psychologicalAgent.getClinicalSnapshot(sessionId) ?? conversation.clinicalState,
+        diagnosis: session?.diagnosis ?? activePlan?.plan.diagnosis,
+        ended: consultationEnded(conversation, messages),
+      });
+
+      const structure = fhirBundleStructureSchema.safeParse(bundle);
+      if (!structure.success) {
+        console.error('FHIR bundle failed the structural check:', structure.error.errors);
+        return res.status(500).json({ message: `Malformed FHIR bundle: ${structure.error.errors[0]?.message}` });
+      }
+
+      res.setHeader('Content-Type', 'application/fhir+json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="fhir-${sessionId.replace(/[^\w.-]/g, '_')}.json"`);
+      res.send(JSON.stringify(bundle, null, 2));
+    } catch (error) {
+      console.error('FHIR export error:', error);
+      res.status(500).json({ message: "Failed to export FHIR bundle" });
+    }
+  });
+
+  // Follow-up appointments booked during the session (the agent's booking tool)
+  app.get("/api/sessions/:sessionId/appointments", async (req, res) => {
+    try {
+      const appointments = await storage.getAppointments(req.params.sessionId);
+      res.json({ appointments });
+    } catch (error) {
+      console.error('Appointments error:', error);
+      res.status(500).json({ message: "Failed to get appointments" });
+    }
+  });
+
+  // Schedule a standardized questionnaire; the agent administers it from the patient's next turn
+  app.post("/api/sessions/:sessionId/questionnaires", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const { instrument } = req.body;
+
+      if (!isQuestionnaireId(instrument)) {
+        return res.status(400).json({ message: `Invalid instrument (expected ${Object.keys(QUESTIONNAIRES).join(', ')})` });
+      }
+
+      if (!(await storage.getConversation(sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const progress = psychologicalAgent.scheduleQuestionnaire(sessionId, instrument);
+      if (!progress) {
+        return res.status(409).json({ message: "A questionnaire is already in progress" });
+      }
+
+      res.status(201).json(progress);
+    } catch (error) {
+      console.error('Questionnaire start error:', error);
+      res.status(500).json({ message: "Failed to start questionnaire" });
+    }
+  });
+
+  // Questionnaire in progress and completed results
+  app.get("/api/sessions/:sessionId/questionnaires", async (req, res) => {
+    const state = psychologicalAgent.getSessionState(req.params.sessionId);
+    res.json({
+      active: state?.activeQuestionnaire || null,
+      results: state?.questionnaireResults || []
+    });
+  });
+
   // Update session phase manually (for testing)
   app.post("/api/sessions/:sessionId/phase", async (req, res) => {
     try {
       const { sessionId } = req.params;
-      const { phase } = req.body;
+      const { phase, reason } = req.body;
+
+      if (!isTherapyPhase(phase)) {
+        return res.status(400).json({ message: `Invalid phase (expected ${THERAPY_PHASES.join(', ')})` });
+      }
       
       const session = psychologicalAgent.getSessionState(sessionId);
       if (session) {
-        session.phase = phase;
-        res.json({ success: true, newPhase: phase });
+        const transition = transitionPhase(session, phase, 'manual', reason || 'Cambio manual');
+        res.json({ success: true, newPhase: phase, transition });
       } else {
         res.status(404).json({ message: "Session not found" });
       }
@@ -43,4 +212,33 @@ export function addSessionEndpoints(app: Express, psychologicalAgent: Psychologi
       res.status(500).json({ message: "Failed to update session phase" });
     }
   });
+
+  // Change the consultation language and/or pin it. A pinned session always answers in its
+  // language; an unpinned one follows the language the patient speaks in each message.
+  app.post("/api/sessions/:sessionId/language", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const { language, pinned } = req.body;
+
+      if (language !== undefined && !isConsultationLanguage(language)) {
+        return res.status(400).json({ message: `Invalid language (expected ${CONSULTATION_LANGUAGES.join(', ')})` });
+      }
+      if (pinned !== undefined && typeof pinned !== 'boolean') {
+        return res.status(400).json({ message: "pinned must be a boolean" });
+      }
+
+      if (!(await storage.getConversation(sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Pinning without a language keeps the one the session is answering in right now
+      const updated = await psychologicalAgent.updateLanguage(sessionId, { language, pinned });
+      await storage.updateConversationLanguage(sessionId, { language: updated.language, languagePinned: updated.pinned });
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Session language update error:', error);
+      res.status(500).json({ message: "Failed to update session language" });
+    }
+  });
 }
\ No newline at end of file
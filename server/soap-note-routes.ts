@@ -0,0 +1,119 @@
+import type { Express } from "express";
+import { insertSoapNoteSchema } from "@shared/schema";
+import { PsychologicalAgent } from "./psychological-agent.js";
+import type { IStorage } from "./storage.js";
+import { renderPdf } from "./pdf-document.js";
+import {
+  formatSoapMarkdown,
+  isSoapExportFormat,
+  soapNoteJson,
+  soapNotePdfBlocks,
+  SOAP_EXPORT_FORMATS,
+} from "./soap-notes.js";
+
+const editSoapNoteSchema = insertSoapNoteSchema.pick({
+  subjective: true,
+  objective: true,
+  assessment: true,
+  plan: true,
+  author: true,
+});
+
+function parseVersion(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+// SOAP notes of a consultation: drafted by the agent, edited by clinicians (every save is a new
+// version) and exported as Markdown, PDF or JSON
+export function addSoapNoteEndpoints(app: Express, psychologicalAgent: PsychologicalAgent, storage: IStorage) {
+
+  // All versions, newest first
+  app.get("/api/sessions/:sessionId/soap-notes", async (req, res) => {
+    try {
+      res.json(await storage.getSoapNotes(req.params.sessionId));
+    } catch (error) {
+      console.error('SOAP notes error:', error);
+      res.status(500).json({ message: "Failed to get SOAP notes" });
+    }
+  });
+
+  // Generate a new version from the consultation so far
+  app.post("/api/sessions/:sessionId/soap-notes/draft", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      if (!(await storage.getConversation(sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const draft = await psychologicalAgent.draftSoapNote(sessionId);
+      if (!draft) {
+        return res.status(422).json({ message: "Could not draft a SOAP note from this session" });
+      }
+
+      res.status(201).json(await storage.createSoapNote({ ...draft, conversationId: sessionId, source: 'generated' }));
+    } catch (error) {
+      console.error('SOAP note draft error:', error);
+      res.status(500).json({ message: "Failed to draft SOAP note" });
+    }
+  });
+
+  // Clinician edit, saved as a new version
+  app.post("/api/sessions/:sessionId/soap-notes", async (req, res) => {
+    const parsed = editSoapNoteSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid SOAP note" });
+    }
+
+    try {
+      const { sessionId } = req.params;
+      if (!(await storage.getConversation(sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      res.status(201).json(await storage.createSoapNote({ ...parsed.data, conversationId: sessionId, source: 'clinician' }));
+    } catch (error) {
+      console.error('SOAP note save error:', error);
+      res.status(500).json({ message: "Failed to save SOAP note" });
+    }
+  });
+
+  // Download a version (the latest by default): ?format=markdown|pdf|json&version=N
+  app.get("/api/sessions/:sessionId/soap-notes/export", async (req, res) => {
+    const format = req.query.format ?? 'markdown';
+    const version = parseVersion(req.query.version);
+    if (!isSoapExportFormat(format)) {
+      return res.status(400).json({ message: `Invalid format (expected ${SOAP_EXPORT_FORMATS.join(', ')})` });
+    }
+    if (version === null) {
+      return res.status(400).json({ message: "Invalid version" });
+    }
+
+    try {
+      const { sessionId } = req.params;
+      const conversation = await storage.getConversation(sessionId);
+      const note = conversation && await storage.getSoapNote(sessionId, version);
+      if (!conversation || !note) {
+        return res.status(404).json({ message: "SOAP note not found" });
+      }
+
+      const filename = `soap-${sessionId.replace(/[^\w.-]/g, '_')}-v${note.version}`;
+      if (format === 'json') {
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+        return res.json(soapNoteJson(note, conversation));
+      }
+      if (format === 'pdf') {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+        return res.send(renderPdf(soapNotePdfBlocks(note, conversation), filename));
+      }
+      res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.md"`);
+      res.send(formatSoapMarkdown(note, conversation));
+    } catch (error) {
+      console.error('SOAP note export error:', error);
+      res.status(500).json({ message: "Failed to export SOAP note" });
+    }
+  });
+}
@@ -0,0 +1,231 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from "zod";
+import type { Appointment, ClinicalSnapshot, Conversation, SafetyEvent, SoapNote } from "@shared/schema";
+import type { LLMProvider } from "./llm-provider.js";
+import type { IStorage } from "./storage.js";
+import type { PdfBlock } from "./pdf-document.js";
+import { extractJsonObject } from "./clinical-extractor.js";
+import { buildMoodTimeline, type MoodTimeline } from "./emotion-analyzer.js";
+import { loadActivePlan, type ActivePlan } from "./treatment-planner.js";
+import { defaultLanguage, normalizeLanguage, type ConsultationLanguage } from "./languages.js";
+
+// Clinical session notes in SOAP format (Subjective, Objective, Assessment, Plan), drafted from
+// what was stored for the consultation, edited by clinicians and exported as Markdown, PDF or
+// JSON. Drafts and edits are saved as successive versions (see IStorage.createSoapNote).
+
+export const soapNoteDraftSchema = z.object({
+  subjective: z.string().trim().min(1).max(4000),
+  objective: z.string().trim().min(1).max(4000),
+  assessment: z.string().trim().min(1).max(4000),
+  plan: z.string().trim().min(1).max(4000),
+});
+
+export type SoapNoteDraft = z.infer<typeof soapNoteDraftSchema>;
+
+export interface SoapNoteInput {
+  conversation: Conversation;
+  language: ConsultationLanguage;
+  // Latest turns, oldest first; earlier ones are covered by the conversation summary
+  transcript: { role: string; content: string }[];
+  safetyEvents: SafetyEvent[];
+  activePlan: ActivePlan | null;
+  appointments: Appointment[];
+  mood: MoodTimeline;
+}
+
+const TRANSCRIPT_TURNS = 30;
+
+export function soapNoteLanguage(conversation: Conversation): ConsultationLanguage {
+  return normalizeLanguage(conversation.language) ?? defaultLanguage();
+}
+
+export async function loadSoapNoteInput(storage: IStorage, sessionId: string): Promise<SoapNoteInput | null> {
+  const conversation = await storage.getConversation(sessionId);
+  if (!conversation) return null;
+
+  const language = soapNoteLanguage(conversation);
+  const [messages, safetyEvents, activePlan, appointments] = await Promise.all([
+    storage.getMessages(sessionId),
+    storage.getSafetyEvents(sessionId),
+    loadActivePlan(storage, sessionId),
+    storage.getAppointments(sessionId),
+  ]);
+
+  return {
+    conversation,
+    language,
+    transcript: messages.slice(-TRANSCRIPT_TURNS).map(({ role, content }) => ({ role, content })),
+    safetyEvents,
+    activePlan,
+    appointments: appointments.filter(appointment => appointment.status === 'scheduled'),
+    mood: buildMoodTimeline(messages, language),
+  };
+}
+
+const LANGUAGE_NAMES: Record<ConsultationLanguage, string> = {
+  es: 'español',
+  en: 'inglés',
+};
+
+const SOAP_PROMPT = `Eres un psicólogo clínico que redacta la nota clínica de una consulta en formato SOAP.
+
+Devuelve SOLO un objeto JSON válido, sin texto adicional, con esta forma:
+{"subjective":"...","objective":"...","assessment":"...","plan":"..."}
+
+Reglas:
+- subjective: lo que refiere el paciente: motivo de consulta, síntomas y situación según sus propias palabras.
+- objective: datos observados y medidos: puntuaciones de cuestionarios, eventos de crisis, evolución del estado de ánimo, fase alcanzada.
+- assessment: impresión clínica orientativa y nivel de riesgo; si no hay datos suficientes para un diagnóstico, dilo.
+- plan: próximos pasos: objetivos, técnicas, tareas, cita de seguimiento y derivaciones si proceden.
+- Cada sección en prosa clínica breve (máximo unas 150 palabras), en tercera persona.
+- No incluyas medicación.
+- Basa la nota SOLO en la información de la consulta; no inventes datos.`;
+
+function findings(list: ClinicalSnapshot['symptoms']): string {
+  return list.map(f => `${f.label} (${f.severity})`).join(', ') || '-';
+}
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+export class SoapNoteWriter {
+  constructor(private provider: LLMProvider) {}
+
+  // Returns null when the model output cannot be parsed or fails validation
+  async draft(input: SoapNoteInput, signal?: AbortSignal): Promise<SoapNoteDraft | null> {
+    const { conversation, mood, activePlan } = input;
+    const state = conversation.clinicalState;
+    const context = [
+      `Idioma de la consulta: ${LANGUAGE_NAMES[input.language]} (redacta la nota en este idioma).`,
+      `Fecha de la consulta: ${conversation.createdAt.toISOString().slice(0, 10)}`,
+      state && `Fase alcanzada: ${state.phase}`,
+      state && `Motivo de consulta: ${state.chiefComplaint ?? '-'}`,
+      state && `Síntomas: ${findings(state.symptoms)}`,
+      state && `Preocupaciones: ${findings(state.concerns)}`,
+      state && `Factores de riesgo: ${findings(state.riskFactors)}`,
+      state && state.questionnaires.length > 0
+        && `Cuestionarios: ${state.questionnaires.map(q => `${q.name} ${q.total}/${q.maxScore} (${q.severity})`).join(', ')}`,
+      `Eventos de crisis: ${input.safetyEvents.map(event => `${event.category} (${event.createdAt.toISOString()})`).join(', ') || 'ninguno'}`,
+      mood.points.length > 0 && `Estado de ánimo (valencia de -1 a 1 en ${mood.points.length} mensajes): media ${mood.averageSentiment}`
+        + `${mood.trend !== null ? `, tendencia ${signed(mood.trend)}` : ''}, emoción predominante ${mood.dominantEmotion}`,
+      activePlan && `Plan de tratamiento activo: objetivos ${activePlan.plan.goals.join('; ')}`
+        + `; técnicas ${activePlan.plan.techniques.join(', ') || '-'}`
+        + `; tareas ${activePlan.homework.map(item => `${item.description} (${item.status})`).join('; ') || '-'}`,
+      input.appointments.length > 0
+        && `Citas de seguimiento: ${input.appointments.map(appointment => appointment.startsAt.toISOString()).join(', ')}`,
+      conversation.summary && `Resumen de la consulta: ${conversation.summary}`,
+      input.transcript.length > 0 && `Últimos turnos:\n${input.transcript
+        .map(turn => `${turn.role === 'user' ? 'Paciente' : 'Terapeuta'}: ${turn.content}`)
+        .join('\n')}`,
+    ].filter(Boolean).join('\n');
+
+    const response = await this.provider.chat.invoke([
+      new SystemMessage(SOAP_PROMPT),
+      new HumanMessage(context),
+    ], { signal });
+
+    const raw = typeof response.content === 'string' ? response.content : '';
+
+    try {
+      const parsed = soapNoteDraftSchema.safeParse(extractJsonObject(raw));
+      if (!parsed.success) {
+        console.warn('⚠️ SOAP note draft failed validation:', parsed.error.errors[0]?.message);
+        return null;
+      }
+      return parsed.data;
+    } catch (error) {
+      console.warn('⚠️ SOAP note draft is not JSON:', raw.substring(0, 100));
+      return null;
+    }
+  }
+}
+
+export const SOAP_EXPORT_FORMATS = ['markdown', 'pdf', 'json'] as const;
+export type SoapExportFormat = typeof SOAP_EXPORT_FORMATS[number];
+
+export function isSoapExportFormat(value: unknown): value is SoapExportFormat {
+  return typeof value === 'string' && (SOAP_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+const SOAP_SECTIONS = ['subjective', 'objective', 'assessment', 'plan'] as const;
+
+const SOAP_TEXT: Record<ConsultationLanguage, {
+  locale: string;
+  title: string;
+  session: string;
+  date: string;
+  version: string;
+  generated: string;
+  editedBy: (author: string | null) => string;
+  sections: Record<typeof SOAP_SECTIONS[number], string>;
+}> = {
+  es: {
+    locale: 'es-ES',
+    title: 'Nota clínica SOAP',
+    session: 'Sesión',
+    date: 'Fecha de la consulta',
+    version: 'Versión',
+    generated: 'borrador generado automáticamente',
+    editedBy: author => author ? `editada por ${author}` : 'editada por el clínico',
+    sections: { subjective: 'Subjetivo', objective: 'Objetivo', assessment: 'Evaluación', plan: 'Plan' },
+  },
+  en: {
+    locale: 'en-US',
+    title: 'SOAP clinical note',
+    session: 'Session',
+    date: 'Consultation date',
+    version: 'Version',
+    generated: 'automatically generated draft',
+    editedBy: author => author ? `edited by ${author}` : 'edited by the clinician',
+    sections: { subjective: 'Subjective', objective: 'Objective', assessment: 'Assessment', plan: 'Plan' },
+  },
+};
+
+function headerLines(note: SoapNote, conversation: Conversation): string[] {
+  const text = SOAP_TEXT[soapNoteLanguage(conversation)];
+  const origin = note.source === 'generated' ? text.generated : text.editedBy(note.author);
+  return [
+    `${text.session}: ${conversation.sessionId}`,
+    `${text.date}: ${conversation.createdAt.toLocaleDateString(text.locale)}`,
+    `${text.version} ${note.version} (${origin}), ${note.createdAt.toLocaleString(text.locale)}`,
+  ];
+}
+
+export function formatSoapMarkdown(note: SoapNote, conversation: Conversation): string {
+  const text = SOAP_TEXT[soapNoteLanguage(conversation)];
+  return [
+    `# ${text.title}`,
+    headerLines(note, conversation).map(line => `- ${line}`).join('\n'),
+    ...SOAP_SECTIONS.map(section => `## ${text.sections[section]}\n\n${note[section]}`),
+  ].join('\n\n') + '\n';
+}
+
+export function soapNotePdfBlocks(note: SoapNote, conversation: Conversation): PdfBlock[] {
+  const text = SOAP_TEXT[soapNoteLanguage(conversation)];
+  return [
+    { text: text.title, style: 'title' },
+    ...headerLines(note, conversation).map((line): PdfBlock => ({ text: line, style: 'meta' })),
+    ...SOAP_SECTIONS.flatMap((section): PdfBlock[] => [
+      { text: text.sections[section], style: 'heading' },
+      { text: note[section], style: 'body' },
+    ]),
+  ];
+}
+
+export function soapNoteJson(note: SoapNote, conversation: Conversation) {
+  return {
+    sessionId: conversation.sessionId,
+    patientId: conversation.patientId,
+    consultationDate: conversation.createdAt.toISOString(),
+    language: soapNoteLanguage(conversation),
+    version: note.version,
+    source: note.source,
+    author: note.author,
+    createdAt: note.createdAt.toISOString(),
+    subjective: note.subjective,
+    objective: note.objective,
+    assessment: note.assessment,
+    plan: note.plan,
+  };
+}
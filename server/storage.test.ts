@@ -0,0 +1,166 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { DrizzleStorage, MemStorage, isUniqueViolation, type IStorage } from "./storage.js";
+import { getDatabaseDriver } from "./db.js";
+import { createTestDatabase } from "./test-database.js";
+
+const backends: [string, () => Promise<IStorage>][] = [
+  ['MemStorage', async () => new MemStorage()],
+  ['DrizzleStorage', async () => new DrizzleStorage(await createTestDatabase())],
+];
+
+describe('getDatabaseDriver', () => {
+  const saved = process.env.DATABASE_DRIVER;
+  afterEach(() => {
+    if (saved === undefined) delete process.env.DATABASE_DRIVER;
+    else process.env.DATABASE_DRIVER = saved;
+  });
+
+  it('uses the Neon driver for Neon hosts and node-postgres otherwise', () => {
+    delete process.env.DATABASE_DRIVER;
+    assert.equal(getDatabaseDriver('postgres://user:pw@ep-cool-name.eu-central-1.aws.neon.tech/db'), 'neon');
+    assert.equal(getDatabaseDriver('postgres://postgres@localhost:5432/app'), 'node-postgres');
+  });
+
+  it('honours DATABASE_DRIVER', () => {
+    process.env.DATABASE_DRIVER = 'node-postgres';
+    assert.equal(getDatabaseDriver('postgres://user@ep-x.neon.tech/db'), 'node-postgres');
+    process.env.DATABASE_DRIVER = 'mysql';
+    assert.throws(() => getDatabaseDriver('postgres://localhost/app'), /Unknown DATABASE_DRIVER/);
+  });
+});
+
+for (const [name, create] of backends) {
+  describe(name, () => {
+    let storage: IStorage;
+    beforeEach(async () => {
+      storage = await create();
+    });
+
+    it('stores conversations and their messages in order', async () => {
+      await storage.createConversation({ sessionId: 's1', language: 'es' });
+      await storage.addMessage({ conversationId: 's1', role: 'user', content: 'Hola', isVoice: false });
+      await storage.addMessage({ conversationId: 's1', role: 'assistant', content: '¿Cómo estás?', isVoice: false });
+
+      const conversation = await storage.getConversation('s1');
+      assert.equal(conversation?.language, 'es');
+      assert.equal(conversation?.riskFlagged, false);
+      assert.deepEqual((await storage.getMessages('s1')).map(m => m.content), ['Hola', '¿Cómo estás?']);
+      assert.equal(await storage.getConversation('missing'), undefined);
+    });
+
+    it('pages messages with cursors', async () => {
+      await storage.createConversation({ sessionId: 's1' });
+      for (let i = 0; i < 5; i++) {
+        await storage.addMessage({ conversationId: 's1', role: 'user', content: `m${i}`, isVoice: false });
+      }
+
+      const first = await storage.getMessagesPage('s1', { limit: 2 });
+      assert.deepEqual(first.items.map(m => m.content), ['m0', 'm1']);
+      const second = await storage.getMessagesPage('s1', { limit: 2, cursor: first.nextCursor! });
+      assert.deepEqual(second.items.map(m => m.content), ['m2', 'm3']);
+      const newest = await storage.getMessagesPage('s1', { limit: 2, order: 'desc' });
+      assert.deepEqual(newest.items.map(m => m.content), ['m4', 'm3']);
+    });
+
+    it('searches conversations by message content ignoring case and accents', async () => {
+      const sessions: [string, string][] = [
+        ['s1', 'Últimamente tengo depresión'],
+        ['s2', 'Mucha ansiedad en el trabajo'],
+        ['s3', 'Estoy al 100% de cansancio'],
+      ];
+      const ids: Record<string, number> = {};
+      for (const [sessionId, content] of sessions) {
+        ids[sessionId] = (await storage.createConversation({ sessionId })).id;
+        await storage.addMessage({ conversationId: sessionId, role: 'user', content, isVoice: false });
+      }
+      await storage.addMessage({ conversationId: 's2', role: 'user', content: 'y algo de depresion', isVoice: false });
+
+      const search = async (query: string) =>
+        (await storage.listConversations({ search: query })).items.map(c => c.id).sort();
+
+      assert.deepEqual(await search('depresion'), [ids.s1, ids.s2]);
+      assert.deepEqual(await search('DEPRESIÓN'), [ids.s1, ids.s2]);
+      assert.deepEqual(await search('ultimamente'), [ids.s1]);
+      // Substrings match; every term must appear in the same message
+      assert.deepEqual(await search('presi'), [ids.s1, ids.s2]);
+      assert.deepEqual(await search('trabajo ansiedad'), [ids.s2]);
+      assert.deepEqual(await search('ansiedad depresion'), []);
+      // Terms are plain text, not patterns
+      assert.deepEqual(await search('100%'), [ids.s3]);
+      assert.deepEqual(await search('_'), []);
+    });
+
+    it('flags conversations and records safety events', async () => {
+      await storage.createConversation({ sessionId: 's1' });
+      const flagged = await storage.flagConversation('s1', true);
+      assert.equal(flagged?.riskFlagged, true);
+      assert.ok(flagged?.riskFlaggedAt);
+
+      const event = await storage.recordSafetyEvent({
+        conversationId: 's1',
+        category: 'suicidal_ideation',
+        language: 'es',
+        country: 'ES',
+        matchedPhrases: ['quiero morir'],
+        userMessage: 'quiero morir',
+        responseText: '...',
+        notificationStatus: 'pending',
+      });
+      await storage.updateSafetyEventNotification(event.id, 'sent');
+      const events = await storage.getSafetyEvents('s1');
+      assert.deepEqual(events.map(e => [e.category, e.matchedPhrases, e.notificationStatus]), [
+        ['suicidal_ideation', ['quiero morir'], 'sent'],
+      ]);
+    });
+
+    it('keeps a single active treatment plan per conversation', async () => {
+      await storage.createConversation({ sessionId: 's1' });
+      const plan = (goal: string) => ({ conversationId: 's1', goals: [goal], techniques: [], source: 'manual' as const });
+      const first = await storage.createTreatmentPlan(plan('dormir mejor'));
+      const statuses = async () => (await storage.getTreatmentPlans('s1')).map(p => [p.goals[0], p.status]);
+
+      const second = await storage.replaceActiveTreatmentPlan(plan('reducir ansiedad'), [{ description: 'Diario' }]);
+      assert.deepEqual(await statuses(), [['reducir ansiedad', 'active'], ['dormir mejor', 'discontinued']]);
+      assert.deepEqual((await storage.getHomework(second.id)).map(h => h.description), ['Diario']);
+
+      // Reactivating an older plan discontinues the current one
+      await storage.updateTreatmentPlan(first.id, { status: 'active' });
+      const active = (await storage.getTreatmentPlans('s1')).filter(p => p.status === 'active');
+      assert.deepEqual(active.map(p => p.id), [first.id]);
+    });
+
+    it('numbers concurrent SOAP notes with distinct versions', async () => {
+      await storage.createConversation({ sessionId: 's1' });
+      const note = { conversationId: 's1', subjective: 'S', objective: 'O', assessment: 'A', plan: 'P', source: 'generated' as const };
+      const created = await Promise.all([1, 2, 3].map(() => storage.createSoapNote(note)));
+      assert.deepEqual(created.map(n => n.version).sort(), [1, 2, 3]);
+      assert.equal((await storage.getSoapNote('s1'))?.version, 3);
+    });
+  });
+}
+
+describe('DrizzleStorage.createSoapNote', () => {
+  it('retries when a concurrent insert took the version', async () => {
+    const db = await createTestDatabase();
+    const storage = new DrizzleStorage(db);
+    await storage.createConversation({ sessionId: 's1' });
+
+    const insert = db.insert.bind(db);
+    let conflicts = 1;
+    db.insert = ((table: Parameters<typeof insert>[0]) => {
+      if (conflicts-- > 0) throw new Error('insert failed', { cause: { code: '23505' } });
+      return insert(table);
+    }) as typeof db.insert;
+
+    const note = await storage.createSoapNote({ conversationId: 's1', subjective: 'S', objective: 'O', assessment: 'A', plan: 'P', source: 'clinician' });
+    assert.equal(note.version, 1);
+  });
+
+  it('recognizes unique violations only', () => {
+    assert.ok(isUniqueViolation({ code: '23505' }));
+    assert.ok(!isUniqueViolation({ code: '23503' }));
+    assert.ok(!isUniqueViolation(new Error('connection lost')));
+    assert.ok(!isUniqueViolation(undefined));
+  });
+});
@@ -1,27 +1,209 @@
-import { conversations, messages, type Conversation, type Message, type InsertConversation, type InsertMessage } from "@shared/schema";
+import { conversations, messages, patients, safetyEvents, treatmentPlans, homeworkAssignments, clinicianNotes, takeoverEvents, appointments, soapNotes, type ClinicalSnapshot, type Conversation, type Message, type InsertConversation, type InsertMessage, type InsertPatient, type MessageMetadata, type Patient, type SafetyEvent, type InsertSafetyEvent, type SafetyNotificationStatus, type TreatmentPlan, type InsertTreatmentPlan, type HomeworkAssignment, type InsertHomework, type ClinicianNote, type InsertClinicianNote, type TakeoverEvent, type InsertTakeoverEvent, type Appointment, type InsertAppointment, type SoapNote, type InsertSoapNote } from "@shared/schema";
+import * as schema from "@shared/schema";
+import { and, asc, desc, eq, getTableColumns, gt, gte, inArray, isNotNull, isNull, lt, lte, ne, sql, type SQL } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface ConversationListOptions {
+  limit?: number;
+  cursor?: string;
+  from?: Date;
+  to?: Date;
+  search?: string;
+  riskFlagged?: boolean;
+  // true: only cases a clinician marked reviewed; false: only cases pending review
+  reviewed?: boolean;
+}
+
+export interface MessagePageOptions {
+  limit?: number;
+  cursor?: string;
+  order?: 'asc' | 'desc';
+}
+
+export type ConversationLanguageUpdate = Partial<Pick<Conversation, 'language' | 'languagePinned'>>;
+
+export type TreatmentPlanUpdate = Partial<Pick<TreatmentPlan, 'diagnosis' | 'goals' | 'techniques' | 'status'>>;
+export type HomeworkUpdate = Partial<Pick<HomeworkAssignment, 'description' | 'dueDate' | 'status' | 'notes'>>;
+export type NewHomework = Omit<InsertHomework, 'planId'>;
+
+export type ConversationSummary = Conversation & {
+  messageCount: number;
+  lastMessageAt: Date | null;
+};
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Cursors are opaque to clients; internally they wrap the id of the last row returned
+export function encodeCursor(id: number): string {
+  return Buffer.from(String(id)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+  const id = Number(Buffer.from(cursor, 'base64url').toString());
+  if (!Number.isInteger(id) || id < 0) {
+    throw new InvalidCursorError(cursor);
+  }
+  return id;
+}
+
+function clampLimit(limit: number | undefined): number {
+  return Math.min(Math.max(limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+}
+
+function toPage<T extends { id: number }>(rows: T[], limit: number): Page<T> {
+  const items = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(items[items.length - 1].id) : null;
+  return { items, nextCursor };
+}
+
+// Lowercase and strip accents so "depresion" matches "depresión"
+function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Conversation search matches messages containing every term as a substring, ignoring case
+// and accents, in both backends
+function searchTerms(search: string): string[] {
+  return normalizeText(search).split(/\s+/).filter(Boolean);
+}
+
+// LIKE pattern that lets Postgres use the trigram index on message_search_text(content). LIKE
+// wildcards and the escape character in the term become "_", so the pattern never misses a
+// match, and strpos then checks the exact substring
+function likePrefilter(term: string): string {
+  return `%${term.replace(/[%_\\]/g, '_')}%`;
+}
 
 export interface IStorage {
   // Conversations
   getConversation(sessionId: string): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
+  listConversations(options?: ConversationListOptions): Promise<Page<ConversationSummary>>;
   
   // Messages
   getMessages(conversationId: string): Promise<Message[]>;
+  getMessagesPage(conversationId: string, options?: MessagePageOptions): Promise<Page<Message>>;
   addMessage(message: InsertMessage): Promise<Message>;
   getRecentMessages(conversationId: string, limit?: number): Promise<Message[]>;
+  // Messages with id > afterId, oldest first
+  getMessagesAfter(conversationId: string, afterId: number): Promise<Message[]>;
+
+  // Rolling summary
+  updateConversationSummary(sessionId: string, summary: string, throughMessageId: number): Promise<Conversation | undefined>;
+  saveClinicalState(sessionId: string, state: ClinicalSnapshot): Promise<void>;
+  updateConversationLanguage(sessionId: string, update: ConversationLanguageUpdate): Promise<Conversation | undefined>;
+
+  // Patients
+  createPatient(patient: InsertPatient & { patientKey: string }): Promise<Patient>;
+  getPatientByKey(patientKey: string): Promise<Patient | undefined>;
+  getPatient(id: number): Promise<Patient | undefined>;
+  touchPatient(id: number): Promise<void>;
+  // Newest first
+  getPatientConversations(patientId: number): Promise<Conversation[]>;
+
+  // Safety
+  flagConversation(sessionId: string, flagged: boolean): Promise<Conversation | undefined>;
+  recordSafetyEvent(event: InsertSafetyEvent): Promise<SafetyEvent>;
+  updateSafetyEventNotification(id: number, status: SafetyNotificationStatus): Promise<void>;
+  getSafetyEvents(conversationId: string): Promise<SafetyEvent[]>;
+
+  // Clinician review (notes oldest first); reviewedBy null clears the review
+  setConversationReviewed(sessionId: string, reviewed: boolean, reviewedBy?: string | null): Promise<Conversation | undefined>;
+  addClinicianNote(note: InsertClinicianNote): Promise<ClinicianNote>;
+  getClinicianNotes(conversationId: string): Promise<ClinicianNote[]>;
+
+  // Human takeover (events oldest first); clinician null hands the session back to the agent
+  setTakeover(sessionId: string, clinician: string | null): Promise<Conversation | undefined>;
+  // Atomically takes the session for a clinician; undefined if someone already holds it
+  claimTakeover(sessionId: string, clinician: string): Promise<Conversation | undefined>;
+  recordTakeoverEvent(event: InsertTakeoverEvent): Promise<TakeoverEvent>;
+  getTakeoverEvents(conversationId: string): Promise<TakeoverEvent[]>;
+
+  // Treatment plans (newest first) and their homework (in creation order)
+  createTreatmentPlan(plan: InsertTreatmentPlan, homework?: NewHomework[]): Promise<TreatmentPlan>;
+  // Discontinues the consultation's active plans and creates the new one in a single transaction
+  replaceActiveTreatmentPlan(plan: InsertTreatmentPlan, homework?: NewHomework[]): Promise<TreatmentPlan>;
+  getTreatmentPlan(id: number): Promise<TreatmentPlan | undefined>;
+  getTreatmentPlans(conversationId: string): Promise<TreatmentPlan[]>;
+  getPatientTreatmentPlans(patientId: number): Promise<TreatmentPlan[]>;
+  updateTreatmentPlan(id: number, update: TreatmentPlanUpdate): Promise<TreatmentPlan | undefined>;
+  deleteTreatmentPlan(id: number): Promise<boolean>;
+  addHomework(homework: InsertHomework): Promise<HomeworkAssignment>;
+  getHomework(planId: number): Promise<HomeworkAssignment[]>;
+  getHomeworkAssignment(id: number): Promise<HomeworkAssignment | undefined>;
+  // Moving to "completed" stamps completedAt; moving away clears it
+  updateHomework(id: number, update: HomeworkUpdate): Promise<HomeworkAssignment | undefined>;
+  deleteHomework(id: number): Promise<boolean>;
+
+  // Appointments (by start time); the range query only returns scheduled ones and is used to
+  // find clashes
+  createAppointment(appointment: InsertAppointment): Promise<Appointment>;
+  getAppointments(conversationId: string): Promise<Appointment[]>;
+  getScheduledAppointmentsBetween(from: Date, to: Date): Promise<Appointment[]>;
+
+  // SOAP notes: each call stores the next version of the session's note; versions newest first
+  createSoapNote(note: InsertSoapNote): Promise<SoapNote>;
+  getSoapNotes(conversationId: string): Promise<SoapNote[]>;
+  // Latest version when no version is given
+  getSoapNote(conversationId: string, version?: number): Promise<SoapNote | undefined>;
 }
 
 export class MemStorage implements IStorage {
   private conversations: Map<string, Conversation>;
   private messages: Map<string, Message[]>;
+  private safetyEvents: SafetyEvent[];
+  private patients: Map<number, Patient>;
+  private treatmentPlans: Map<number, TreatmentPlan>;
+  private homework: Map<number, HomeworkAssignment>;
+  private clinicianNotes: ClinicianNote[];
+  private takeoverEvents: TakeoverEvent[];
+  private appointments: Appointment[];
+  private soapNotes: SoapNote[];
   private currentConversationId: number;
   private currentMessageId: number;
+  private currentSafetyEventId: number;
+  private currentPatientId: number;
+  private currentTreatmentPlanId: number;
+  private currentHomeworkId: number;
+  private currentClinicianNoteId: number;
+  private currentTakeoverEventId: number;
+  private currentAppointmentId: number;
+  private currentSoapNoteId: number;
 
   constructor() {
     this.conversations = new Map();
     this.messages = new Map();
+    this.safetyEvents = [];
     this.currentConversationId = 1;
     this.currentMessageId = 1;
+    this.currentSafetyEventId = 1;
+    this.patients = new Map();
+    this.currentPatientId = 1;
+    this.treatmentPlans = new Map();
+    this.homework = new Map();
+    this.currentTreatmentPlanId = 1;
+    this.currentHomeworkId = 1;
+    this.clinicianNotes = [];
+    this.currentClinicianNoteId = 1;
+    this.takeoverEvents = [];
+    this.currentTakeoverEventId = 1;
+    this.appointments = [];
+    this.currentAppointmentId = 1;
+    this.soapNotes = [];
+    this.currentSoapNoteId = 1;
   }
 
   async getConversation(sessionId: string): Promise<Conversation | undefined> {
@@ -35,17 +217,81 @@ export class MemStorage implements IStorage {
     const conversation: Conversation = {
       ...insertConversation,
       id,
+      patientId: insertConversation.patientId ?? null,
+      personaId: insertConversation.personaId ?? null,
+      language: insertConversation.language ?? null,
+      languagePinned: insertConversation.languagePinned ?? false,
       createdAt: new Date(),
+      riskFlagged: false,
+      riskFlaggedAt: null,
+      summary: null,
+      summaryThroughMessageId: null,
+      summaryUpdatedAt: null,
+      clinicalState: null,
+      reviewedAt: null,
+      reviewedBy: null,
+      takeoverBy: null,
+      takeoverStartedAt: null,
     };
     this.conversations.set(insertConversation.sessionId, conversation);
     this.messages.set(insertConversation.sessionId, []);
     return conversation;
   }
 
+  async listConversations(options: ConversationListOptions = {}): Promise<Page<ConversationSummary>> {
+    const limit = clampLimit(options.limit);
+    const cursorId = options.cursor ? decodeCursor(options.cursor) : undefined;
+    const terms = options.search ? searchTerms(options.search) : [];
+
+    const rows = Array.from(this.conversations.values())
+      .filter((conv) => cursorId === undefined || conv.id < cursorId)
+      .filter((conv) => !options.from || conv.createdAt >= options.from)
+      .filter((conv) => !options.to || conv.createdAt <= options.to)
+      .filter((conv) => options.riskFlagged === undefined || conv.riskFlagged === options.riskFlagged)
+      .filter((conv) => options.reviewed === undefined || (conv.reviewedAt !== null) === options.reviewed)
+      .filter((conv) => {
+        if (terms.length === 0) return true;
+        const conversationMessages = this.messages.get(conv.sessionId) || [];
+        return conversationMessages.some((msg) => {
+          const content = normalizeText(msg.content);
+          return terms.every((term) => content.includes(term));
+        });
+      })
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit + 1)
+      .map((conv) => {
+        const conversationMessages = this.messages.get(conv.sessionId) || [];
+        const lastMessage = conversationMessages[conversationMessages.length - 1];
+        return {
+          ...conv,
+          messageCount: conversationMessages.length,
+          lastMessageAt: lastMessage ? lastMessage.timestamp : null,
+        };
+      });
+
+    return toPage(rows, limit);
+  }
+
   async getMessages(conversationId: string): Promise<Message[]> {
     return this.messages.get(conversationId) || [];
   }
 
+  async getMessagesPage(conversationId: string, options: MessagePageOptions = {}): Promise<Page<Message>> {
+    const limit = clampLimit(options.limit);
+    const order = options.order ?? 'asc';
+    const cursorId = options.cursor ? decodeCursor(options.cursor) : undefined;
+
+    let rows = [...(this.messages.get(conversationId) || [])];
+    if (order === 'desc') {
+      rows.reverse();
+    }
+    if (cursorId !== undefined) {
+      rows = rows.filter((msg) => order === 'asc' ? msg.id > cursorId : msg.id < cursorId);
+    }
+
+    return toPage(rows.slice(0, limit + 1), limit);
+  }
+
   async addMessage(insertMessage: InsertMessage): Promise<Message> {
     const id = this.currentMessageId++;
     const message: Message = {
@@ -54,11 +300,7 @@ export class MemStorage implements IStorage {
       timestamp: new Date(),
       isVoice: insertMessage.isVoice ?? false,
       audioData: insertMessage.audioData ?? null,
-      metadata: insertMessage.metadata ? {
-        transcriptionDuration: insertMessage.metadata.transcriptionDuration as number | undefined,
-        processingTime: insertMessage.metadata.processingTime as number | undefined,
-        vadDetected: insertMessage.metadata.vadDetected as boolean | undefined,
-      } : null,
+      metadata: (insertMessage.metadata as MessageMetadata | null | undefined) ?? null,
     };
     
     const conversationMessages = this.messages.get(insertMessage.conversationId) || [];
@@ -72,6 +314,861 @@ export class MemStorage implements IStorage {
     const messages = this.messages.get(conversationId) || [];
     return messages.slice(-limit);
   }
+
+  async getMessagesAfter(conversationId: string, afterId: number): Promise<Message[]> {
+    return (this.messages.get(conversationId) || []).filter((msg) => msg.id > afterId);
+  }
+
+  async updateConversationSummary(sessionId: string, summary: string, throughMessageId: number): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) return undefined;
+
+    conversation.summary = summary;
+    conversation.summaryThroughMessageId = throughMessageId;
+    conversation.summaryUpdatedAt = new Date();
+    return conversation;
+  }
+
+  async saveClinicalState(sessionId: string, state: ClinicalSnapshot): Promise<void> {
+    const conversation = this.conversations.get(sessionId);
+    if (conversation) {
+      conversation.clinicalState = state;
+    }
+  }
+
+  async updateConversationLanguage(sessionId: string, update: ConversationLanguageUpdate): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) return undefined;
+
+    if (update.language !== undefined) conversation.language = update.language;
+    if (update.languagePinned !== undefined) conversation.languagePinned = update.languagePinned;
+    return conversation;
+  }
+
+  async createPatient(insertPatient: InsertPatient & { patientKey: string }): Promise<Patient> {
+    const id = this.currentPatientId++;
+    const patient: Patient = {
+      id,
+      patientKey: insertPatient.patientKey,
+      displayName: insertPatient.displayName ?? null,
+      createdAt: new Date(),
+      lastSeenAt: new Date(),
+    };
+    this.patients.set(id, patient);
+    return patient;
+  }
+
+  async getPatientByKey(patientKey: string): Promise<Patient | undefined> {
+    return Array.from(this.patients.values()).find((patient) => patient.patientKey === patientKey);
+  }
+
+  async getPatient(id: number): Promise<Patient | undefined> {
+    return this.patients.get(id);
+  }
+
+  async touchPatient(id: number): Promise<void> {
+    const patient = this.patients.get(id);
+    if (patient) {
+      patient.lastSeenAt = new Date();
+    }
+  }
+
+  async getPatientConversations(patientId: number): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter((conv) => conv.patientId === patientId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async flagConversation(sessionId: string, flagged: boolean): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) return undefined;
+
+    conversation.riskFlagged = flagged;
+    conversation.riskFlaggedAt = flagged ? (conversation.riskFlaggedAt ?? new Date()) : null;
+    return conversation;
+  }
+
+  async recordSafetyEvent(insertEvent: InsertSafetyEvent): Promise<SafetyEvent> {
+    const event: SafetyEvent = {
+      ...insertEvent,
+      matchedPhrases: insertEvent.matchedPhrases as string[],
+      id: this.currentSafetyEventId++,
+      createdAt: new Date(),
+    };
+    this.safetyEvents.push(event);
+    return event;
+  }
+
+  async updateSafetyEventNotification(id: number, status: SafetyNotificationStatus): Promise<void> {
+    const event = this.safetyEvents.find((e) => e.id === id);
+    if (event) {
+      event.notificationStatus = status;
+    }
+  }
+
+  async getSafetyEvents(conversationId: string): Promise<SafetyEvent[]> {
+    return this.safetyEvents.filter((e) => e.conversationId === conversationId);
+  }
+
+  async setConversationReviewed(sessionId: string, reviewed: boolean, reviewedBy: string | null = null): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) return undefined;
+
+    conversation.reviewedAt = reviewed ? new Date() : null;
+    conversation.reviewedBy = reviewed ? reviewedBy : null;
+    return conversation;
+  }
+
+  async addClinicianNote(insertNote: InsertClinicianNote): Promise<ClinicianNote> {
+    const note: ClinicianNote = {
+      id: this.currentClinicianNoteId++,
+      conversationId: insertNote.conversationId,
+      author: insertNote.author ?? null,
+      content: insertNote.content,
+      createdAt: new Date(),
+    };
+    this.clinicianNotes.push(note);
+    return note;
+  }
+
+  async getClinicianNotes(conversationId: string): Promise<ClinicianNote[]> {
+    return this.clinicianNotes.filter((note) => note.conversationId === conversationId);
+  }
+
+  async setTakeover(sessionId: string, clinician: string | null): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) return undefined;
+
+    conversation.takeoverBy = clinician;
+    conversation.takeoverStartedAt = clinician ? new Date() : null;
+    return conversation;
+  }
+
+  async claimTakeover(sessionId: string, clinician: string): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation || conversation.takeoverBy) return undefined;
+
+    return this.setTakeover(sessionId, clinician);
+  }
+
+  async recordTakeoverEvent(insertEvent: InsertTakeoverEvent): Promise<TakeoverEvent> {
+    const event: TakeoverEvent = {
+      id: this.currentTakeoverEventId++,
+      conversationId: insertEvent.conversationId,
+      action: insertEvent.action,
+      clinician: insertEvent.clinician,
+      content: insertEvent.content ?? null,
+      messageId: insertEvent.messageId ?? null,
+      createdAt: new Date(),
+    };
+    this.takeoverEvents.push(event);
+    return event;
+  }
+
+  async getTakeoverEvents(conversationId: string): Promise<TakeoverEvent[]> {
+    return this.takeoverEvents.filter((event) => event.conversationId === conversationId);
+  }
+
+  async createTreatmentPlan(insertPlan: InsertTreatmentPlan, homework: NewHomework[] = []): Promise<TreatmentPlan> {
+    const now = new Date();
+    const plan: TreatmentPlan = {
+      id: this.currentTreatmentPlanId++,
+      conversationId: insertPlan.conversationId,
+      patientId: insertPlan.patientId ?? null,
+      diagnosis: insertPlan.diagnosis ?? null,
+      goals: insertPlan.goals,
+      techniques: insertPlan.techniques,
+      status: insertPlan.status ?? 'active',
+      source: insertPlan.source,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.treatmentPlans.set(plan.id, plan);
+
+    for (const item of homework) {
+      await this.addHomework({ ...item, planId: plan.id });
+    }
+    return plan;
+  }
+
+  async replaceActiveTreatmentPlan(insertPlan: InsertTreatmentPlan, homework: NewHomework[] = []): Promise<TreatmentPlan> {
+    this.discontinueActivePlans(insertPlan.conversationId);
+    return this.createTreatmentPlan(insertPlan, homework);
+  }
+
+  private discontinueActivePlans(conversationId: string, exceptId?: number): void {
+    const now = new Date();
+    Array.from(this.treatmentPlans.values())
+      .filter((plan) => plan.conversationId === conversationId && plan.status === 'active' && plan.id !== exceptId)
+      .forEach((plan) => Object.assign(plan, { status: 'discontinued', updatedAt: now }));
+  }
+
+  async getTreatmentPlan(id: number): Promise<TreatmentPlan | undefined> {
+    return this.treatmentPlans.get(id);
+  }
+
+  async getTreatmentPlans(conversationId: string): Promise<TreatmentPlan[]> {
+    return Array.from(this.treatmentPlans.values())
+      .filter((plan) => plan.conversationId === conversationId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getPatientTreatmentPlans(patientId: number): Promise<TreatmentPlan[]> {
+    return Array.from(this.treatmentPlans.values())
+      .filter((plan) => plan.patientId === patientId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async updateTreatmentPlan(id: number, update: TreatmentPlanUpdate): Promise<TreatmentPlan | undefined> {
+    const plan = this.treatmentPlans.get(id);
+    if (!plan) return undefined;
+
+    if (update.status === 'active') {
+      this.discontinueActivePlans(plan.conversationId, id);
+    }
+    Object.assign(plan, update, { updatedAt: new Date() });
+    return plan;
+  }
+
+  async deleteTreatmentPlan(id: number): Promise<boolean> {
+    Array.from(this.homework.values())
+      .filter((item) => item.planId === id)
+      .forEach((item) => this.homework.delete(item.id));
+    return this.treatmentPlans.delete(id);
+  }
+
+  async addHomework(insertHomework: InsertHomework): Promise<HomeworkAssignment> {
+    const item: HomeworkAssignment = {
+      id: this.currentHomeworkId++,
+      planId: insertHomework.planId,
+      description: insertHomework.description,
+      dueDate: insertHomework.dueDate ?? null,
+      status: insertHomework.status ?? 'pending',
+      notes: insertHomework.notes ?? null,
+      completedAt: insertHomework.status === 'completed' ? new Date() : null,
+      createdAt: new Date(),
+    };
+    this.homework.set(item.id, item);
+    return item;
+  }
+
+  async getHomework(planId: number): Promise<HomeworkAssignment[]> {
+    return Array.from(this.homework.values())
+      .filter((item) => item.planId === planId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getHomeworkAssignment(id: number): Promise<HomeworkAssignment | undefined> {
+    return this.homework.get(id);
+  }
+
+  async updateHomework(id: number, update: HomeworkUpdate): Promise<HomeworkAssignment | undefined> {
+    const item = this.homework.get(id);
+    if (!item) return undefined;
+
+    Object.assign(item, update);
+    if (update.status) {
+      item.completedAt = update.status === 'completed' ? (item.completedAt ?? new Date()) : null;
+    }
+    return item;
+  }
+
+  async deleteHomework(id: number): Promise<boolean> {
+    return this.homework.delete(id);
+  }
+
+  async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
+    const appointment: Appointment = {
+      id: this.currentAppointmentId++,
+      conversationId: insertAppointment.conversationId,
+      patientId: insertAppointment.patientId ?? null,
+      startsAt: insertAppointment.startsAt,
+      durationMinutes: insertAppointment.durationMinutes,
+      reason: insertAppointment.reason ?? null,
+      status: insertAppointment.status ?? "scheduled",
+      createdAt: new Date(),
+    };
+    this.appointments.push(appointment);
+    return appointment;
+  }
+
+  async getAppointments(conversationId: string): Promise<Appointment[]> {
+    return this.appointments
+      .filter((appointment) => appointment.conversationId === conversationId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async getScheduledAppointmentsBetween(from: Date, to: Date): Promise<Appointment[]> {
+    return this.appointments
+      .filter((appointment) => appointment.status === "scheduled" && appointment.startsAt >= from && appointment.startsAt < to)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async createSoapNote(insertNote: InsertSoapNote): Promise<SoapNote> {
+    // Read and insert without awaiting in between, so concurrent calls get distinct versions
+    const latest = this.soapNotes
+      .filter((note) => note.conversationId === insertNote.conversationId)
+      .reduce((max, note) => Math.max(max, note.version), 0);
+    const note: SoapNote = {
+      ...insertNote,
+      id: this.currentSoapNoteId++,
+      version: latest + 1,
+      author: insertNote.author ?? null,
+      createdAt: new Date(),
+    };
+    this.soapNotes.push(note);
+    return note;
+  }
+
+  async getSoapNotes(conversationId: string): Promise<SoapNote[]> {
+    return this.soapNotes
+      .filter((note) => note.conversationId === conversationId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getSoapNote(conversationId: string, version?: number): Promise<SoapNote | undefined> {
+    const notes = await this.getSoapNotes(conversationId);
+    return version === undefined ? notes[0] : notes.find((note) => note.version === version);
+  }
 }
 
-export const storage = new MemStorage();
+const SOAP_NOTE_INSERT_ATTEMPTS = 5;
+
+// Postgres unique_violation, raised by the driver directly or wrapped as the cause
+export function isUniqueViolation(error: unknown): boolean {
+  const code = (value: unknown) => (value as { code?: unknown } | null)?.code;
+  return code(error) === '23505' || code((error as { cause?: unknown } | null)?.cause) === '23505';
+}
+
+// Any drizzle Postgres database works here (Neon, node-postgres, pg-mem...)
+export type StorageDatabase = PgDatabase<PgQueryResultHKT, typeof schema>;
+type StorageTransaction = Parameters<Parameters<StorageDatabase['transaction']>[0]>[0];
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: StorageDatabase) {}
+
+  async getConversation(sessionId: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.sessionId, sessionId))
+      .limit(1);
+    return conversation;
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const [conversation] = await this.db
+      .insert(conversations)
+      .values(insertConversation)
+      .returning();
+    return conversation;
+  }
+
+  async listConversations(options: ConversationListOptions = {}): Promise<Page<ConversationSummary>> {
+    const limit = clampLimit(options.limit);
+    const conditions: SQL[] = [];
+
+    if (options.cursor) {
+      conditions.push(lt(conversations.id, decodeCursor(options.cursor)));
+    }
+    if (options.from) {
+      conditions.push(gte(conversations.createdAt, options.from));
+    }
+    if (options.to) {
+      conditions.push(lte(conversations.createdAt, options.to));
+    }
+    if (options.riskFlagged !== undefined) {
+      conditions.push(eq(conversations.riskFlagged, options.riskFlagged));
+    }
+    if (options.reviewed !== undefined) {
+      conditions.push(options.reviewed ? isNotNull(conversations.reviewedAt) : isNull(conversations.reviewedAt));
+    }
+    const terms = options.search ? searchTerms(options.search) : [];
+    if (terms.length > 0) {
+      // Same rule as MemStorage: one message must contain every term, ignoring case and accents
+      const matching = this.db
+        .selectDistinct({ conversationId: messages.conversationId })
+        .from(messages)
+        .where(and(...terms.map(term => {
+          const content = sql`message_search_text(${messages.content})`;
+          return sql`${content} like ${likePrefilter(term)} and strpos(${content}, ${term}) > 0`;
+        })));
+      conditions.push(inArray(conversations.sessionId, matching));
+    }
+
+    const rows = await this.db
+      .select({
+        ...getTableColumns(conversations),
+        messageCount: sql<number>`cast(count(${messages.id}) as int)`,
+        lastMessageAt: sql<Date | null>`max(${messages.timestamp})`.mapWith(messages.timestamp),
+      })
+      .from(conversations)
+      .leftJoin(messages, eq(messages.conversationId, conversations.sessionId))
+      .where(and(...conditions))
+      .groupBy(conversations.id)
+      .orderBy(desc(conversations.id))
+      .limit(limit + 1);
+
+    return toPage(rows, limit);
+  }
+
+  async getMessagesPage(conversationId: string, options: MessagePageOptions = {}): Promise<Page<Message>> {
+    const limit = clampLimit(options.limit);
+    const order = options.order ?? 'asc';
+    const conditions: SQL[] = [eq(messages.conversationId, conversationId)];
+
+    if (options.cursor) {
+      const cursorId = decodeCursor(options.cursor);
+      conditions.push(order === 'asc' ? gt(messages.id, cursorId) : lt(messages.id, cursorId));
+    }
+
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(and(...conditions))
+      .orderBy(order === 'asc' ? asc(messages.id) : desc(messages.id))
+      .limit(limit + 1);
+
+    return toPage(rows, limit);
+  }
+
+  async getMessages(conversationId: string): Promise<Message[]> {
+    return this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(asc(messages.timestamp), asc(messages.id));
+  }
+
+  async addMessage(insertMessage: InsertMessage): Promise<Message> {
+    const [message] = await this.db
+      .insert(messages)
+      .values({
+        ...insertMessage,
+        metadata: insertMessage.metadata as MessageMetadata | null | undefined,
+      })
+      .returning();
+    return message;
+  }
+
+  async getRecentMessages(conversationId: string, limit: number = 10): Promise<Message[]> {
+    const recent = await this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(desc(messages.timestamp), desc(messages.id))
+      .limit(limit);
+    return recent.reverse();
+  }
+
+  async getMessagesAfter(conversationId: string, afterId: number): Promise<Message[]> {
+    return this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), gt(messages.id, afterId)))
+      .orderBy(asc(messages.id));
+  }
+
+  async updateConversationSummary(sessionId: string, summary: string, throughMessageId: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({ summary, summaryThroughMessageId: throughMessageId, summaryUpdatedAt: new Date() })
+      .where(eq(conversations.sessionId, sessionId))
+      .returning();
+    return conversation;
+  }
+
+  async saveClinicalState(sessionId: string, state: ClinicalSnapshot): Promise<void> {
+    await this.db
+      .update(conversations)
+      .set({ clinicalState: state })
+      .where(eq(conversations.sessionId, sessionId));
+  }
+
+  async updateConversationLanguage(sessionId: string, update: ConversationLanguageUpdate): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set(update)
+      .where(eq(conversations.sessionId, sessionId))
+      .returning();
+    return conversation;
+  }
+
+  async createPatient(insertPatient: InsertPatient & { patientKey: string }): Promise<Patient> {
+    const [patient] = await this.db
+      .insert(patients)
+      .values(insertPatient)
+      .returning();
+    return patient;
+  }
+
+  async getPatientByKey(patientKey: string): Promise<Patient | undefined> {
+    const [patient] = await this.db
+      .select()
+      .from(patients)
+      .where(eq(patients.patientKey, patientKey))
+      .limit(1);
+    return patient;
+  }
+
+  async getPatient(id: number): Promise<Patient | undefined> {
+    const [patient] = await this.db
+      .select()
+      .from(patients)
+      .where(eq(patients.id, id))
+      .limit(1);
+    return patient;
+  }
+
+  async touchPatient(id: number): Promise<void> {
+    await this.db
+      .update(patients)
+      .set({ lastSeenAt: new Date() })
+      .where(eq(patients.id, id));
+  }
+
+  async getPatientConversations(patientId: number): Promise<Conversation[]> {
+    return this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.patientId, patientId))
+      .orderBy(desc(conversations.id));
+  }
+
+  async flagConversation(sessionId: string, flagged: boolean): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({
+        riskFlagged: flagged,
+        // Keep the first flag time when re-flagging
+        riskFlaggedAt: flagged ? sql`coalesce(${conversations.riskFlaggedAt}, now())` : null,
+      })
+      .where(eq(conversations.sessionId, sessionId))
+      .returning();
+    return conversation;
+  }
+
+  async recordSafetyEvent(insertEvent: InsertSafetyEvent): Promise<SafetyEvent> {
+    const [event] = await this.db
+      .insert(safetyEvents)
+      .values({
+        ...insertEvent,
+        matchedPhrases: insertEvent.matchedPhrases as string[],
+      })
+      .returning();
+    return event;
+  }
+
+  async updateSafetyEventNotification(id: number, status: SafetyNotificationStatus): Promise<void> {
+    await this.db
+      .update(safetyEvents)
+      .set({ notificationStatus: status })
+      .where(eq(safetyEvents.id, id));
+  }
+
+  async getSafetyEvents(conversationId: string): Promise<SafetyEvent[]> {
+    return this.db
+      .select()
+      .from(safetyEvents)
+      .where(eq(safetyEvents.conversationId, conversationId))
+      .orderBy(asc(safetyEvents.id));
+  }
+
+  async setConversationReviewed(sessionId: string, reviewed: boolean, reviewedBy: string | null = null): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({
+        reviewedAt: reviewed ? new Date() : null,
+        reviewedBy: reviewed ? reviewedBy : null,
+      })
+      .where(eq(conversations.sessionId, sessionId))
+      .returning();
+    return conversation;
+  }
+
+  async addClinicianNote(insertNote: InsertClinicianNote): Promise<ClinicianNote> {
+    const [note] = await this.db
+      .insert(clinicianNotes)
+      .values(insertNote)
+      .returning();
+    return note;
+  }
+
+  async getClinicianNotes(conversationId: string): Promise<ClinicianNote[]> {
+    return this.db
+      .select()
+      .from(clinicianNotes)
+      .where(eq(clinicianNotes.conversationId, conversationId))
+      .orderBy(asc(clinicianNotes.id));
+  }
+
+  async setTakeover(sessionId: string, clinician: string | null): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({ takeoverBy: clinician, takeoverStartedAt: clinician ? new Date() : null })
+      .where(eq(conversations.sessionId, sessionId))
+      .returning();
+    return conversation;
+  }
+
+  async claimTakeover(sessionId: string, clinician: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({ takeoverBy: clinician, takeoverStartedAt: new Date() })
+      .where(and(eq(conversations.sessionId, sessionId), isNull(conversations.takeoverBy)))
+      .returning();
+    return conversation;
+  }
+
+  async recordTakeoverEvent(insertEvent: InsertTakeoverEvent): Promise<TakeoverEvent> {
+    const [event] = await this.db
+      .insert(takeoverEvents)
+      .values(insertEvent)
+      .returning();
+    return event;
+  }
+
+  async getTakeoverEvents(conversationId: string): Promise<TakeoverEvent[]> {
+    return this.db
+      .select()
+      .from(takeoverEvents)
+      .where(eq(takeoverEvents.conversationId, conversationId))
+      .orderBy(asc(takeoverEvents.id));
+  }
+
+  async createTreatmentPlan(insertPlan: InsertTreatmentPlan, homework: NewHomework[] = []): Promise<TreatmentPlan> {
+    return this.db.transaction((tx) => this.insertTreatmentPlan(tx, insertPlan, homework));
+  }
+
+  async replaceActiveTreatmentPlan(insertPlan: InsertTreatmentPlan, homework: NewHomework[] = []): Promise<TreatmentPlan> {
+    return this.db.transaction(async (tx) => {
+      await this.discontinueActivePlans(tx, insertPlan.conversationId);
+      return this.insertTreatmentPlan(tx, insertPlan, homework);
+    });
+  }
+
+  private async insertTreatmentPlan(tx: StorageTransaction, insertPlan: InsertTreatmentPlan, homework: NewHomework[]): Promise<TreatmentPlan> {
+    const [plan] = await tx
+      .insert(treatmentPlans)
+      .values({
+        ...insertPlan,
+        goals: insertPlan.goals as string[],
+        techniques: insertPlan.techniques as string[],
+      })
+      .returning();
+
+    if (homework.length > 0) {
+      await tx.insert(homeworkAssignments).values(homework.map((item) => ({ ...item, planId: plan.id })));
+    }
+    return plan;
+  }
+
+  // The conversation row lock serializes concurrent replacements, so only one plan stays active
+  private async discontinueActivePlans(tx: StorageTransaction, conversationId: string, exceptId?: number): Promise<void> {
+    await tx
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(eq(conversations.sessionId, conversationId))
+      .for('update');
+    await tx
+      .update(treatmentPlans)
+      .set({ status: 'discontinued', updatedAt: new Date() })
+      .where(and(
+        eq(treatmentPlans.conversationId, conversationId),
+        eq(treatmentPlans.status, 'active'),
+        exceptId === undefined ? undefined : ne(treatmentPlans.id, exceptId),
+      ));
+  }
+
+  async getTreatmentPlan(id: number): Promise<TreatmentPlan | undefined> {
+    const [plan] = await this.db
+      .select()
+      .from(treatmentPlans)
+      .where(eq(treatmentPlans.id, id));
+    return plan;
+  }
+
+  async getTreatmentPlans(conversationId: string): Promise<TreatmentPlan[]> {
+    return this.db
+      .select()
+      .from(treatmentPlans)
+      .where(eq(treatmentPlans.conversationId, conversationId))
+      .orderBy(desc(treatmentPlans.id));
+  }
+
+  async getPatientTreatmentPlans(patientId: number): Promise<TreatmentPlan[]> {
+    return this.db
+      .select()
+      .from(treatmentPlans)
+      .where(eq(treatmentPlans.patientId, patientId))
+      .orderBy(desc(treatmentPlans.id));
+  }
+
+  async updateTreatmentPlan(id: number, update: TreatmentPlanUpdate): Promise<TreatmentPlan | undefined> {
+    return this.db.transaction(async (tx) => {
+      if (update.status === 'active') {
+        const [existing] = await tx
+          .select({ conversationId: treatmentPlans.conversationId })
+          .from(treatmentPlans)
+          .where(eq(treatmentPlans.id, id));
+        if (!existing) return undefined;
+        await this.discontinueActivePlans(tx, existing.conversationId, id);
+      }
+
+      const [plan] = await tx
+        .update(treatmentPlans)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(treatmentPlans.id, id))
+        .returning();
+      return plan;
+    });
+  }
+
+  async deleteTreatmentPlan(id: number): Promise<boolean> {
+    // Homework goes with it (ON DELETE CASCADE)
+    const deleted = await this.db
+      .delete(treatmentPlans)
+      .where(eq(treatmentPlans.id, id))
+      .returning({ id: treatmentPlans.id });
+    return deleted.length > 0;
+  }
+
+  async addHomework(insertHomework: InsertHomework): Promise<HomeworkAssignment> {
+    const [item] = await this.db
+      .insert(homeworkAssignments)
+      .values({
+        ...insertHomework,
+        completedAt: insertHomework.status === 'completed' ? new Date() : null,
+      })
+      .returning();
+    return item;
+  }
+
+  async getHomework(planId: number): Promise<HomeworkAssignment[]> {
+    return this.db
+      .select()
+      .from(homeworkAssignments)
+      .where(eq(homeworkAssignments.planId, planId))
+      .orderBy(asc(homeworkAssignments.id));
+  }
+
+  async getHomeworkAssignment(id: number): Promise<HomeworkAssignment | undefined> {
+    const [item] = await this.db
+      .select()
+      .from(homeworkAssignments)
+      .where(eq(homeworkAssignments.id, id));
+    return item;
+  }
+
+  async updateHomework(id: number, update: HomeworkUpdate): Promise<HomeworkAssignment | undefined> {
+    const completedAt = update.status === undefined
+      ? {}
+      : { completedAt: update.status === 'completed' ? sql`coalesce(${homeworkAssignments.completedAt}, now())` : null };
+    const [item] = await this.db
+      .update(homeworkAssignments)
+      .set({ ...update, ...completedAt })
+      .where(eq(homeworkAssignments.id, id))
+      .returning();
+    return item;
+  }
+
+  async deleteHomework(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(homeworkAssignments)
+      .where(eq(homeworkAssignments.id, id))
+      .returning({ id: homeworkAssignments.id });
+    return deleted.length > 0;
+  }
+
+  async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
+    const [appointment] = await this.db
+      .insert(appointments)
+      .values(insertAppointment)
+      .returning();
+    return appointment;
+  }
+
+  async getAppointments(conversationId: string): Promise<Appointment[]> {
+    return this.db
+      .select()
+      .from(appointments)
+      .where(eq(appointments.conversationId, conversationId))
+      .orderBy(asc(appointments.startsAt));
+  }
+
+  async getScheduledAppointmentsBetween(from: Date, to: Date): Promise<Appointment[]> {
+    return this.db
+      .select()
+      .from(appointments)
+      .where(and(eq(appointments.status, "scheduled"), gte(appointments.startsAt, from), lt(appointments.startsAt, to)))
+      .orderBy(asc(appointments.startsAt));
+  }
+
+  // Two concurrent inserts can compute the same max + 1; the unique index rejects one of them,
+  // which then retries with the next version
+  async createSoapNote(insertNote: InsertSoapNote): Promise<SoapNote> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const [note] = await this.db
+          .insert(soapNotes)
+          .values({
+            ...insertNote,
+            version: sql`(select coalesce(max(${soapNotes.version}), 0) + 1 from ${soapNotes} where ${soapNotes.conversationId} = ${insertNote.conversationId})`,
+          })
+          .returning();
+        return note;
+      } catch (error) {
+        if (attempt >= SOAP_NOTE_INSERT_ATTEMPTS || !isUniqueViolation(error)) throw error;
+      }
+    }
+  }
+
+  async getSoapNotes(conversationId: string): Promise<SoapNote[]> {
+    return this.db
+      .select()
+      .from(soapNotes)
+      .where(eq(soapNotes.conversationId, conversationId))
+      .orderBy(desc(soapNotes.version));
+  }
+
+  async getSoapNote(conversationId: string, version?: number): Promise<SoapNote | undefined> {
+    const [note] = await this.db
+      .select()
+      .from(soapNotes)
+      .where(version === undefined
+        ? eq(soapNotes.conversationId, conversationId)
+        : and(eq(soapNotes.conversationId, conversationId), eq(soapNotes.version, version)))
+      .orderBy(desc(soapNotes.version))
+      .limit(1);
+    return note;
+  }
+}
+
+export type StorageDriver = 'memory' | 'postgres';
+
+// STORAGE_DRIVER picks the backend explicitly; otherwise Postgres is used whenever DATABASE_URL is set
+export function getStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER?.toLowerCase();
+  if (driver === 'memory' || driver === 'postgres') {
+    return driver;
+  }
+  if (driver) {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "memory" or "postgres")`);
+  }
+  return process.env.DATABASE_URL ? 'postgres' : 'memory';
+}
+
+export async function createStorage(driver: StorageDriver = getStorageDriver()): Promise<IStorage> {
+  if (driver === 'memory') {
+    console.log('💾 Using in-memory storage (data is lost on restart)');
+    return new MemStorage();
+  }
+
+  const { getDb, runMigrations } = await import("./db.js");
+  const db = getDb();
+  if (process.env.DB_AUTO_MIGRATE !== 'false') {
+    await runMigrations(db);
+  }
+  console.log('🗄️ Using Postgres storage');
+  return new DrizzleStorage(db);
+}
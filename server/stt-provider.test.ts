@@ -0,0 +1,79 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DEFAULT_FIXTURE_RESULT, FixtureSTTProvider, averageConfidence, type STTResult } from "./stt-provider.js";
+import { startTestApp, type TestApp } from "./test-app.js";
+
+const AUDIO = Buffer.from('RIFF fake wav audio');
+
+const FIXTURE: STTResult = {
+  text: 'No duermo bien desde hace semanas.',
+  language: 'es',
+  duration: 2.5,
+  confidence: 0.8,
+  segments: [{ start: 0, end: 2.5, text: 'No duermo bien desde hace semanas.', confidence: 0.8 }],
+};
+
+let fixturesDir: string;
+
+before(() => {
+  fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stt-fixtures-'));
+  const hash = crypto.createHash('sha256').update(AUDIO).digest('hex');
+  fs.writeFileSync(path.join(fixturesDir, `${hash}.json`), JSON.stringify(FIXTURE));
+});
+
+after(() => fs.rmSync(fixturesDir, { recursive: true, force: true }));
+
+describe('FixtureSTTProvider', () => {
+  it('answers with the fixture for the audio hash, else the default result', async () => {
+    const provider = new FixtureSTTProvider(fixturesDir);
+    assert.deepEqual(await provider.transcribe(AUDIO, { mimeType: 'audio/wav' }), FIXTURE);
+    assert.deepEqual(await provider.transcribe(Buffer.from('other'), { mimeType: 'audio/wav' }), DEFAULT_FIXTURE_RESULT);
+  });
+
+  it('rejects aborted requests', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(new FixtureSTTProvider().transcribe(AUDIO, { mimeType: 'audio/wav', signal: controller.signal }));
+  });
+
+  it('weights segment confidences by duration', () => {
+    assert.equal(averageConfidence(DEFAULT_FIXTURE_RESULT.segments), (0.95 * 1.1 + 0.9 * 2.1) / 3.2);
+    assert.equal(averageConfidence([{ start: 0, end: 1, text: 'x', confidence: null }]), null);
+  });
+});
+
+describe('POST /api/transcribe', () => {
+  let app: TestApp;
+  before(async () => {
+    app = await startTestApp({ STT_FIXTURES_DIR: fixturesDir });
+  });
+  after(() => app.close());
+
+  const transcribe = (audio: Buffer, fields: Record<string, string> = {}) => {
+    const form = new FormData();
+    form.append('audio', new Blob([audio], { type: 'audio/wav' }), 'audio.wav');
+    Object.entries(fields).forEach(([key, value]) => form.append(key, value));
+    return fetch(`${app.baseUrl}/api/transcribe`, { method: 'POST', body: form });
+  };
+
+  it('transcribes the uploaded audio with segments and confidence', async () => {
+    const response = await transcribe(AUDIO, { sessionId: 's1', turnId: 't1' });
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.transcription, FIXTURE.text);
+    assert.equal(body.language, 'es');
+    assert.equal(body.confidence, 0.8);
+    assert.deepEqual(body.segments, FIXTURE.segments);
+    assert.equal(body.provider, 'fixture');
+    assert.equal(body.turnId, 't1');
+  });
+
+  it('rejects a request without audio', async () => {
+    const response = await fetch(`${app.baseUrl}/api/transcribe`, { method: 'POST', body: new FormData() });
+    assert.equal(response.status, 400);
+  });
+});
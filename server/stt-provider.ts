@@ -0,0 +1,209 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+export type STTProviderName = 'groq' | 'openai-compatible' | 'fixture';
+
+export interface TranscriptionSegment {
+  start: number; // seconds
+  end: number;   // seconds
+  text: string;
+  confidence: number | null; // 0..1
+}
+
+export interface STTResult {
+  text: string;
+  language: string | null;
+  duration: number; // seconds
+  confidence: number | null; // duration-weighted average of segment confidences
+  segments: TranscriptionSegment[];
+}
+
+export interface TranscribeOptions {
+  mimeType: string;
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface STTProvider {
+  name: STTProviderName;
+  model: string;
+  // Whether credentials/endpoint are present; /api/transcribe answers 500 when false
+  isConfigured(): boolean;
+  transcribe(audio: Buffer, options: TranscribeOptions): Promise<STTResult>;
+}
+
+// Upstream STT service answered with an error status; routes relay it to the client
+export class STTRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'STTRequestError';
+  }
+}
+
+interface WhisperVerboseSegment {
+  start: number;
+  end: number;
+  text: string;
+  avg_logprob?: number;
+  no_speech_prob?: number;
+}
+
+interface WhisperVerboseResponse {
+  text?: string;
+  language?: string;
+  duration?: number;
+  segments?: WhisperVerboseSegment[];
+}
+
+// Whisper reports the mean token log-probability; map it (and the no-speech probability) to 0..1
+function segmentConfidence(segment: WhisperVerboseSegment): number | null {
+  if (segment.avg_logprob === undefined) return null;
+  const speech = 1 - (segment.no_speech_prob ?? 0);
+  return Math.max(0, Math.min(1, Math.exp(segment.avg_logprob) * speech));
+}
+
+export function averageConfidence(segments: TranscriptionSegment[]): number | null {
+  let weighted = 0;
+  let totalDuration = 0;
+  for (const segment of segments) {
+    if (segment.confidence === null) continue;
+    const duration = Math.max(segment.end - segment.start, 0.001);
+    weighted += segment.confidence * duration;
+    totalDuration += duration;
+  }
+  return totalDuration > 0 ? weighted / totalDuration : null;
+}
+
+// Groq and self-hosted servers (whisper.cpp server, faster-whisper, LocalAI...) all speak the
+// OpenAI /audio/transcriptions API, so one implementation covers them with different endpoints
+class WhisperApiProvider implements STTProvider {
+  constructor(
+    public name: STTProviderName,
+    public model: string,
+    private endpoint: string | undefined,
+    private apiKey: string | undefined,
+    private requiresApiKey: boolean
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.endpoint) && (!this.requiresApiKey || Boolean(this.apiKey));
+  }
+
+  async transcribe(audio: Buffer, options: TranscribeOptions): Promise<STTResult> {
+    if (!this.endpoint) {
+      throw new Error(`STT provider "${this.name}" has no endpoint configured`);
+    }
+
+    const formData = new FormData();
+    formData.append('file', new Blob([audio], { type: options.mimeType }), 'audio.wav');
+    formData.append('model', this.model);
+    formData.append('temperature', '0');
+    formData.append('response_format', 'verbose_json');
+    // Omitting the language lets Whisper auto-detect it
+    if (options.language && options.language !== 'auto') {
+      formData.append('language', options.language);
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {},
+      body: formData,
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${this.name} STT error:`, errorText);
+      throw new STTRequestError(response.status, `Transcription failed: ${response.statusText}`);
+    }
+
+    const result = await response.json() as WhisperVerboseResponse;
+    const segments: TranscriptionSegment[] = (result.segments || []).map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+      confidence: segmentConfidence(segment),
+    }));
+
+    return {
+      text: (result.text || '').trim(),
+      language: result.language || null,
+      duration: result.duration || (segments.length > 0 ? segments[segments.length - 1].end : 0),
+      confidence: averageConfidence(segments),
+      segments,
+    };
+  }
+}
+
+export const DEFAULT_FIXTURE_RESULT: STTResult = {
+  text: 'Hola doctor, últimamente me siento muy ansioso.',
+  language: 'es',
+  duration: 3.2,
+  confidence: 0.92,
+  segments: [
+    { start: 0, end: 1.1, text: 'Hola doctor,', confidence: 0.95 },
+    { start: 1.1, end: 3.2, text: 'últimamente me siento muy ansioso.', confidence: 0.9 },
+  ],
+};
+
+// Fake for tests: answers from <fixturesDir>/<sha256 of audio>.json, then <fixturesDir>/default.json,
+// then DEFAULT_FIXTURE_RESULT. Never touches the network.
+export class FixtureSTTProvider implements STTProvider {
+  name: STTProviderName = 'fixture';
+  model = 'fixture';
+
+  constructor(private fixturesDir?: string) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async transcribe(audio: Buffer, options: TranscribeOptions): Promise<STTResult> {
+    options.signal?.throwIfAborted();
+
+    if (this.fixturesDir) {
+      const hash = crypto.createHash('sha256').update(audio).digest('hex');
+      for (const file of [`${hash}.json`, 'default.json']) {
+        const fixturePath = path.join(this.fixturesDir, file);
+        if (fs.existsSync(fixturePath)) {
+          return JSON.parse(await fs.promises.readFile(fixturePath, 'utf-8')) as STTResult;
+        }
+      }
+    }
+
+    return DEFAULT_FIXTURE_RESULT;
+  }
+}
+
+// STT_PROVIDER selects the backend (groq by default)
+export function createSTTProvider(name: string = process.env.STT_PROVIDER || 'groq'): STTProvider {
+  switch (name.toLowerCase()) {
+    case 'groq':
+      return new WhisperApiProvider(
+        'groq',
+        process.env.GROQ_STT_MODEL || 'whisper-large-v3',
+        'https://api.groq.com/openai/v1/audio/transcriptions',
+        process.env.GROQ_API_KEY,
+        true
+      );
+
+    case 'openai-compatible': {
+      // e.g. STT_OPENAI_COMPAT_BASE_URL=http://localhost:8080/v1 for whisper.cpp's server
+      const baseUrl = process.env.STT_OPENAI_COMPAT_BASE_URL?.replace(/\/$/, '');
+      return new WhisperApiProvider(
+        'openai-compatible',
+        process.env.STT_OPENAI_COMPAT_MODEL || 'whisper-1',
+        baseUrl ? `${baseUrl}/audio/transcriptions` : undefined,
+        process.env.STT_OPENAI_COMPAT_API_KEY,
+        false
+      );
+    }
+
+    case 'fixture':
+      return new FixtureSTTProvider(process.env.STT_FIXTURES_DIR);
+
+    default:
+      throw new Error(`Unknown STT_PROVIDER "${name}" (expected groq, openai-compatible or fixture)`);
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp } from "./test-app.js";
+
+describe('clinician takeover', () => {
+  let app: TestApp;
+  before(async () => {
+    // Node 20's runner can fail to parse the child's output when the app's logs interleave with it
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    app = await startTestApp();
+  });
+  after(async () => {
+    await app.close();
+    mock.restoreAll();
+  });
+
+  const post = (path: string, body: unknown) => fetch(`${app.baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const startSession = async (sessionId: string) => {
+    assert.equal((await post('/api/conversations', { sessionId, language: 'es' })).status, 200);
+  };
+
+  it('lets only one of two concurrent clinicians take the session', async () => {
+    await startSession('race');
+    const responses = await Promise.all(['Dra. López', 'Dr. Pérez'].map(clinician =>
+      post('/api/clinician/cases/race/takeover', { clinician })));
+
+    assert.deepEqual(responses.map(r => r.status).sort(), [201, 409]);
+    const [winner] = await Promise.all(responses.filter(r => r.status === 201).map(r => r.json()));
+    const events = await (await fetch(`${app.baseUrl}/api/clinician/cases/race`)).json();
+    assert.deepEqual(events.takeoverEvents.map((e: { action: string }) => e.action), ['started']);
+    assert.equal(events.conversation.takeoverBy, winner.conversation.takeoverBy);
+  });
+
+  it('relays patient messages to the clinician without an agent reply', async () => {
+    await startSession('held');
+    await post('/api/clinician/cases/held/takeover', { clinician: 'Dra. López' });
+
+    const body = await (await post('/api/agent', { sessionId: 'held', inputText: 'Hoy estoy algo mejor' })).json();
+    assert.equal(body.replyText, '');
+    assert.deepEqual(body.takeover, { clinician: 'Dra. López' });
+    assert.equal(body.safetyEventId, undefined);
+  });
+
+  it('still runs the crisis protocol while a clinician holds the session', async () => {
+    await startSession('crisis');
+    await post('/api/clinician/cases/crisis/takeover', { clinician: 'Dra. López' });
+
+    const body = await (await post('/api/agent', { sessionId: 'crisis', inputText: 'Ya no quiero vivir' })).json();
+    assert.ok(body.safetyEventId);
+    assert.match(body.replyText, /\d/);
+    assert.deepEqual(body.takeover, { clinician: 'Dra. López' });
+    assert.equal(body.contextState.riskFlagged, true);
+
+    const stream = await (await post('/api/agent/stream', { sessionId: 'crisis', inputText: 'me quiero matar' })).text();
+    const done = JSON.parse(stream.split('event: done\ndata: ')[1].split('\n')[0]);
+    assert.ok(done.safetyEventId);
+    assert.deepEqual(done.takeover, { clinician: 'Dra. López' });
+    assert.match(stream, /event: sentence/);
+
+    // The case view waits for the turn's background extraction
+    const summary = await (await fetch(`${app.baseUrl}/api/clinician/cases/crisis`)).json();
+    assert.equal(summary.safetyEvents.length, 2);
+  });
+});
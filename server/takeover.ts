@@ -0,0 +1,124 @@
+import { EventEmitter } from "events";
+import type { Conversation, Message } from "@shared/schema";
+import type { IStorage } from "./storage.js";
+
+// Human takeover of a live session: while a clinician holds the session, patient messages are
+// stored and relayed to them instead of reaching the agent, and their replies are pushed to the
+// patient's client (which speaks them through the avatar). Every step is audited in
+// takeover_events.
+
+export type LiveSessionEvent =
+  | { type: 'takeover_started'; clinician: string; at: string }
+  | { type: 'takeover_ended'; clinician: string; at: string }
+  | { type: 'clinician_message'; clinician: string; messageId: number; text: string; at: string }
+  | { type: 'patient_message'; messageId: number; text: string; at: string };
+
+export class TakeoverStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TakeoverStateError';
+  }
+}
+
+export class TakeoverManager {
+  private events = new EventEmitter();
+
+  constructor(private storage: IStorage) {
+    // One listener per open dashboard or patient tab
+    this.events.setMaxListeners(0);
+  }
+
+  subscribe(sessionId: string, listener: (event: LiveSessionEvent) => void): () => void {
+    this.events.on(sessionId, listener);
+    return () => this.events.off(sessionId, listener);
+  }
+
+  private publish(sessionId: string, event: LiveSessionEvent): void {
+    this.events.emit(sessionId, event);
+  }
+
+  // Clinician holding the session, or null while the agent answers
+  async activeClinician(sessionId: string): Promise<string | null> {
+    return (await this.storage.getConversation(sessionId))?.takeoverBy ?? null;
+  }
+
+  // The claim is a single conditional update, so of two clinicians starting at once only one wins
+  async start(sessionId: string, clinician: string): Promise<Conversation> {
+    await this.requireConversation(sessionId);
+    const updated = await this.storage.claimTakeover(sessionId, clinician);
+    if (!updated) {
+      const holder = await this.activeClinician(sessionId);
+      throw new TakeoverStateError(`Session already taken over by ${holder ?? 'another clinician'}`);
+    }
+
+    const event = await this.storage.recordTakeoverEvent({ conversationId: sessionId, action: 'started', clinician });
+    console.log(`🧑‍⚕️ Session ${sessionId}: taken over by ${clinician}`);
+    this.publish(sessionId, { type: 'takeover_started', clinician, at: event.createdAt.toISOString() });
+    return updated;
+  }
+
+  // Stores the clinician's reply as an assistant message and pushes it to the patient
+  async sendClinicianMessage(sessionId: string, text: string): Promise<Message> {
+    const conversation = await this.requireConversation(sessionId);
+    const clinician = conversation.takeoverBy;
+    if (!clinician) {
+      throw new TakeoverStateError('Session is not taken over');
+    }
+
+    const message = await this.storage.addMessage({
+      conversationId: sessionId,
+      role: 'assistant',
+      content: text,
+      isVoice: false,
+      metadata: { agentType: 'clinician', clinician, language: conversation.language ?? undefined },
+    });
+    await this.storage.recordTakeoverEvent({
+      conversationId: sessionId,
+      action: 'message',
+      clinician,
+      content: text,
+      messageId: message.id,
+    });
+    this.publish(sessionId, {
+      type: 'clinician_message',
+      clinician,
+      messageId: message.id,
+      text,
+      at: message.timestamp.toISOString(),
+    });
+    return message;
+  }
+
+  // A patient message that arrived during the takeover (already stored by the caller)
+  relayPatientMessage(sessionId: string, message: Message): void {
+    this.publish(sessionId, {
+      type: 'patient_message',
+      messageId: message.id,
+      text: message.content,
+      at: message.timestamp.toISOString(),
+    });
+  }
+
+  // Hands the session back to the agent
+  async end(sessionId: string): Promise<Conversation> {
+    const conversation = await this.requireConversation(sessionId);
+    const clinician = conversation.takeoverBy;
+    if (!clinician) {
+      throw new TakeoverStateError('Session is not taken over');
+    }
+
+    const updated = await this.storage.setTakeover(sessionId, null);
+    const event = await this.storage.recordTakeoverEvent({ conversationId: sessionId, action: 'ended', clinician });
+    console.log(`🤖 Session ${sessionId}: returned to the agent by ${clinician}`);
+    this.publish(sessionId, { type: 'takeover_ended', clinician, at: event.createdAt.toISOString() });
+    return updated ?? conversation;
+  }
+
+  private async requireConversation(sessionId: string): Promise<Conversation> {
+    const conversation = await this.storage.getConversation(sessionId);
+    if (!conversation) {
+      throw new TakeoverStateError('Session not found');
+    }
+    return conversation;
+  }
+}
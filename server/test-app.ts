@@ -0,0 +1,35 @@
+import express from "express";
+import type { AddressInfo } from "net";
+
+// Starts the API on a free port with offline backends (in-memory storage, scripted LLM, fixture
+// STT) for route tests. Used only by the test suite (npm test); each test file runs in its own
+// process, so the route singletons are not shared between files.
+
+export interface TestApp {
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+const OFFLINE_ENV: Record<string, string> = {
+  STORAGE_DRIVER: 'memory',
+  LLM_PROVIDER: 'mock',
+  STT_PROVIDER: 'fixture',
+  HEYGEN_API_KEY: 'test',
+  SAFETY_WEBHOOK_URL: '',
+};
+
+export async function startTestApp(env: Record<string, string> = {}): Promise<TestApp> {
+  Object.assign(process.env, OFFLINE_ENV, env);
+  const { registerRoutes } = await import("./routes.js");
+
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+  };
+}
@@ -0,0 +1,68 @@
+import { DataType, newDb } from "pg-mem";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import path from "path";
+import * as schema from "@shared/schema";
+import type { StorageDatabase } from "./storage.js";
+
+// In-memory Postgres (pg-mem) for storage tests, with every migration applied. Used only by the
+// test suite (npm test).
+
+// pg-mem lacks full-text search (the stub lets the old 0001 search index apply), strpos, the
+// unaccent and pg_trgm extensions and SQL function bodies (message_search_text, migration 0014)
+function unaccent(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function registerMissingFunctions(mem: ReturnType<typeof newDb>) {
+  mem.public.registerFunction({
+    name: 'strpos',
+    args: [DataType.text, DataType.text],
+    returns: DataType.integer,
+    implementation: (text: string, search: string) => text.indexOf(search) + 1,
+  });
+  mem.public.registerFunction({
+    name: 'to_tsvector',
+    args: [DataType.text, DataType.text],
+    returns: DataType.text,
+    implementation: (_config: string, text: string) => text,
+  });
+  mem.registerExtension('unaccent', schema => schema.registerFunction({
+    name: 'unaccent',
+    args: [DataType.text],
+    returns: DataType.text,
+    implementation: (text: string) => unaccent(text),
+  }));
+  mem.registerExtension('pg_trgm', () => {});
+  mem.registerLanguage('sql', ({ functionName }) => {
+    if (functionName !== 'message_search_text') {
+      throw new Error(`No test implementation for SQL function ${functionName}`);
+    }
+    return (value: string) => unaccent(value.toLowerCase());
+  });
+}
+
+export async function createTestDatabase(): Promise<StorageDatabase> {
+  const mem = newDb();
+  registerMissingFunctions(mem);
+
+  const { Pool } = mem.adapters.createPg();
+  const pool = new Pool();
+  const query = pool.query.bind(pool);
+  // drizzle's node-postgres session asks for array rows and its own type parsers, which pg-mem's
+  // adapter rejects: drop the parsers and turn the (column-ordered) row objects into arrays
+  pool.query = async (config: unknown, values?: unknown) => {
+    if (!config || typeof config !== 'object') {
+      return query(config, values);
+    }
+    const { types, rowMode, ...plain } = config as { types?: unknown; rowMode?: string };
+    const result = await query(plain, values);
+    return rowMode === 'array'
+      ? { ...result, rows: result.rows.map((row: Record<string, unknown>) => Object.values(row)) }
+      : result;
+  };
+
+  const db = drizzle({ client: pool, schema });
+  await migrate(db, { migrationsFolder: path.resolve(process.cwd(), "migrations") });
+  return db;
+}
@@ -1,7 +1,7 @@
 // Complete pipeline test: Voice transcription -> LLM -> Avatar TTS
 import { HeyGenService } from './heygen-service.js';
 import { PsychologicalAgent } from './psychological-agent.js';
-import { storage } from './storage.js';
+import { MemStorage } from './storage.js';
 
 async function testFullPipeline() {
   console.log('Testing complete voice-to-avatar pipeline...\n');
@@ -9,7 +9,7 @@ async function testFullPipeline() {
   try {
     // Initialize services
     const heygenService = new HeyGenService();
-    const psychAgent = new PsychologicalAgent(storage);
+    const psychAgent = new PsychologicalAgent(new MemStorage());
     
     // Test 1: Create avatar session
     console.log('1. Creating HeyGen streaming session...');
@@ -25,7 +25,7 @@ async function testFullPipeline() {
     // Test 3: Test psychological agent response
     console.log('\n3. Testing psychological agent...');
     const testMessage = "Hola doctor, me siento muy ansioso últimamente";
-    const agentResponse = await psychAgent.processMessage('test-session', testMessage);
+    const { text: agentResponse } = await psychAgent.processMessage('test-session', testMessage);
     console.log(`Agent response: ${agentResponse}`);
     
     // Test 4: Send response to avatar for TTS
@@ -0,0 +1,204 @@
+// Rule-driven therapy phase state machine: each phase has exit criteria that move the
+// session forward, and a prompt section injected into the agent's system prompt
+import type { ClinicalFinding } from "./clinical-extractor.js";
+import type { ConsultationLanguage } from "./languages.js";
+
+export const THERAPY_PHASES = ['intake', 'assessment', 'diagnosis', 'treatment', 'followup'] as const;
+
+export type TherapyPhase = typeof THERAPY_PHASES[number];
+
+// rule: exit criteria met; risk: risk factors detected; manual: POST /api/sessions/:sessionId/phase
+export type PhaseTrigger = 'rule' | 'risk' | 'manual';
+
+export interface PhaseTransition {
+  from: TherapyPhase;
+  to: TherapyPhase;
+  trigger: PhaseTrigger;
+  reason: string;
+  atTurn: number;
+  at: string;
+}
+
+// The slice of session state the rules look at
+export interface PhaseState {
+  phase: TherapyPhase;
+  turnCount: number;
+  chiefComplaint?: string;
+  symptoms: ClinicalFinding[];
+  riskFactors: ClinicalFinding[];
+  treatmentPlan?: string[];
+  phaseHistory: PhaseTransition[];
+}
+
+interface PhaseDefinition {
+  label: string;
+  // Added to the system prompt while the session is in this phase, per consultation language
+  prompt: Record<ConsultationLanguage, { title: string; section: string }>;
+  next?: TherapyPhase;
+  // Returns why the phase is complete, or null while it is not
+  exitCriterion?: (state: PhaseState) => string | null;
+}
+
+const MIN_ASSESSMENT_TURNS = 4;
+const MIN_ASSESSED_SYMPTOMS = 2;
+const MIN_DIAGNOSIS_TURNS = 2;
+const MIN_TREATMENT_TURNS = 4;
+// Turns spent presenting and agreeing on a drafted plan before moving to follow-up
+const MIN_PLAN_DISCUSSION_TURNS = 3;
+
+export function turnsInPhase(state: PhaseState): number {
+  const entered = state.phaseHistory[state.phaseHistory.length - 1]?.atTurn ?? 0;
+  return state.turnCount - entered;
+}
+
+function hasSevereRisk(state: PhaseState): boolean {
+  return state.riskFactors.some(risk => risk.severity === 'severe');
+}
+
+export const PHASE_DEFINITIONS: Record<TherapyPhase, PhaseDefinition> = {
+  intake: {
+    label: 'Bienvenida e intake',
+    prompt: {
+      es: {
+        title: 'BIENVENIDA E INTAKE',
+        section: `- Preséntate brevemente y explica la confidencialidad.
+- Tu objetivo es identificar el MOTIVO DE CONSULTA principal con una pregunta abierta.
+- No profundices todavía en la historia ni propongas técnicas.`,
+      },
+      en: {
+        title: 'WELCOME AND INTAKE',
+        section: `- Briefly introduce yourself and explain confidentiality.
+- Your goal is to identify the main REASON FOR CONSULTATION with an open question.
+- Don't go deeper into the history or propose techniques yet.`,
+      },
+    },
+    next: 'assessment',
+    exitCriterion: state => state.chiefComplaint
+      ? `Motivo de consulta identificado: ${state.chiefComplaint}`
+      : null,
+  },
+  assessment: {
+    label: 'Evaluación sistemática',
+    prompt: {
+      es: {
+        title: 'EVALUACIÓN SISTEMÁTICA',
+        section: `- Explora un área por respuesta: inicio y desencadenantes, frecuencia e intensidad (escala 1-10), impacto en sueño, apetito, trabajo y relaciones, antecedentes y consumo de sustancias.
+- Si hay factores de riesgo, evalúa primero la seguridad del paciente (ideación, plan, medios, red de apoyo).
+- No des diagnósticos todavía.`,
+      },
+      en: {
+        title: 'SYSTEMATIC ASSESSMENT',
+        section: `- Explore one area per reply: onset and triggers, frequency and intensity (1-10 scale), impact on sleep, appetite, work and relationships, history and substance use.
+- If there are risk factors, assess the patient's safety first (ideation, plan, means, support network).
+- Don't give diagnoses yet.`,
+      },
+    },
+    next: 'diagnosis',
+    exitCriterion: state => {
+      // A severe risk keeps the session in assessment until a clinician moves it
+      if (hasSevereRisk(state)) return null;
+      const assessed = state.symptoms.filter(symptom => symptom.evidence.length > 0).length;
+      if (assessed >= MIN_ASSESSED_SYMPTOMS && turnsInPhase(state) >= MIN_ASSESSMENT_TURNS) {
+        return `${assessed} síntomas evaluados en ${turnsInPhase(state)} turnos`;
+      }
+      return null;
+    },
+  },
+  diagnosis: {
+    label: 'Impresión diagnóstica',
+    prompt: {
+      es: {
+        title: 'IMPRESIÓN DIAGNÓSTICA',
+        section: `- Resume lo que has entendido y comparte una impresión clínica orientativa (criterios DSM-5), en lenguaje sencillo y sin etiquetar de forma definitiva.
+- Comprueba si el paciente se siente identificado con ese resumen.`,
+      },
+      en: {
+        title: 'DIAGNOSTIC IMPRESSION',
+        section: `- Summarize what you have understood and share a tentative clinical impression (DSM-5 criteria), in plain language and without definitive labels.
+- Check whether the patient recognizes themselves in that summary.`,
+      },
+    },
+    next: 'treatment',
+    exitCriterion: state => turnsInPhase(state) >= MIN_DIAGNOSIS_TURNS
+      ? 'Impresión diagnóstica compartida con el paciente'
+      : null,
+  },
+  treatment: {
+    label: 'Plan de tratamiento',
+    prompt: {
+      es: {
+        title: 'PLAN DE TRATAMIENTO',
+        section: `- Propón un plan concreto basado en terapia cognitivo-conductual: una técnica o tarea por respuesta.
+- Acuerda objetivos y tareas realistas con el paciente y verifica que los entiende.`,
+      },
+      en: {
+        title: 'TREATMENT PLAN',
+        section: `- Propose a concrete plan based on cognitive behavioral therapy: one technique or task per reply.
+- Agree on realistic goals and tasks with the patient and check that they understand them.`,
+      },
+    },
+    next: 'followup',
+    exitCriterion: state => {
+      if ((state.treatmentPlan?.length ?? 0) > 0) {
+        return turnsInPhase(state) >= MIN_PLAN_DISCUSSION_TURNS ? 'Plan de tratamiento acordado' : null;
+      }
+      return turnsInPhase(state) >= MIN_TREATMENT_TURNS ? 'Técnicas propuestas y discutidas' : null;
+    },
+  },
+  followup: {
+    label: 'Seguimiento',
+    prompt: {
+      es: {
+        title: 'SEGUIMIENTO',
+        section: `- Revisa cómo ha ido el plan acordado y refuerza los avances.
+- Ajusta tareas si algo no funciona y acuerda el siguiente paso o cierre de la sesión.`,
+      },
+      en: {
+        title: 'FOLLOW-UP',
+        section: `- Review how the agreed plan has gone and reinforce progress.
+- Adjust tasks if something isn't working and agree on the next step or how to close the session.`,
+      },
+    },
+  },
+};
+
+export function isTherapyPhase(value: unknown): value is TherapyPhase {
+  return typeof value === 'string' && (THERAPY_PHASES as readonly string[]).includes(value);
+}
+
+export function phasePromptSection(phase: TherapyPhase, language: ConsultationLanguage = 'es'): string {
+  const { title, section } = PHASE_DEFINITIONS[phase].prompt[language];
+  return `${language === 'en' ? 'CURRENT PHASE' : 'FASE ACTUAL'}: ${title}\n${section}`;
+}
+
+// Applies a transition and records it; no-op when already in the target phase
+export function transitionPhase(
+  state: PhaseState,
+  to: TherapyPhase,
+  trigger: PhaseTrigger,
+  reason: string,
+  now: Date = new Date()
+): PhaseTransition | null {
+  if (state.phase === to) return null;
+
+  const transition: PhaseTransition = {
+    from: state.phase,
+    to,
+    trigger,
+    reason,
+    atTurn: state.turnCount,
+    at: now.toISOString(),
+  };
+  state.phase = to;
+  state.phaseHistory.push(transition);
+  return transition;
+}
+
+// Advances one phase when the current phase's exit criterion holds
+export function advancePhase(state: PhaseState, now: Date = new Date()): PhaseTransition | null {
+  const definition = PHASE_DEFINITIONS[state.phase];
+  if (!definition.next || !definition.exitCriterion) return null;
+
+  const reason = definition.exitCriterion(state);
+  return reason ? transitionPhase(state, definition.next, 'rule', reason, now) : null;
+}
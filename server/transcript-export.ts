@@ -0,0 +1,152 @@
+import type { Conversation, Message } from "@shared/schema";
+import { defaultLanguage, normalizeLanguage, type ConsultationLanguage } from "./languages.js";
+
+// Transcript exports built from the stored messages: plain text, Markdown, SubRip (SRT),
+// WebVTT and JSON. Subtitle cues start at each message's timestamp, relative to the start of
+// the conversation, and last until the next message or the estimated speaking time.
+
+export const TRANSCRIPT_EXPORT_FORMATS = ['txt', 'md', 'srt', 'vtt', 'json'] as const;
+export type TranscriptExportFormat = typeof TRANSCRIPT_EXPORT_FORMATS[number];
+
+export function isTranscriptExportFormat(value: unknown): value is TranscriptExportFormat {
+  return typeof value === 'string' && (TRANSCRIPT_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptExportFormat, string> = {
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+const TRANSCRIPT_TEXT: Record<ConsultationLanguage, {
+  locale: string;
+  title: string;
+  session: string;
+  date: string;
+  patient: string;
+  therapist: string;
+}> = {
+  es: {
+    locale: 'es-ES',
+    title: 'Transcripción de la consulta',
+    session: 'Sesión',
+    date: 'Fecha de la consulta',
+    patient: 'Paciente',
+    therapist: 'Terapeuta',
+  },
+  en: {
+    locale: 'en-US',
+    title: 'Consultation transcript',
+    session: 'Session',
+    date: 'Consultation date',
+    patient: 'Patient',
+    therapist: 'Therapist',
+  },
+};
+
+// Subtitle cue duration from the word count, when the next message does not end it earlier
+const MS_PER_WORD = 400;
+const MIN_CUE_MS = 1500;
+const MAX_CUE_MS = 10_000;
+
+export function transcriptLanguage(conversation: Pick<Conversation, 'language'>): ConsultationLanguage {
+  return normalizeLanguage(conversation.language) ?? defaultLanguage();
+}
+
+export function transcriptTitle(language: ConsultationLanguage): string {
+  return TRANSCRIPT_TEXT[language].title;
+}
+
+function speaker(message: Message, language: ConsultationLanguage): string {
+  const text = TRANSCRIPT_TEXT[language];
+  return message.role === 'user' ? text.patient : message.metadata?.clinician ?? text.therapist;
+}
+
+export function formatTranscriptText(messages: Message[], language: ConsultationLanguage): string {
+  return messages
+    .map(message => `[${message.timestamp.toISOString()}] ${speaker(message, language)}: ${message.content}`)
+    .join('\n');
+}
+
+function formatTranscriptMarkdown(conversation: Conversation, messages: Message[], language: ConsultationLanguage): string {
+  const text = TRANSCRIPT_TEXT[language];
+  return [
+    `# ${text.title}`,
+    [
+      `- ${text.session}: ${conversation.sessionId}`,
+      `- ${text.date}: ${conversation.createdAt.toLocaleString(text.locale)}`,
+    ].join('\n'),
+    ...messages.map(message =>
+      `**${speaker(message, language)}** (${message.timestamp.toLocaleTimeString(text.locale)})\n\n${message.content}`),
+  ].join('\n\n') + '\n';
+}
+
+function cueTimestamp(ms: number, separator: ',' | '.'): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor(ms / 60_000) % 60;
+  const seconds = Math.floor(ms / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+function cues(conversation: Conversation, messages: Message[], language: ConsultationLanguage) {
+  const origin = Math.min(conversation.createdAt.getTime(), ...messages.map(m => m.timestamp.getTime()));
+  return messages.map((message, index) => {
+    const start = message.timestamp.getTime() - origin;
+    const words = message.content.split(/\s+/).filter(Boolean).length;
+    const spoken = Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, words * MS_PER_WORD));
+    const next = messages[index + 1] ? messages[index + 1].timestamp.getTime() - origin : Infinity;
+    const end = next > start ? Math.min(start + spoken, next) : start + spoken;
+    return { start, end, speaker: speaker(message, language), content: message.content };
+  });
+}
+
+function formatSrt(conversation: Conversation, messages: Message[], language: ConsultationLanguage): string {
+  return cues(conversation, messages, language)
+    .map((cue, index) => `${index + 1}\n${cueTimestamp(cue.start, ',')} --> ${cueTimestamp(cue.end, ',')}\n${cue.speaker}: ${cue.content}\n`)
+    .join('\n');
+}
+
+// Cue text must not contain "-->"; the speaker goes in a voice span
+function formatVtt(conversation: Conversation, messages: Message[], language: ConsultationLanguage): string {
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const body = cues(conversation, messages, language)
+    .map(cue => `${cueTimestamp(cue.start, '.')} --> ${cueTimestamp(cue.end, '.')}\n<v ${escape(cue.speaker)}>${escape(cue.content)}\n`)
+    .join('\n');
+  return `WEBVTT - ${transcriptTitle(language)}\n\n${body}`;
+}
+
+function transcriptJson(conversation: Conversation, messages: Message[], language: ConsultationLanguage) {
+  return {
+    sessionId: conversation.sessionId,
+    patientId: conversation.patientId,
+    language,
+    startedAt: conversation.createdAt.toISOString(),
+    messages: messages.map(message => ({
+      id: message.id,
+      role: message.role,
+      speaker: speaker(message, language),
+      content: message.content,
+      timestamp: message.timestamp.toISOString(),
+      isVoice: message.isVoice,
+    })),
+  };
+}
+
+export function formatTranscript(format: TranscriptExportFormat, conversation: Conversation, messages: Message[]): string {
+  const language = transcriptLanguage(conversation);
+  switch (format) {
+    case 'txt':
+      return formatTranscriptText(messages, language) + '\n';
+    case 'md':
+      return formatTranscriptMarkdown(conversation, messages, language);
+    case 'srt':
+      return formatSrt(conversation, messages, language);
+    case 'vtt':
+      return formatVtt(conversation, messages, language);
+    case 'json':
+      return JSON.stringify(transcriptJson(conversation, messages, language), null, 2);
+  }
+}
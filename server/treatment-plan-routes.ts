@@ -0,0 +1,218 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { insertHomeworkSchema, insertTreatmentPlanSchema, type TreatmentPlan } from "@shared/schema";
+import { PsychologicalAgent } from "./psychological-agent.js";
+import type { IStorage } from "./storage.js";
+
+const createPlanSchema = insertTreatmentPlanSchema
+  .pick({ diagnosis: true, goals: true, techniques: true })
+  .extend({
+    techniques: insertTreatmentPlanSchema.shape.techniques.default([]),
+    homework: z.array(insertHomeworkSchema.pick({ description: true, dueDate: true })).default([]),
+  });
+
+const updatePlanSchema = insertTreatmentPlanSchema
+  .pick({ diagnosis: true, goals: true, techniques: true, status: true })
+  .partial();
+
+const newHomeworkSchema = insertHomeworkSchema.pick({ description: true, dueDate: true, status: true, notes: true });
+
+const updateHomeworkSchema = newHomeworkSchema.partial();
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// Treatment plans and homework: drafted by the agent in the treatment phase or written by a
+// clinician; edits are picked up by the sessions currently in memory
+export function addTreatmentPlanEndpoints(app: Express, psychologicalAgent: PsychologicalAgent, storage: IStorage) {
+  const withHomework = async (plan: TreatmentPlan) => ({ ...plan, homework: await storage.getHomework(plan.id) });
+
+  // Plans of a consultation (newest first), each with its homework
+  app.get("/api/sessions/:sessionId/treatment-plans", async (req, res) => {
+    try {
+      const plans = await storage.getTreatmentPlans(req.params.sessionId);
+      res.json(await Promise.all(plans.map(withHomework)));
+    } catch (error) {
+      console.error('Treatment plans error:', error);
+      res.status(500).json({ message: "Failed to get treatment plans" });
+    }
+  });
+
+  // Clinician-written plan; it replaces the consultation's active plan
+  app.post("/api/sessions/:sessionId/treatment-plans", async (req, res) => {
+    const parsed = createPlanSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid treatment plan" });
+    }
+
+    try {
+      const { sessionId } = req.params;
+      const conversation = await storage.getConversation(sessionId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const { homework, ...plan } = parsed.data;
+      const created = await storage.replaceActiveTreatmentPlan(
+        { ...plan, conversationId: sessionId, patientId: conversation.patientId, source: 'manual' },
+        homework
+      );
+      await psychologicalAgent.refreshTreatmentPlan(created);
+
+      res.status(201).json(await withHomework(created));
+    } catch (error) {
+      console.error('Treatment plan create error:', error);
+      res.status(500).json({ message: "Failed to create treatment plan" });
+    }
+  });
+
+  // Ask the agent for a new draft from the consultation so far
+  app.post("/api/sessions/:sessionId/treatment-plans/draft", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      if (!(await storage.getConversation(sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const active = await psychologicalAgent.draftTreatmentPlan(sessionId);
+      if (!active) {
+        return res.status(422).json({ message: "Could not draft a treatment plan from this session" });
+      }
+
+      res.status(201).json({ ...active.plan, homework: active.homework });
+    } catch (error) {
+      console.error('Treatment plan draft error:', error);
+      res.status(500).json({ message: "Failed to draft treatment plan" });
+    }
+  });
+
+  app.get("/api/treatment-plans/:id", async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: "Invalid treatment plan id" });
+    }
+
+    try {
+      const plan = await storage.getTreatmentPlan(id);
+      if (!plan) {
+        return res.status(404).json({ message: "Treatment plan not found" });
+      }
+      res.json(await withHomework(plan));
+    } catch (error) {
+      console.error('Treatment plan error:', error);
+      res.status(500).json({ message: "Failed to get treatment plan" });
+    }
+  });
+
+  app.patch("/api/treatment-plans/:id", async (req, res) => {
+    const id = parseId(req.params.id);
+    const parsed = updatePlanSchema.safeParse(req.body ?? {});
+    if (id === null || !parsed.success) {
+      return res.status(400).json({ message: parsed.error?.errors[0]?.message || "Invalid treatment plan id" });
+    }
+
+    try {
+      const plan = await storage.updateTreatmentPlan(id, parsed.data);
+      if (!plan) {
+        return res.status(404).json({ message: "Treatment plan not found" });
+      }
+      await psychologicalAgent.refreshTreatmentPlan(plan);
+
+      res.json(await withHomework(plan));
+    } catch (error) {
+      console.error('Treatment plan update error:', error);
+      res.status(500).json({ message: "Failed to update treatment plan" });
+    }
+  });
+
+  app.delete("/api/treatment-plans/:id", async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: "Invalid treatment plan id" });
+    }
+
+    try {
+      const plan = await storage.getTreatmentPlan(id);
+      if (!plan || !(await storage.deleteTreatmentPlan(id))) {
+        return res.status(404).json({ message: "Treatment plan not found" });
+      }
+      await psychologicalAgent.refreshTreatmentPlan(plan);
+
+      res.status(204).end();
+    } catch (error) {
+      console.error('Treatment plan delete error:', error);
+      res.status(500).json({ message: "Failed to delete treatment plan" });
+    }
+  });
+
+  app.post("/api/treatment-plans/:id/homework", async (req, res) => {
+    const id = parseId(req.params.id);
+    const parsed = newHomeworkSchema.safeParse(req.body ?? {});
+    if (id === null || !parsed.success) {
+      return res.status(400).json({ message: parsed.error?.errors[0]?.message || "Invalid treatment plan id" });
+    }
+
+    try {
+      const plan = await storage.getTreatmentPlan(id);
+      if (!plan) {
+        return res.status(404).json({ message: "Treatment plan not found" });
+      }
+
+      const homework = await storage.addHomework({ ...parsed.data, planId: id });
+      await psychologicalAgent.refreshTreatmentPlan(plan);
+
+      res.status(201).json(homework);
+    } catch (error) {
+      console.error('Homework create error:', error);
+      res.status(500).json({ message: "Failed to add homework" });
+    }
+  });
+
+  // Mark homework completed/skipped (completedAt is stamped by storage) or edit it
+  app.patch("/api/homework/:id", async (req, res) => {
+    const id = parseId(req.params.id);
+    const parsed = updateHomeworkSchema.safeParse(req.body ?? {});
+    if (id === null || !parsed.success) {
+      return res.status(400).json({ message: parsed.error?.errors[0]?.message || "Invalid homework id" });
+    }
+
+    try {
+      const homework = await storage.updateHomework(id, parsed.data);
+      if (!homework) {
+        return res.status(404).json({ message: "Homework not found" });
+      }
+
+      const plan = await storage.getTreatmentPlan(homework.planId);
+      if (plan) await psychologicalAgent.refreshTreatmentPlan(plan);
+
+      res.json(homework);
+    } catch (error) {
+      console.error('Homework update error:', error);
+      res.status(500).json({ message: "Failed to update homework" });
+    }
+  });
+
+  app.delete("/api/homework/:id", async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: "Invalid homework id" });
+    }
+
+    try {
+      const homework = await storage.getHomeworkAssignment(id);
+      if (!homework || !(await storage.deleteHomework(id))) {
+        return res.status(404).json({ message: "Homework not found" });
+      }
+
+      const plan = await storage.getTreatmentPlan(homework.planId);
+      if (plan) await psychologicalAgent.refreshTreatmentPlan(plan);
+
+      res.status(204).end();
+    } catch (error) {
+      console.error('Homework delete error:', error);
+      res.status(500).json({ message: "Failed to delete homework" });
+    }
+  });
+}
@@ -0,0 +1,256 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from "zod";
+import type { ClinicalSnapshot, HomeworkAssignment, TreatmentPlan } from "@shared/schema";
+import type { LLMProvider } from "./llm-provider.js";
+import type { IStorage, NewHomework } from "./storage.js";
+import type { ConsultationLanguage } from "./languages.js";
+import { extractJsonObject } from "./clinical-extractor.js";
+
+// CBT treatment plans: drafted from the session when it reaches the treatment phase, and the
+// homework they assign reviewed with the patient in their next consultations
+
+const DEFAULT_DUE_IN_DAYS = 7;
+const MAX_DUE_IN_DAYS = 30;
+
+export const planDraftSchema = z.object({
+  diagnosis: z.string().trim().min(1).max(200).nullable().optional(),
+  goals: z.array(z.string().trim().min(1)).min(1).max(5),
+  techniques: z.array(z.string().trim().min(1)).max(5).default([]),
+  homework: z.array(z.object({
+    description: z.string().trim().min(1),
+    dueInDays: z.number().int().min(1).max(MAX_DUE_IN_DAYS).default(DEFAULT_DUE_IN_DAYS),
+  })).max(4).default([]),
+});
+
+export type PlanDraft = z.infer<typeof planDraftSchema>;
+
+export interface PlanDraftInput {
+  state: ClinicalSnapshot;
+  summary: string | null;
+  // Recent turns, oldest first
+  transcript: { role: string; content: string }[];
+  language: ConsultationLanguage;
+}
+
+const homeworkReviewSchema = z.object({
+  reviews: z.array(z.object({
+    id: z.number().int(),
+    status: z.enum(['completed', 'skipped']),
+    notes: z.string().trim().max(300).optional(),
+  })).default([]),
+});
+
+export type HomeworkReview = z.infer<typeof homeworkReviewSchema>['reviews'][number];
+
+export interface HomeworkReviewInput {
+  pending: HomeworkAssignment[];
+  userMessage: string;
+  previousAssistantMessage?: string;
+}
+
+// Active plan of a conversation with its homework
+export interface ActivePlan {
+  plan: TreatmentPlan;
+  homework: HomeworkAssignment[];
+}
+
+const LANGUAGE_NAMES: Record<ConsultationLanguage, string> = {
+  es: 'español',
+  en: 'inglés',
+};
+
+const PLAN_PROMPT = `Eres un psicólogo clínico que redacta un plan de tratamiento de terapia cognitivo-conductual (TCC) a partir de una consulta.
+
+Devuelve SOLO un objeto JSON válido, sin texto adicional, con esta forma:
+{"diagnosis":"...","goals":["..."],"techniques":["..."],"homework":[{"description":"...","dueInDays":7}]}
+
+Reglas:
+- diagnosis: impresión diagnóstica orientativa (DSM-5) en una frase, o null si no hay datos suficientes.
+- goals: 1 a 3 objetivos concretos y medibles acordes con lo que el paciente ha contado.
+- techniques: técnicas de TCC adecuadas (ej. "reestructuración cognitiva", "activación conductual", "higiene del sueño").
+- homework: 1 a 3 tareas realistas entre sesiones; dueInDays es el plazo en días (1-${MAX_DUE_IN_DAYS}).
+- No incluyas medicación.
+- Basa el plan SOLO en la información de la consulta.`;
+
+const HOMEWORK_REVIEW_PROMPT = `Eres un asistente de documentación clínica. El terapeuta está revisando con el paciente las tareas de la consulta anterior. Según el ÚLTIMO mensaje del paciente (puede estar en español o inglés), indica qué tareas dice haber hecho o no.
+
+Devuelve SOLO un objeto JSON válido, sin texto adicional, con esta forma:
+{"reviews":[{"id":1,"status":"completed|skipped","notes":"..."}]}
+
+Reglas:
+- Incluye solo las tareas sobre las que el paciente responde claramente; si no habla de una tarea, omítela.
+- status "completed" si la hizo (aunque sea en parte), "skipped" si no la hizo.
+- notes: breve resumen de lo que cuenta el paciente (dificultades, resultados).
+- Si el mensaje no habla de las tareas, devuelve {"reviews":[]}.`;
+
+export class TreatmentPlanner {
+  constructor(private provider: LLMProvider) {}
+
+  // Returns null when the model output cannot be parsed or fails validation
+  async draft(input: PlanDraftInput, signal?: AbortSignal): Promise<PlanDraft | null> {
+    const { state } = input;
+    const findings = (list: ClinicalSnapshot['symptoms']) => list.map(f => `${f.label} (${f.severity})`).join(', ') || '-';
+    const context = [
+      `Idioma de la consulta: ${LANGUAGE_NAMES[input.language]} (redacta el plan en este idioma).`,
+      `Motivo de consulta: ${state.chiefComplaint ?? '-'}`,
+      `Síntomas: ${findings(state.symptoms)}`,
+      `Preocupaciones: ${findings(state.concerns)}`,
+      `Factores de riesgo: ${findings(state.riskFactors)}`,
+      state.questionnaires.length > 0
+        && `Cuestionarios: ${state.questionnaires.map(q => `${q.name} ${q.total}/${q.maxScore} (${q.severity})`).join(', ')}`,
+      input.summary && `Resumen de la consulta: ${input.summary}`,
+      input.transcript.length > 0 && `Últimos turnos:\n${input.transcript
+        .map(turn => `${turn.role === 'user' ? 'Paciente' : 'Terapeuta'}: ${turn.content}`)
+        .join('\n')}`,
+    ].filter(Boolean).join('\n');
+
+    const response = await this.provider.chat.invoke([
+      new SystemMessage(PLAN_PROMPT),
+      new HumanMessage(context),
+    ], { signal });
+
+    const raw = typeof response.content === 'string' ? response.content : '';
+
+    try {
+      const parsed = planDraftSchema.safeParse(extractJsonObject(raw));
+      if (!parsed.success) {
+        console.warn('⚠️ Treatment plan draft failed validation:', parsed.error.errors[0]?.message);
+        return null;
+      }
+      return parsed.data;
+    } catch (error) {
+      console.warn('⚠️ Treatment plan draft is not JSON:', raw.substring(0, 100));
+      return null;
+    }
+  }
+
+  // Which pending homework the patient's message reports as done or not done; ids not in
+  // `pending` are dropped
+  async reviewHomework(input: HomeworkReviewInput, signal?: AbortSignal): Promise<HomeworkReview[]> {
+    const tasks = input.pending.map(item => `- id ${item.id}: ${item.description}`).join('\n');
+    const context = input.previousAssistantMessage
+      ? `Pregunta previa del terapeuta: "${input.previousAssistantMessage}"\n`
+      : '';
+
+    const response = await this.provider.chat.invoke([
+      new SystemMessage(HOMEWORK_REVIEW_PROMPT),
+      new HumanMessage(`Tareas pendientes:\n${tasks}\n${context}Mensaje del paciente: "${input.userMessage}"`),
+    ], { signal });
+
+    const raw = typeof response.content === 'string' ? response.content : '';
+
+    try {
+      const parsed = homeworkReviewSchema.safeParse(extractJsonObject(raw));
+      if (!parsed.success) {
+        console.warn('⚠️ Homework review failed validation:', parsed.error.errors[0]?.message);
+        return [];
+      }
+      const ids = new Set(input.pending.map(item => item.id));
+      return parsed.data.reviews.filter(review => ids.has(review.id));
+    } catch (error) {
+      console.warn('⚠️ Homework review output is not JSON:', raw.substring(0, 100));
+      return [];
+    }
+  }
+}
+
+// Homework with absolute due dates, counted from `now`
+export function draftHomework(draft: PlanDraft, now: Date = new Date()): NewHomework[] {
+  return draft.homework.map(item => ({
+    description: item.description,
+    dueDate: new Date(now.getTime() + item.dueInDays * 24 * 60 * 60 * 1000),
+  }));
+}
+
+// Lines kept in the clinical snapshot (and so in the patient's history)
+export function planSummaryLines(plan: TreatmentPlan): string[] {
+  return [...plan.goals, ...plan.techniques];
+}
+
+// Newest active plan of a conversation
+export async function loadActivePlan(storage: IStorage, sessionId: string): Promise<ActivePlan | null> {
+  const plan = (await storage.getTreatmentPlans(sessionId)).find(p => p.status === 'active');
+  if (!plan) return null;
+  return { plan, homework: await storage.getHomework(plan.id) };
+}
+
+// Pending homework from the patient's active plans in earlier consultations
+export async function loadPendingHomework(
+  storage: IStorage,
+  patientId: number,
+  currentSessionId: string
+): Promise<HomeworkAssignment[]> {
+  const plans = (await storage.getPatientTreatmentPlans(patientId))
+    .filter(plan => plan.status === 'active' && plan.conversationId !== currentSessionId);
+  const homework = await Promise.all(plans.map(plan => storage.getHomework(plan.id)));
+  return homework.flat().filter(item => item.status === 'pending');
+}
+
+const PLAN_TEXT: Record<ConsultationLanguage, {
+  locale: string;
+  planHeading: string;
+  diagnosis: string;
+  goals: string;
+  techniques: string;
+  homework: string;
+  due: string;
+  planInstructions: string;
+  reviewHeading: string;
+  reviewInstructions: string;
+}> = {
+  es: {
+    locale: 'es-ES',
+    planHeading: 'PLAN DE TRATAMIENTO PROPUESTO (borrador para acordar con el paciente):',
+    diagnosis: 'Impresión diagnóstica',
+    goals: 'Objetivos',
+    techniques: 'Técnicas',
+    homework: 'Tareas',
+    due: 'para el',
+    planInstructions: 'Preséntalo poco a poco, un objetivo, técnica o tarea por respuesta, y ajústalo a lo que el paciente considere realista.',
+    reviewHeading: 'TAREAS PENDIENTES DE CONSULTAS ANTERIORES:',
+    reviewInstructions: 'Al comienzo de la consulta pregunta con naturalidad si pudo hacer estas tareas y cómo le fue, sin juzgar. Refuerza lo conseguido y explora qué dificultó lo que no hizo.',
+  },
+  en: {
+    locale: 'en-US',
+    planHeading: 'PROPOSED TREATMENT PLAN (draft to agree on with the patient):',
+    diagnosis: 'Diagnostic impression',
+    goals: 'Goals',
+    techniques: 'Techniques',
+    homework: 'Homework',
+    due: 'due',
+    planInstructions: 'Present it gradually, one goal, technique or task per reply, and adjust it to what the patient finds realistic.',
+    reviewHeading: 'PENDING HOMEWORK FROM PREVIOUS CONSULTATIONS:',
+    reviewInstructions: 'Early in the consultation, naturally ask whether they managed to do these tasks and how it went, without judging. Reinforce what they achieved and explore what got in the way of what they did not do.',
+  },
+};
+
+function formatHomeworkItem(item: HomeworkAssignment, language: ConsultationLanguage): string {
+  const text = PLAN_TEXT[language];
+  return item.dueDate
+    ? `- ${item.description} (${text.due} ${item.dueDate.toLocaleDateString(text.locale)})`
+    : `- ${item.description}`;
+}
+
+// Prompt section for the treatment phase
+export function formatTreatmentPlan(active: ActivePlan, language: ConsultationLanguage = 'es'): string {
+  const text = PLAN_TEXT[language];
+  const { plan, homework } = active;
+  return [
+    text.planHeading,
+    plan.diagnosis && `${text.diagnosis}: ${plan.diagnosis}`,
+    `${text.goals}: ${plan.goals.join('; ')}`,
+    plan.techniques.length > 0 && `${text.techniques}: ${plan.techniques.join('; ')}`,
+    homework.length > 0 && `${text.homework}:\n${homework.map(item => formatHomeworkItem(item, language)).join('\n')}`,
+    text.planInstructions,
+  ].filter(Boolean).join('\n');
+}
+
+// Prompt section asking the agent to check on homework, or null when nothing is pending
+export function formatHomeworkReview(pending: HomeworkAssignment[], language: ConsultationLanguage = 'es'): string | null {
+  if (pending.length === 0) return null;
+
+  const text = PLAN_TEXT[language];
+  return `${text.reviewHeading}
+${pending.map(item => formatHomeworkItem(item, language)).join('\n')}
+${text.reviewInstructions}`;
+}
@@ -0,0 +1,41 @@
+import { describe, it, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { TurnCancelledError, TurnRegistry } from "./turn-registry.js";
+
+describe('TurnRegistry', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('aborts in-flight turns and rejects late requests for them', () => {
+    const registry = new TurnRegistry();
+    const turn = registry.begin('s1', 'transcription', 't1');
+
+    const cancelled = registry.cancel('s1');
+    assert.deepEqual(cancelled.map(c => [c.turnId, c.stage]), [['t1', 'transcription']]);
+    assert.ok(turn.controller.signal.aborted);
+    assert.throws(() => registry.begin('s1', 'agent', 't1'), TurnCancelledError);
+    assert.doesNotThrow(() => registry.begin('s1', 'agent', 't2'));
+  });
+
+  it('forgets cancelled turns after the TTL so ended sessions do not accumulate', () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const registry = new TurnRegistry(60_000);
+    for (let i = 0; i < 50; i++) {
+      registry.cancel(`s${i}`, `t${i}`);
+    }
+    assert.equal(registry.cancelledSessionCount, 50);
+    assert.ok(registry.isCancelled('s0', 't0'));
+
+    mock.timers.tick(60_000);
+    assert.equal(registry.isCancelled('s0', 't0'), false);
+    assert.equal(registry.cancelledSessionCount, 0);
+  });
+
+  it('keeps a bounded history per session', () => {
+    const registry = new TurnRegistry();
+    for (let i = 0; i < 30; i++) {
+      registry.cancel('s1', `t${i}`);
+    }
+    assert.equal(registry.isCancelled('s1', 't0'), false);
+    assert.ok(registry.isCancelled('s1', 't29'));
+  });
+});
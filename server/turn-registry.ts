@@ -0,0 +1,141 @@
+// Tracks in-flight transcription/LLM work per session so POST /api/interrupt can abort it
+
+export type TurnStage = 'transcription' | 'agent';
+
+export interface InFlightTurn {
+  turnId: string;
+  stage: TurnStage;
+  startedAt: number;
+  controller: AbortController;
+}
+
+export interface CancelledTurn {
+  turnId: string;
+  stage: TurnStage;
+  elapsedMs: number;
+}
+
+// How many cancelled turn ids to remember per session, and for how long, so a late request for
+// an already-interrupted turn (e.g. the LLM call after its transcription) is rejected. Older
+// entries are dropped so ended sessions do not accumulate.
+const CANCELLED_HISTORY = 20;
+const CANCELLED_TTL_MS = 5 * 60_000;
+
+export class TurnCancelledError extends Error {
+  constructor(public turnId: string) {
+    super(`Turn ${turnId} was cancelled`);
+    this.name = 'TurnCancelledError';
+  }
+}
+
+// LangChain rejects aborted calls with a plain Error("Aborted"), so the signal is the reliable check
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) return true;
+  return error instanceof Error && (error.name === 'AbortError' || error instanceof TurnCancelledError);
+}
+
+export class TurnRegistry {
+  private inFlight: Map<string, Map<string, InFlightTurn>> = new Map();
+  // turnId -> time it was cancelled, per session
+  private cancelled: Map<string, Map<string, number>> = new Map();
+
+  constructor(private cancelledTtlMs: number = CANCELLED_TTL_MS) {}
+
+  begin(sessionId: string, stage: TurnStage, turnId?: string): InFlightTurn {
+    const id = turnId || `turn_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+    if (this.isCancelled(sessionId, id)) {
+      throw new TurnCancelledError(id);
+    }
+
+    const turn: InFlightTurn = {
+      turnId: id,
+      stage,
+      startedAt: Date.now(),
+      controller: new AbortController(),
+    };
+
+    let sessionTurns = this.inFlight.get(sessionId);
+    if (!sessionTurns) {
+      sessionTurns = new Map();
+      this.inFlight.set(sessionId, sessionTurns);
+    }
+    sessionTurns.set(id, turn);
+
+    return turn;
+  }
+
+  end(sessionId: string, turn: InFlightTurn): void {
+    const sessionTurns = this.inFlight.get(sessionId);
+    if (sessionTurns?.get(turn.turnId) === turn) {
+      sessionTurns.delete(turn.turnId);
+      if (sessionTurns.size === 0) {
+        this.inFlight.delete(sessionId);
+      }
+    }
+  }
+
+  // Abort everything in flight for the session (or only the given turn)
+  cancel(sessionId: string, turnId?: string): CancelledTurn[] {
+    const sessionTurns = this.inFlight.get(sessionId);
+    const cancelledTurns: CancelledTurn[] = [];
+
+    if (turnId) {
+      this.rememberCancelled(sessionId, turnId);
+    }
+
+    if (!sessionTurns) {
+      return cancelledTurns;
+    }
+
+    for (const turn of Array.from(sessionTurns.values())) {
+      if (turnId && turn.turnId !== turnId) continue;
+
+      turn.controller.abort(new TurnCancelledError(turn.turnId));
+      sessionTurns.delete(turn.turnId);
+      this.rememberCancelled(sessionId, turn.turnId);
+      cancelledTurns.push({
+        turnId: turn.turnId,
+        stage: turn.stage,
+        elapsedMs: Date.now() - turn.startedAt,
+      });
+    }
+
+    if (sessionTurns.size === 0) {
+      this.inFlight.delete(sessionId);
+    }
+
+    return cancelledTurns;
+  }
+
+  isCancelled(sessionId: string, turnId: string): boolean {
+    this.pruneCancelled();
+    return this.cancelled.get(sessionId)?.has(turnId) ?? false;
+  }
+
+  // Sessions with cancelled turns still remembered
+  get cancelledSessionCount(): number {
+    this.pruneCancelled();
+    return this.cancelled.size;
+  }
+
+  private rememberCancelled(sessionId: string, turnId: string): void {
+    this.pruneCancelled();
+    const history = this.cancelled.get(sessionId) || new Map<string, number>();
+    history.delete(turnId);
+    history.set(turnId, Date.now());
+    // Maps keep insertion order: the first entries are the oldest
+    Array.from(history.keys()).slice(0, -CANCELLED_HISTORY).forEach(id => history.delete(id));
+    this.cancelled.set(sessionId, history);
+  }
+
+  private pruneCancelled(): void {
+    const cutoff = Date.now() - this.cancelledTtlMs;
+    this.cancelled.forEach((history, sessionId) => {
+      history.forEach((cancelledAt, turnId) => {
+        if (cancelledAt <= cutoff) history.delete(turnId);
+      });
+      if (history.size === 0) this.cancelled.delete(sessionId);
+    });
+  }
+}
@@ -1,12 +1,133 @@
-import { pgTable, text, serial, timestamp, boolean, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, json, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
+import { sql } from "drizzle-orm";
 import { z } from "zod";
 
+// A returning patient; patientKey is the opaque identifier the client keeps between visits
+export const patients = pgTable("patients", {
+  id: serial("id").primaryKey(),
+  patientKey: text("patient_key").notNull().unique(),
+  displayName: text("display_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+});
+
+type FindingSnapshot = { label: string; severity: string };
+
+// Clinical state saved with each conversation so later sessions can pick it up
+export type ClinicalSnapshot = {
+  phase: string;
+  chiefComplaint?: string;
+  symptoms: FindingSnapshot[];
+  concerns: FindingSnapshot[];
+  riskFactors: FindingSnapshot[];
+  treatmentPlan?: string[];
+  questionnaires: { name: string; total: number; maxScore: number; severity: string; completedAt: string }[];
+  updatedAt: string;
+};
+
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull().unique(),
+  patientId: integer("patient_id").references(() => patients.id),
+  // Therapist persona played in this conversation (see server/personas.ts)
+  personaId: text("persona_id"),
+  // Consultation language ("es" | "en", see server/languages.ts); null means the persona's
+  language: text("language"),
+  // Pinned: always answer in `language`; otherwise the agent follows the language of each message
+  languagePinned: boolean("language_pinned").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+  // Set by the safety protocol when crisis/suicide risk is detected
+  riskFlagged: boolean("risk_flagged").default(false).notNull(),
+  riskFlaggedAt: timestamp("risk_flagged_at"),
+  // Rolling summary of the messages up to summaryThroughMessageId (see conversation-memory.ts)
+  summary: text("summary"),
+  summaryThroughMessageId: integer("summary_through_message_id"),
+  summaryUpdatedAt: timestamp("summary_updated_at"),
+  clinicalState: json("clinical_state").$type<ClinicalSnapshot>(),
+  // Clinician review (dashboard): when and by whom the case was marked reviewed
+  reviewedAt: timestamp("reviewed_at"),
+  reviewedBy: text("reviewed_by"),
+  // Human takeover: while set, agent replies are paused and this clinician answers the patient
+  takeoverBy: text("takeover_by"),
+  takeoverStartedAt: timestamp("takeover_started_at"),
+}, (table) => [
+  index("conversations_patient_id_idx").on(table.patientId),
+]);
+
+// Knowledge base section the agent was given for a reply (see server/knowledge-base.ts)
+export type KnowledgeCitation = {
+  id: string;
+  title: string;
+};
+
+// Output guardrail that fired on an agent reply and what was done about it (see
+// server/output-guardrails.ts)
+export type GuardrailRule = 'medication' | 'premature_diagnosis' | 'pii' | 'length';
+
+export type GuardrailViolation = {
+  rule: GuardrailRule;
+  action: 'regenerated' | 'removed' | 'rewritten' | 'fallback';
+  // Removed sentence or original length
+  detail?: string;
+};
+
+// Affective scoring of a patient message (see server/emotion-analyzer.ts)
+export type Emotion = 'joy' | 'sadness' | 'anxiety' | 'anger' | 'neutral';
+
+// Voice features of the recorded utterance, when it was sent as WAV
+export type ProsodyFeatures = {
+  durationSeconds: number;
+  // RMS level of the voiced frames, in dBFS
+  energyDb: number;
+  // Median pitch and its spread (semitones) over the voiced frames
+  pitchHz?: number;
+  pitchVariability?: number;
+  // Words per second
+  speechRate?: number;
+  // 0 (flat, quiet, slow) to 1 (loud, animated, fast)
+  arousal: number;
+};
+
+export type EmotionScore = {
+  // -1 (negative) to 1 (positive)
+  sentiment: number;
+  emotion: Emotion;
+  // 0 to 1
+  intensity: number;
+  scores: Record<Exclude<Emotion, 'neutral'>, number>;
+  prosody?: ProsodyFeatures;
+};
+
+// Tool the agent called while writing a reply (see server/agent-tools.ts)
+export type ToolCallRecord = {
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+};
+
+export type MessageMetadata = {
+  transcriptionDuration?: number;
+  processingTime?: number;
+  vadDetected?: boolean;
+  agentType?: string;
+  avatarProcessed?: boolean;
+  safetyEventId?: number;
+  // Assistant messages written by a clinician during a takeover
+  clinician?: string;
+  // Assistant messages: vetted material retrieved for the reply
+  sources?: KnowledgeCitation[];
+  // Assistant messages: guardrails that changed the generated reply
+  guardrails?: GuardrailViolation[];
+  // Assistant messages: tools called while writing the reply
+  toolCalls?: ToolCallRecord[];
+  // User messages: emotion and sentiment of the message
+  emotion?: EmotionScore;
+  // User messages: detected language and who detected it; assistant messages: reply language
+  language?: string;
+  languageSource?: 'stt' | 'detector';
+};
 
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
@@ -16,18 +137,139 @@ export const messages = pgTable("messages", {
   isVoice: boolean("is_voice").default(false),
   audioData: text("audio_data"), // base64 encoded audio
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-  metadata: json("metadata").$type<{
-    transcriptionDuration?: number;
-    processingTime?: number;
-    vadDetected?: boolean;
-    agentType?: string;
-    avatarProcessed?: boolean;
-  }>(),
-});
+  metadata: json("metadata").$type<MessageMetadata>(),
+}, (table) => [
+  index("messages_conversation_id_idx").on(table.conversationId),
+  // Trigram index for conversation search (see DrizzleStorage.listConversations); the function
+  // is defined in migration 0014
+  index("messages_content_trgm_idx").using("gin", sql`message_search_text(${table.content}) gin_trgm_ops`),
+]);
+
+export const safetyEvents = pgTable("safety_events", {
+  id: serial("id").primaryKey(),
+  conversationId: text("conversation_id").notNull(),
+  category: text("category", { enum: ["suicidal_ideation", "self_harm", "harm_to_others"] }).notNull(),
+  language: text("language").notNull(),
+  country: text("country").notNull(),
+  matchedPhrases: json("matched_phrases").$type<string[]>().notNull(),
+  userMessage: text("user_message").notNull(),
+  responseText: text("response_text").notNull(),
+  notificationStatus: text("notification_status", { enum: ["not_configured", "pending", "sent", "failed"] }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("safety_events_conversation_id_idx").on(table.conversationId),
+]);
+
+// Notes written by clinicians while reviewing a conversation
+export const clinicianNotes = pgTable("clinician_notes", {
+  id: serial("id").primaryKey(),
+  conversationId: text("conversation_id").notNull(),
+  author: text("author"),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("clinician_notes_conversation_id_idx").on(table.conversationId),
+]);
+
+// Audit trail of human takeovers: who took the session over, what they said and when they
+// handed it back to the agent
+export const takeoverEvents = pgTable("takeover_events", {
+  id: serial("id").primaryKey(),
+  conversationId: text("conversation_id").notNull(),
+  action: text("action", { enum: ["started", "message", "ended"] }).notNull(),
+  clinician: text("clinician").notNull(),
+  // Message actions: the clinician's reply and the stored message it became
+  content: text("content"),
+  messageId: integer("message_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("takeover_events_conversation_id_idx").on(table.conversationId),
+]);
+
+// CBT treatment plan: drafted by the agent when a session reaches the treatment phase
+// (source "generated") or written by a clinician ("manual")
+export const treatmentPlans = pgTable("treatment_plans", {
+  id: serial("id").primaryKey(),
+  conversationId: text("conversation_id").notNull(),
+  patientId: integer("patient_id").references(() => patients.id),
+  diagnosis: text("diagnosis"),
+  goals: json("goals").$type<string[]>().notNull(),
+  techniques: json("techniques").$type<string[]>().notNull(),
+  status: text("status", { enum: ["active", "completed", "discontinued"] }).default("active").notNull(),
+  source: text("source", { enum: ["generated", "manual"] }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("treatment_plans_conversation_id_idx").on(table.conversationId),
+  index("treatment_plans_patient_id_idx").on(table.patientId),
+]);
+
+// Follow-up appointments, booked by the agent's scheduling tool (see server/agent-tools.ts)
+export const appointments = pgTable("appointments", {
+  id: serial("id").primaryKey(),
+  conversationId: text("conversation_id").notNull(),
+  patientId: integer("patient_id").references(() => patients.id),
+  startsAt: timestamp("starts_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull(),
+  reason: text("reason"),
+  status: text("status", { enum: ["scheduled", "cancelled"] }).default("scheduled").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("appointments_conversation_id_idx").on(table.conversationId),
+  index("appointments_starts_at_idx").on(table.startsAt),
+]);
+
+// SOAP notes (Subjective, Objective, Assessment, Plan). Every edit is stored as a new version,
+// so the history of a session's note is kept
+export const soapNotes = pgTable("soap_notes", {
+  id: serial("id").primaryKey(),
+  conversationId: text("conversation_id").notNull(),
+  version: integer("version").notNull(),
+  subjective: text("subjective").notNull(),
+  objective: text("objective").notNull(),
+  assessment: text("assessment").notNull(),
+  plan: text("plan").notNull(),
+  source: text("source", { enum: ["generated", "clinician"] }).notNull(),
+  author: text("author"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("soap_notes_conversation_version_idx").on(table.conversationId, table.version),
+]);
+
+export const homeworkAssignments = pgTable("homework_assignments", {
+  id: serial("id").primaryKey(),
+  planId: integer("plan_id").references(() => treatmentPlans.id, { onDelete: "cascade" }).notNull(),
+  description: text("description").notNull(),
+  dueDate: timestamp("due_date"),
+  status: text("status", { enum: ["pending", "completed", "skipped"] }).default("pending").notNull(),
+  // What the patient reported when the homework was reviewed
+  notes: text("notes"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("homework_assignments_plan_id_idx").on(table.planId),
+]);
 
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
   createdAt: true,
+  riskFlagged: true,
+  riskFlaggedAt: true,
+  summary: true,
+  summaryThroughMessageId: true,
+  summaryUpdatedAt: true,
+  clinicalState: true,
+  reviewedAt: true,
+  reviewedBy: true,
+  takeoverBy: true,
+  takeoverStartedAt: true,
+});
+
+export const insertPatientSchema = createInsertSchema(patients).omit({
+  id: true,
+  patientKey: true,
+  createdAt: true,
+  lastSeenAt: true,
 });
 
 export const insertMessageSchema = createInsertSchema(messages).omit({
@@ -35,7 +277,82 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   timestamp: true,
 });
 
+export const insertSafetyEventSchema = createInsertSchema(safetyEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertClinicianNoteSchema = createInsertSchema(clinicianNotes, {
+  author: z.string().trim().min(1).max(100).nullable().optional(),
+  content: z.string().trim().min(1).max(5000),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTakeoverEventSchema = createInsertSchema(takeoverEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTreatmentPlanSchema = createInsertSchema(treatmentPlans, {
+  goals: z.array(z.string().trim().min(1)).min(1),
+  techniques: z.array(z.string().trim().min(1)),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  startsAt: z.coerce.date(),
+  durationMinutes: z.number().int().positive(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSoapNoteSchema = createInsertSchema(soapNotes, {
+  subjective: z.string().trim().max(10000),
+  objective: z.string().trim().max(10000),
+  assessment: z.string().trim().max(10000),
+  plan: z.string().trim().max(10000),
+  author: z.string().trim().min(1).max(100).nullable().optional(),
+}).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+});
+
+export const insertHomeworkSchema = createInsertSchema(homeworkAssignments, {
+  description: z.string().trim().min(1),
+  dueDate: z.coerce.date().nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type InsertPatient = z.infer<typeof insertPatientSchema>;
+export type InsertSafetyEvent = z.infer<typeof insertSafetyEventSchema>;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Conversation = typeof conversations.$inferSelect;
+export type Patient = typeof patients.$inferSelect;
 export type Message = typeof messages.$inferSelect;
+export type SafetyEvent = typeof safetyEvents.$inferSelect;
+export type SafetyNotificationStatus = SafetyEvent["notificationStatus"];
+export type InsertClinicianNote = z.infer<typeof insertClinicianNoteSchema>;
+export type ClinicianNote = typeof clinicianNotes.$inferSelect;
+export type InsertTakeoverEvent = z.infer<typeof insertTakeoverEventSchema>;
+export type TakeoverEvent = typeof takeoverEvents.$inferSelect;
+export type TakeoverAction = TakeoverEvent["action"];
+export type InsertTreatmentPlan = z.infer<typeof insertTreatmentPlanSchema>;
+export type InsertHomework = z.infer<typeof insertHomeworkSchema>;
+export type TreatmentPlan = typeof treatmentPlans.$inferSelect;
+export type HomeworkAssignment = typeof homeworkAssignments.$inferSelect;
+export type HomeworkStatus = HomeworkAssignment["status"];
+export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type Appointment = typeof appointments.$inferSelect;
+export type InsertSoapNote = z.infer<typeof insertSoapNoteSchema>;
+export type SoapNote = typeof soapNotes.$inferSelect;